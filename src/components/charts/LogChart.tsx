@@ -4,39 +4,67 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/com
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
-  LineChart as LineChartIcon, BarChart as BarChartIcon,
-  RefreshCcw
+  LineChart as LineChartIcon,
+  RefreshCcw, XCircle, Split
 } from 'lucide-react';
 import { RegexPattern } from "@/components/regex/RegexManager";
 import { cn } from "@/lib/utils";
 import ChartControls from "./chart-components/ChartControls";
 import PanelTabsManager from "./chart-components/PanelTabsManager";
 import ChartDisplay from "./chart-components/ChartDisplay";
+import CanvasChartDisplay from "./chart-components/CanvasChartDisplay";
 import TimeSegmentedCharts from "./chart-components/TimeSegmentedCharts";
-import LogSample from "./chart-components/LogSample";
+import LogViewer from "./chart-components/LogViewer";
+import LogSearch from "./chart-components/LogSearch";
+import SeverityBreakdown from "./chart-components/SeverityBreakdown";
+import ErrorTemplates from "./chart-components/ErrorTemplates";
 import { processLogDataInChunks } from "@/utils/logProcessing";
+import { AUTO_TIMESTAMP_FORMAT } from "@/utils/timestampFormats";
+import { DEFAULT_INGESTION_CONFIG } from "@/types/sourceTypes";
+import { getSourceSeriesName } from "@/utils/logParser";
+import { DerivedDefinition, applyDerivedSignals, renameSignalReferences } from "@/utils/derivedSignals";
+import { getCategoryOrders, mergeObservedValues, remapCategories, toValueMap } from "@/utils/categories";
+import { loadCategoryMappings, saveCategoryMappings } from "@/utils/patternStorage";
+import { LogSearchResult } from "@/types/searchTypes";
+import { SeverityData, SeverityEvent } from "@/types/severityTypes";
+import { LogTemplate, TemplateMiningResult } from "@/types/templateTypes";
+import { createTemplatePattern, templateToRegex } from "@/utils/templateMining";
+import { LineSelection, createLineTimeLookup, findLineTimestamp, selectLinesAt, selectLinesInRange } from "@/utils/lineSelection";
 
 // Types moved to separate file for clarity
 import { 
-  LogData, 
   Signal, 
+  SignalAggregation,
+  SignalFill,
+  SignalDisplay,
+  CategoryMapping,
   ChartPanel, 
-  LogChartProps 
+  ChartRenderer,
+  LogChartProps,
+  CHART_COLORS,
+  SOURCE_KEY
 } from "@/types/chartTypes";
 
 // Constants
 const MAX_CHART_POINTS = 5000;
-const MAX_VISIBLE_POINTS = 1000; 
 const TIME_SEGMENT_DURATION = 30; // minutes
 
-const LogChart: React.FC<LogChartProps> = ({ logContent, patterns, className }) => {
-  const [chartData, setChartData] = useState<LogData[]>([]);
-  const [formattedChartData, setFormattedChartData] = useState<any[]>([]);
+const LogChart: React.FC<LogChartProps> = ({ 
+  logSources, 
+  patterns, 
+  timestampFormat = AUTO_TIMESTAMP_FORMAT, 
+  ingestion = DEFAULT_INGESTION_CONFIG,
+  onAddPattern,
+  className 
+}) => {
+  const [unfilteredChartData, setUnfilteredChartData] = useState<any[]>([]);
+  const [hiddenSources, setHiddenSources] = useState<string[]>([]);
   const [displayedChartData, setDisplayedChartData] = useState<any[]>([]);
   const [signals, setSignals] = useState<Signal[]>([]);
   const [panels, setPanels] = useState<ChartPanel[]>([{ id: 'panel-1', signals: [] }]);
   const [activeTab, setActiveTab] = useState<string>("panel-1");
   const [chartType, setChartType] = useState<'line' | 'bar'>('line');
+  const [chartRenderer, setChartRenderer] = useState<ChartRenderer>('svg');
   const [zoomDomain, setZoomDomain] = useState<{ start?: number, end?: number }>({});
   const [dataStats, setDataStats] = useState<{ total: number, displayed: number, samplingRate: number, currentPage?: number, totalPages?: number }>({ 
     total: 0, 
@@ -50,94 +78,155 @@ const LogChart: React.FC<LogChartProps> = ({ logContent, patterns, className })
   const [customTimeRange, setCustomTimeRange] = useState<{ start?: Date, end?: Date }>({});
   const [currentPage, setCurrentPage] = useState<number>(1);
   const containerRef = useRef<HTMLDivElement>(null);
-  const [rawLogSample, setRawLogSample] = useState<string[]>([]);
+  const [lineSelection, setLineSelection] = useState<LineSelection | null>(null);
+  const [cursorTimestamp, setCursorTimestamp] = useState<number | undefined>(undefined);
+  const [searchResult, setSearchResult] = useState<LogSearchResult | null>(null);
+  const [severityData, setSeverityData] = useState<SeverityData | null>(null);
+  const [errorTemplates, setErrorTemplates] = useState<TemplateMiningResult | null>(null);
   const [stringValueMap, setStringValueMap] = useState<Record<string, Record<string, number>>>({});
   const [dataRange, setDataRange] = useState<{ min?: Date, max?: Date }>({});
   const [timeNavigation, setTimeNavigation] = useState<'preset' | 'pagination' | 'window' | 'segmented'>('segmented');
   const [timeWindowSize, setTimeWindowSize] = useState<number>(24); // Default 24 hours window
+  const cancelProcessingRef = useRef<(() => void) | null>(null);
+  const [categoryMappings, setCategoryMappings] = useState<Record<string, CategoryMapping>>({});
+  const categoryMappingsRef = useRef<Record<string, CategoryMapping>>({});
+  const signalsRef = useRef<Signal[]>([]);
+  const panelsRef = useRef<ChartPanel[]>([]);
   
+  const sourceNames = useMemo(() => logSources.map(source => source.name), [logSources]);
+  
+  // Derived signals only need recomputing when a name or expression changes,
+  // not when other signal settings such as visibility do
+  const derivedKey = JSON.stringify(signals
+    .filter(signal => signal.expression)
+    .map((signal): DerivedDefinition => ({ name: signal.name, expression: signal.expression! })));
+  const derivedDefinitions = useMemo(() => JSON.parse(derivedKey) as DerivedDefinition[], [derivedKey]);
+  
+  // Points from hidden sources are filtered out before any other processing;
+  // derived signals are then computed over the full remaining data
+  const formattedChartData = useMemo(() => {
+    const sourceData = hiddenSources.length === 0
+      ? unfilteredChartData
+      : unfilteredChartData.filter(point => !hiddenSources.includes(point[SOURCE_KEY]));
+    return applyDerivedSignals(sourceData, derivedDefinitions);
+  }, [unfilteredChartData, hiddenSources, derivedDefinitions]);
+  
+  // Saved value orders apply to every file, so they are loaded once
   useEffect(() => {
-    if (!logContent || patterns.length === 0) return;
+    loadCategoryMappings()
+      .then(mappings => setCategoryMappings(Object.fromEntries(mappings.map(mapping => [mapping.name, mapping]))))
+      .catch(error => console.error("Error loading category mappings:", error));
+  }, []);
+  
+  // Parsing reads the latest mappings without re-running when they change
+  useEffect(() => {
+    categoryMappingsRef.current = categoryMappings;
+  }, [categoryMappings]);
+  
+  // Likewise for the signals and panels, so a re-parse can keep derived signals
+  useEffect(() => {
+    signalsRef.current = signals;
+    panelsRef.current = panels;
+  }, [signals, panels]);
+  
+  // Values seen for the first time are appended to the saved order, so they keep their place in later files
+  useEffect(() => {
+    const changed: CategoryMapping[] = [];
+    Object.entries(stringValueMap).forEach(([name, valueMap]) => {
+      const mapping = categoryMappingsRef.current[name];
+      const merged = mergeObservedValues(name, mapping, valueMap);
+      if (merged !== mapping) changed.push(merged);
+    });
+    if (changed.length === 0) return;
+    
+    setCategoryMappings(current => ({ ...current, ...Object.fromEntries(changed.map(mapping => [mapping.name, mapping])) }));
+    saveCategoryMappings(changed).catch(error => console.error("Error saving category mappings:", error));
+  }, [stringValueMap]);
+  
+  // Mappings of the string values in the current data
+  const activeCategoryMappings = useMemo(() => {
+    const active: Record<string, CategoryMapping> = {};
+    Object.keys(stringValueMap).forEach(name => {
+      if (categoryMappings[name]) active[name] = categoryMappings[name];
+    });
+    return active;
+  }, [stringValueMap, categoryMappings]);
+  
+  // Without patterns the parse still detects log levels and error templates
+  useEffect(() => {
+    if (logSources.length === 0) return;
     
     try {
       setIsProcessing(true);
       setProcessingStatus("Starting to process log data");
-      const logLines = logContent.split('\n');
-      setRawLogSample(logLines.slice(0, 10));
+      setLineSelection(null);
+      setHiddenSources([]);
       
       console.log("Processing log data with patterns:", patterns);
-      console.log(`Starting to process ${logLines.length} log lines`);
+      console.log(`Starting to stream ${logSources.length} log source(s)`);
       
-      // Call the refactored processing function from utils
-      processLogDataInChunks(
-        logContent, 
+      // Parsing runs in a worker; keep the handle so the run can be cancelled
+      cancelProcessingRef.current = processLogDataInChunks(
+        logSources, 
         patterns, 
-        setChartData, 
-        setFormattedChartData, 
+        timestampFormat,
+        ingestion,
+        getCategoryOrders(categoryMappingsRef.current),
+        signalsRef.current,
+        panelsRef.current,
+        setUnfilteredChartData, 
         setSignals, 
         setPanels, 
         setStringValueMap, 
+        setSeverityData,
+        setErrorTemplates,
         setProcessingStatus, 
         setIsProcessing,
         optimizedFormatChartData
       );
-      
-      toast.success("Started processing log data");
     } catch (error) {
       console.error("Error processing log data:", error);
       toast.error("Error processing log data");
       setIsProcessing(false);
     }
-  }, [logContent, patterns]);
+    
+    // A new file or pattern selection supersedes any run still in progress
+    return () => {
+      cancelProcessingRef.current?.();
+      cancelProcessingRef.current = null;
+    };
+  }, [logSources, patterns, timestampFormat, ingestion]);
+
+  const handleCancelProcessing = useCallback(() => {
+    cancelProcessingRef.current?.();
+    cancelProcessingRef.current = null;
+    toast.info("Log processing cancelled");
+  }, []);
 
-  const optimizedFormatChartData = useCallback((data: LogData[], valueMap: Record<string, Record<string, number>>) => {
-    if (data.length === 0) {
+  const optimizedFormatChartData = useCallback((
+    formattedPoints: Record<string, number | string>[], 
+    valueMap: Record<string, Record<string, number>>
+  ) => {
+    if (formattedPoints.length === 0) {
       setIsProcessing(false);
       setProcessingStatus("");
       return;
     }
 
     setProcessingStatus("Formatting data for display");
-    console.log(`Formatting ${data.length} data points for chart display`);
+    console.log(`Formatting ${formattedPoints.length} data points for chart display`);
     
     try {
-      // Extract timestamps for min/max calculations
-      const timestamps = data.map(item => item.timestamp.getTime());
-      const minTime = new Date(Math.min(...timestamps));
-      const maxTime = new Date(Math.max(...timestamps));
+      // Data is sorted chronologically, so the range is given by its ends
+      const minTime = new Date(formattedPoints[0].timestamp);
+      const maxTime = new Date(formattedPoints[formattedPoints.length - 1].timestamp);
       
       // Set data range for time navigation
       setDataRange({ min: minTime, max: maxTime });
       console.log(`Data time range: ${minTime.toISOString()} to ${maxTime.toISOString()}`);
       
-      // Pre-format the data with a single pass
-      const formattedPoints = data.map(item => {
-        const dataPoint: any = {
-          timestamp: item.timestamp.getTime(),
-        };
-        
-        // Process all values
-        Object.entries(item.values).forEach(([key, value]) => {
-          if (typeof value === 'string') {
-            if (valueMap[key] && valueMap[key][value] !== undefined) {
-              dataPoint[key] = valueMap[key][value];
-              dataPoint[`${key}_original`] = value;
-            } else {
-              dataPoint[key] = 0;
-            }
-          } else {
-            dataPoint[key] = value;
-          }
-        });
-        
-        return dataPoint;
-      });
-      
-      // Sort by timestamp to ensure chronological order
-      formattedPoints.sort((a, b) => a.timestamp - b.timestamp);
-      
-      // Store in state
-      setFormattedChartData(formattedPoints);
+      // Points arrive pre-formatted and sorted from the parser worker
+      setUnfilteredChartData(formattedPoints);
       
       // Prepare display data
       setDisplayedChartData(formattedPoints);
@@ -155,7 +244,7 @@ const LogChart: React.FC<LogChartProps> = ({ logContent, patterns, className })
       setTimeNavigation('segmented');
       
       // Success!
-      toast.success(`Chart data ready with ${data.length.toLocaleString()} data points`);
+      toast.success(`Chart data ready with ${formattedPoints.length.toLocaleString()} data points`);
     } catch (error) {
       console.error("Error formatting chart data:", error);
       toast.error("Error formatting chart data");
@@ -182,14 +271,49 @@ const LogChart: React.FC<LogChartProps> = ({ logContent, patterns, className })
           start: brushData.startValue,
           end: brushData.endValue
         });
+        setLineSelection(selectLinesInRange(formattedChartData, brushData.startValue, brushData.endValue));
         
         console.log(`Setting zoom domain: ${new Date(brushData.startValue).toISOString()} to ${new Date(brushData.endValue).toISOString()}`);
       }
     } catch (error) {
       console.error("Error handling brush change:", error);
     }
+  }, [formattedChartData]);
+
+  // A clicked chart point shows the lines it came from in the raw log
+  const handlePointClick = useCallback((timestamp: number) => {
+    setLineSelection(selectLinesAt(formattedChartData, timestamp));
+  }, [formattedChartData]);
+
+  const lineTimeLookup = useMemo(() => createLineTimeLookup(formattedChartData), [formattedChartData]);
+
+  // A hovered raw log line is marked on the charts at its time
+  const handleLineHover = useCallback((source: string, line: number | null) => {
+    setCursorTimestamp(line === null ? undefined : findLineTimestamp(lineTimeLookup.get(source), line));
+  }, [lineTimeLookup]);
+
+  // A clicked search hit or error event is shown in the raw log and marked on the charts
+  const handleLineSelect = useCallback((event: Pick<SeverityEvent, 'source' | 'line'> & { timestamp?: number }) => {
+    setLineSelection({ source: event.source, ranges: [{ start: event.line, end: event.line }] });
+    setCursorTimestamp(event.timestamp);
   }, []);
 
+  // Ranges picked outside the charts zoom them like a brush would
+  const handleRangeSelect = useCallback((start: number, end: number) => {
+    handleBrushChange({ startValue: start, endValue: Math.max(end, start + 1000) });
+  }, [handleBrushChange]);
+
+  // Charting a template adds a count pattern, which re-parses the logs with it
+  const handleChartTemplate = useCallback((template: LogTemplate) => {
+    if (!onAddPattern) return;
+    if (patterns.some(pattern => pattern.pattern === templateToRegex(template.template))) {
+      toast.info("This template is already charted");
+      return;
+    }
+    onAddPattern(createTemplatePattern(template));
+    toast.success("Added a count signal for the template");
+  }, [onAddPattern, patterns]);
+
   const handleZoomReset = useCallback(() => {
     setZoomDomain({});
     console.log("Zoom reset");
@@ -201,6 +325,7 @@ const LogChart: React.FC<LogChartProps> = ({ logContent, patterns, className })
     
     if (preset === 'segmented') {
       setTimeNavigation('segmented');
+      setCustomTimeRange({});
       setZoomDomain({});
     } else if (preset === 'all') {
       setTimeNavigation('preset');
@@ -259,29 +384,13 @@ const LogChart: React.FC<LogChartProps> = ({ logContent, patterns, className })
     
     try {
       const total = data.length;
-      let sampled;
-      let samplingRate = 1;
       
+      // The chart downsamples after aggregating, so only the limit is recorded here
       if (total > maxDisplayPoints) {
-        samplingRate = Math.ceil(total / maxDisplayPoints);
-        
-        // Use evenly distributed sampling to maintain data shape
-        sampled = [];
-        for (let i = 0; i < total; i += samplingRate) {
-          sampled.push(data[i]);
-        }
-        
-        // Always include the last point if not already included
-        if (sampled[sampled.length - 1] !== data[total - 1]) {
-          sampled.push(data[total - 1]);
-        }
-        
-        console.log(`Sampled data from ${total} to ${sampled.length} points (rate: 1/${samplingRate})`);
-        
         setDataStats({ 
           total, 
-          displayed: sampled.length, 
-          samplingRate, 
+          displayed: maxDisplayPoints, 
+          samplingRate: Math.ceil(total / maxDisplayPoints), 
           currentPage: 1, 
           totalPages: Math.ceil(total / maxDisplayPoints) 
         });
@@ -290,9 +399,8 @@ const LogChart: React.FC<LogChartProps> = ({ logContent, patterns, className })
           setCurrentPage(1);
         }
         
-        toast.info(`Displaying ${sampled.length.toLocaleString()} of ${total.toLocaleString()} data points for performance`);
+        toast.info(`Displaying about ${maxDisplayPoints.toLocaleString()} of ${total.toLocaleString()} data points for performance`);
       } else {
-        sampled = data;
         setDataStats({ 
           total, 
           displayed: total, 
@@ -302,8 +410,7 @@ const LogChart: React.FC<LogChartProps> = ({ logContent, patterns, className })
         });
       }
       
-      console.log(`Setting ${sampled.length} points for display`);
-      setDisplayedChartData(sampled);
+      setDisplayedChartData(data);
     } catch (error) {
       console.error("Error preparing display data:", error);
       toast.error("Error preparing chart display");
@@ -367,45 +474,12 @@ const LogChart: React.FC<LogChartProps> = ({ logContent, patterns, className })
     });
   }, []);
 
-  const getVisibleData = useCallback(() => {
-    if (formattedChartData.length === 0) {
-      return [];
-    }
-    
-    let filteredData = formattedChartData;
-    
-    // Apply time range filter if specified
-    if (customTimeRange.start || customTimeRange.end) {
-      filteredData = applyTimeRangeFilter(formattedChartData, customTimeRange);
-    }
-    
-    // Apply zoom filter if specified
-    if (zoomDomain.start && zoomDomain.end) {
-      filteredData = filteredData.filter(
-        (item) => item.timestamp >= zoomDomain.start! && item.timestamp <= zoomDomain.end!
-      );
-    }
-    
-    // Apply sampling for better performance
-    if (filteredData.length > MAX_VISIBLE_POINTS) {
-      const samplingRate = Math.ceil(filteredData.length / MAX_VISIBLE_POINTS);
-      const sampled = [];
-      
-      // Use stride sampling
-      for (let i = 0; i < filteredData.length; i += samplingRate) {
-        sampled.push(filteredData[i]);
-      }
-      
-      // Always include last point if not already included
-      if (filteredData.length > 0 && sampled[sampled.length - 1] !== filteredData[filteredData.length - 1]) {
-        sampled.push(filteredData[filteredData.length - 1]);
-      }
-      
-      return sampled;
-    }
-    
-    return filteredData;
-  }, [formattedChartData, zoomDomain, customTimeRange, applyTimeRangeFilter]);
+  // Every point in the selected time range; pages still apply. The canvas draws
+  // them all, the SVG chart downsamples them after aggregating and filling.
+  const rangeChartData = useMemo(() => {
+    if (timeNavigation === 'pagination') return displayedChartData;
+    return applyTimeRangeFilter(formattedChartData, customTimeRange);
+  }, [timeNavigation, displayedChartData, formattedChartData, customTimeRange, applyTimeRangeFilter]);
 
   const navigateTime = useCallback((direction: 'forward' | 'backward') => {
     if (!customTimeRange.start || !customTimeRange.end) return;
@@ -474,20 +548,13 @@ const LogChart: React.FC<LogChartProps> = ({ logContent, patterns, className })
   useEffect(() => {
     if (timeNavigation === 'window' && customTimeRange.start && customTimeRange.end) {
       const filteredData = applyTimeRangeFilter(formattedChartData, customTimeRange);
+      const displayed = Math.min(filteredData.length, maxDisplayPoints);
       
-      let sampledData = filteredData;
-      let samplingRate = 1;
-      
-      if (filteredData.length > maxDisplayPoints) {
-        samplingRate = Math.ceil(filteredData.length / maxDisplayPoints);
-        sampledData = filteredData.filter((_, i) => i % samplingRate === 0);
-      }
-      
-      setDisplayedChartData(sampledData);
+      setDisplayedChartData(filteredData);
       setDataStats({
         total: formattedChartData.length,
-        displayed: sampledData.length,
-        samplingRate,
+        displayed,
+        samplingRate: displayed > 0 ? Math.ceil(filteredData.length / displayed) : 1,
         currentPage: 1,
         totalPages: Math.ceil(formattedChartData.length / maxDisplayPoints)
       });
@@ -502,23 +569,6 @@ const LogChart: React.FC<LogChartProps> = ({ logContent, patterns, className })
     return 'custom';
   }, [timeNavigation, timeRangePreset]);
 
-  const visibleChartData = useMemo(() => {
-    if (timeNavigation === 'pagination') {
-      return displayedChartData;
-    }
-    
-    const data = getVisibleData();
-    console.log(`Visible chart data: ${data.length} points`);
-    
-    if (data.length > 0) {
-      const first = new Date(data[0].timestamp);
-      const last = new Date(data[data.length - 1].timestamp);
-      console.log(`Visible time range: ${first.toISOString()} to ${last.toISOString()}`);
-    }
-    
-    return data;
-  }, [getVisibleData, displayedChartData, timeNavigation]);
-
   const getPanelSignals = useCallback((panelId: string) => {
     const panel = panels.find(p => p.id === panelId);
     if (!panel) return [];
@@ -577,6 +627,123 @@ const LogChart: React.FC<LogChartProps> = ({ logContent, patterns, className })
     }));
   }, [signals]);
 
+  const handleSignalAggregationChange = useCallback((signalId: string, aggregation: SignalAggregation) => {
+    setSignals(current => current.map(signal => 
+      signal.id === signalId ? { ...signal, aggregation } : signal
+    ));
+  }, []);
+
+  const handleSignalFillChange = useCallback((signalId: string, fill: SignalFill) => {
+    setSignals(current => current.map(signal => 
+      signal.id === signalId ? { ...signal, fill } : signal
+    ));
+  }, []);
+
+  const handleSignalDisplayChange = useCallback((signalId: string, display: SignalDisplay) => {
+    setSignals(current => current.map(signal => 
+      signal.id === signalId ? { ...signal, display } : signal
+    ));
+  }, []);
+
+  const handleSaveDerivedSignal = useCallback((name: string, expression: string, signalId?: string) => {
+    if (signalId) {
+      const previousName = signals.find(signal => signal.id === signalId)?.name;
+      setSignals(signals.map(signal => {
+        if (signal.id === signalId) {
+          return { ...signal, name, expression, pattern: { ...signal.pattern, name, pattern: expression } };
+        }
+        // Derived signals reading the renamed one follow it to its new name
+        if (!signal.expression || !previousName || previousName === name) return signal;
+        const renamed = renameSignalReferences(signal.expression, previousName, name);
+        return renamed === signal.expression
+          ? signal
+          : { ...signal, expression: renamed, pattern: { ...signal.pattern, pattern: renamed } };
+      }));
+      toast.success(`Updated derived signal ${name}`);
+      return;
+    }
+    
+    // Derived signals have no extraction of their own; the pattern only records the expression
+    const id = `derived-${Date.now()}`;
+    const newSignal: Signal = {
+      id,
+      name,
+      pattern: { id, name, pattern: expression, description: "Derived signal" },
+      color: CHART_COLORS[signals.length % CHART_COLORS.length],
+      visible: true,
+      expression
+    };
+    setSignals([...signals, newSignal]);
+    setPanels(panels.map(panel => panel.id === activeTab ? { ...panel, signals: [...panel.signals, id] } : panel));
+    toast.success(`Added derived signal ${name}`);
+  }, [signals, panels, activeTab]);
+
+  const handleRemoveDerivedSignal = useCallback((signalId: string) => {
+    setSignals(signals.filter(signal => signal.id !== signalId));
+    setPanels(panels.map(panel => ({ ...panel, signals: panel.signals.filter(id => id !== signalId) })));
+  }, [signals, panels]);
+
+  const handleSaveCategoryMapping = useCallback((mapping: CategoryMapping) => {
+    const valueMap = toValueMap(mapping);
+    const seriesNames = [mapping.name, ...sourceNames.map(source => getSourceSeriesName(mapping.name, source))];
+    
+    setCategoryMappings(current => ({ ...current, [mapping.name]: mapping }));
+    setStringValueMap(current => ({ ...current, [mapping.name]: valueMap }));
+    setUnfilteredChartData(current => remapCategories(current, seriesNames, valueMap));
+    setDisplayedChartData(current => remapCategories(current, seriesNames, valueMap));
+    
+    saveCategoryMappings([mapping])
+      .then(() => toast.success(`Saved the value order of ${mapping.name}`))
+      .catch(error => {
+        console.error("Error saving category mapping:", error);
+        toast.error("Could not save the value order");
+      });
+  }, [sourceNames]);
+
+  const toggleSourceVisibility = useCallback((source: string) => {
+    setHiddenSources(current => current.includes(source)
+      ? current.filter(name => name !== source)
+      : [...current, source]);
+  }, []);
+
+  const handleSplitBySource = useCallback(() => {
+    // Derived signals are computed from the merged series, so they are not split
+    const baseSignals = signals.filter(signal => !signal.source && !signal.expression);
+    const newSignals: Signal[] = [];
+    
+    baseSignals.forEach(signal => {
+      sourceNames.forEach(source => {
+        const id = `${signal.id}-${source}`;
+        if (signals.some(existing => existing.id === id)) return;
+        
+        newSignals.push({
+          ...signal,
+          id,
+          name: getSourceSeriesName(signal.name, source),
+          color: CHART_COLORS[(signals.length + newSignals.length) % CHART_COLORS.length],
+          source
+        });
+      });
+    });
+    
+    const allSignals = [...signals, ...newSignals];
+    setSignals(allSignals);
+    
+    // Show the per-source series in the active panel instead of the merged ones
+    setPanels(panels.map(panel => {
+      if (panel.id !== activeTab) return panel;
+      
+      const splitIds = allSignals
+        .filter(signal => signal.source && baseSignals.some(base => panel.signals.includes(base.id) && signal.id.startsWith(`${base.id}-`)))
+        .map(signal => signal.id);
+      const keptIds = panel.signals.filter(id => !baseSignals.some(base => base.id === id) && !splitIds.includes(id));
+      
+      return { ...panel, signals: [...keptIds, ...splitIds] };
+    }));
+    
+    toast.success(`Split signals across ${sourceNames.length} sources`);
+  }, [signals, sourceNames, panels, activeTab]);
+
   const handleMaxPointsChange = useCallback((value: number[]) => {
     const newMaxPoints = value[0];
     if (newMaxPoints !== maxDisplayPoints) {
@@ -642,7 +809,8 @@ const LogChart: React.FC<LogChartProps> = ({ logContent, patterns, className })
     // Get visible signals for active panel
     const visibleSignals = getPanelSignals(activeTab);
     
-    if (timeNavigation === 'segmented') {
+    // The canvas pans and zooms through the whole range, so it replaces the segments
+    if (timeNavigation === 'segmented' && chartRenderer === 'svg') {
       return (
         <TimeSegmentedCharts
           formattedChartData={formattedChartData}
@@ -652,31 +820,48 @@ const LogChart: React.FC<LogChartProps> = ({ logContent, patterns, className })
           onBrushChange={handleBrushChange}
           onZoomReset={handleZoomReset}
           zoomDomain={zoomDomain}
+          categoryMappings={activeCategoryMappings}
+          onPointClick={handlePointClick}
+          cursorTimestamp={cursorTimestamp}
+          searchHitTimes={searchResult?.hitTimes}
+          maxPoints={maxDisplayPoints}
         />
       );
     }
     
-    // For other navigation modes, use the original ChartDisplay
+    // For other navigation modes, use a single chart in the selected renderer
+    const ChartComponent = chartRenderer === 'canvas' ? CanvasChartDisplay : ChartDisplay;
     return (
-      <ChartDisplay
+      <ChartComponent
         containerRef={containerRef}
         chartType={chartType}
-        visibleChartData={displayedChartData}
+        visibleChartData={rangeChartData}
+        maxPoints={chartRenderer === 'canvas' ? undefined : maxDisplayPoints}
         zoomDomain={zoomDomain}
         signals={visibleSignals}
         onBrushChange={handleBrushChange}
+        categoryMappings={activeCategoryMappings}
+        onPointClick={handlePointClick}
+        cursorTimestamp={cursorTimestamp}
+        searchHitTimes={searchResult?.hitTimes}
       />
     );
   }, [
     activeTab, 
     timeNavigation, 
     formattedChartData, 
-    displayedChartData, 
+    rangeChartData,
     chartType, 
+    chartRenderer,
+    maxDisplayPoints,
     zoomDomain, 
     getPanelSignals, 
     handleBrushChange, 
-    handleZoomReset
+    handleZoomReset,
+    handlePointClick,
+    cursorTimestamp,
+    searchResult,
+    activeCategoryMappings
   ]);
 
   return (
@@ -698,6 +883,15 @@ const LogChart: React.FC<LogChartProps> = ({ logContent, patterns, className })
               <div className="flex items-center text-sm text-muted-foreground">
                 <div className="w-4 h-4 mr-2 rounded-full border-2 border-t-primary animate-spin" />
                 {processingStatus}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="ml-1 h-7 px-2"
+                  title="Cancel processing"
+                  onClick={handleCancelProcessing}
+                >
+                  <XCircle className="h-4 w-4 mr-1" /> Cancel
+                </Button>
               </div>
             )}
             
@@ -707,8 +901,8 @@ const LogChart: React.FC<LogChartProps> = ({ logContent, patterns, className })
               disabled={isProcessing || formattedChartData.length === 0}
               title="Reset chart"
               onClick={() => {
-                setChartData([]);
-                setFormattedChartData([]);
+                setUnfilteredChartData([]);
+                setHiddenSources([]);
                 setDisplayedChartData([]);
                 setSignals([]);
                 setPanels([{ id: 'panel-1', signals: [] }]);
@@ -716,7 +910,9 @@ const LogChart: React.FC<LogChartProps> = ({ logContent, patterns, className })
                 setChartType('line');
                 setZoomDomain({});
                 setStringValueMap({});
-                setRawLogSample([]);
+                setLineSelection(null);
+                setSeverityData(null);
+                setErrorTemplates(null);
                 setDataStats({ total: 0, displayed: 0, samplingRate: 1 });
                 setCustomTimeRange({});
                 setTimeRangePreset('all');
@@ -732,7 +928,7 @@ const LogChart: React.FC<LogChartProps> = ({ logContent, patterns, className })
       </CardHeader>
       
       <CardContent>
-        {isProcessing && chartData.length === 0 && (
+        {isProcessing && unfilteredChartData.length === 0 && (
           <div className="py-16 flex flex-col items-center justify-center text-center">
             <div className="w-10 h-10 mb-4 rounded-full border-4 border-t-primary animate-spin" />
             <h3 className="text-lg font-medium mb-1">Processing log data</h3>
@@ -742,7 +938,7 @@ const LogChart: React.FC<LogChartProps> = ({ logContent, patterns, className })
           </div>
         )}
         
-        {!isProcessing && chartData.length === 0 && (
+        {!isProcessing && unfilteredChartData.length === 0 && (
           <div className="py-16 flex flex-col items-center justify-center text-center">
             <LineChartIcon className="w-12 h-12 mb-4 text-muted-foreground/50" />
             <h3 className="text-lg font-medium mb-1">No visualization data yet</h3>
@@ -752,44 +948,65 @@ const LogChart: React.FC<LogChartProps> = ({ logContent, patterns, className })
           </div>
         )}
         
-        {chartData.length > 0 && (
+        {severityData && (
+          <div className="mb-4 space-y-4">
+            <SeverityBreakdown
+              severity={severityData}
+              onEventSelect={handleLineSelect}
+              onRangeSelect={handleRangeSelect}
+            />
+            {errorTemplates && (
+              <ErrorTemplates
+                result={errorTemplates}
+                onChartTemplate={onAddPattern ? handleChartTemplate : undefined}
+              />
+            )}
+          </div>
+        )}
+        
+        {logSources.length > 0 && (
+          <div className="mb-4">
+            <LogSearch
+              sources={logSources}
+              timestampFormat={timestampFormat}
+              ingestion={ingestion}
+              onResultChange={setSearchResult}
+              onHitSelect={handleLineSelect}
+            />
+          </div>
+        )}
+        
+        {unfilteredChartData.length > 0 && (
           <div className="space-y-4">
-            <div className="flex justify-between items-center">
-              <div className="flex gap-2">
-                <Button
-                  variant={chartType === 'line' ? "default" : "outline"}
-                  size="sm"
-                  onClick={() => setChartType('line')}
-                  className="flex items-center gap-1"
-                >
-                  <LineChartIcon className="h-4 w-4" />
-                  Line
-                </Button>
-                <Button
-                  variant={chartType === 'bar' ? "default" : "outline"}
-                  size="sm"
-                  onClick={() => setChartType('bar')}
-                  className="flex items-center gap-1"
-                >
-                  <BarChartIcon className="h-4 w-4" />
-                  Bar
-                </Button>
-              </div>
-              
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={handleZoomReset}
-                className="flex items-center gap-1"
-              >
-                <RefreshCcw className="h-3.5 w-3.5" />
-                Reset Zoom
-              </Button>
-            </div>
+            <ChartControls
+              dataStats={dataStats}
+              timeNavigation={timeNavigation}
+              timeRangePreset={timeRangePreset}
+              timeWindowSize={timeWindowSize}
+              customTimeRange={customTimeRange}
+              maxDisplayPoints={maxDisplayPoints}
+              chartType={chartType}
+              chartRenderer={chartRenderer}
+              zoomDomain={zoomDomain}
+              formattedChartData={formattedChartData}
+              currentPage={currentPage}
+              isProcessing={isProcessing}
+              onTimeRangePresetChange={handleTimeRangePresetChange}
+              onTimeWindowSizeChange={setTimeWindowSize}
+              onNavigateTimeWindow={navigateTimeWindow}
+              onNavigateTime={navigateTime}
+              onMaxPointsChange={handleMaxPointsChange}
+              onChartTypeChange={setChartType}
+              onChartRendererChange={setChartRenderer}
+              onZoomReset={handleZoomReset}
+              renderPaginationControls={renderPaginationControls}
+            />
             
             <div className="text-xs flex flex-wrap gap-x-4 gap-y-1 text-muted-foreground">
               <div>Total data points: <span className="font-medium">{dataStats.total.toLocaleString()}</span></div>
-              <div>Time segments: <span className="font-medium">{TIME_SEGMENT_DURATION} minute intervals</span></div>
+              {timeNavigation === 'segmented' && chartRenderer === 'svg' && (
+                <div>Time segments: <span className="font-medium">{TIME_SEGMENT_DURATION} minute intervals</span></div>
+              )}
               {zoomDomain.start && zoomDomain.end && (
                 <div>
                   Zoom: <span className="font-medium">
@@ -799,6 +1016,33 @@ const LogChart: React.FC<LogChartProps> = ({ logContent, patterns, className })
               )}
             </div>
             
+            {sourceNames.length > 1 && (
+              <div className="flex flex-wrap items-center gap-2 text-xs">
+                <span className="text-muted-foreground">Sources:</span>
+                {sourceNames.map(source => (
+                  <Button
+                    key={source}
+                    variant={hiddenSources.includes(source) ? "outline" : "secondary"}
+                    size="sm"
+                    className={cn("h-6 px-2 text-xs", hiddenSources.includes(source) && "line-through text-muted-foreground")}
+                    title={hiddenSources.includes(source) ? "Show points from this source" : "Hide points from this source"}
+                    onClick={() => toggleSourceVisibility(source)}
+                  >
+                    {source}
+                  </Button>
+                ))}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-6 px-2 text-xs flex items-center gap-1"
+                  onClick={handleSplitBySource}
+                >
+                  <Split className="h-3 w-3" />
+                  Split by source
+                </Button>
+              </div>
+            )}
+            
             {timeNavigation === 'segmented' ? (
               <PanelTabsManager
                 panels={panels}
@@ -810,13 +1054,30 @@ const LogChart: React.FC<LogChartProps> = ({ logContent, patterns, className })
                 onAddSignal={handleAddSignalToPanel}
                 onRemoveSignal={handleRemoveSignalFromPanel}
                 onToggleSignalVisibility={toggleSignalVisibility}
+                onSignalAggregationChange={handleSignalAggregationChange}
+                onSignalFillChange={handleSignalFillChange}
+                onSignalDisplayChange={handleSignalDisplayChange}
+                onSaveDerivedSignal={handleSaveDerivedSignal}
+                categoryMappings={activeCategoryMappings}
+                onSaveCategoryMapping={handleSaveCategoryMapping}
+                onRemoveDerivedSignal={handleRemoveDerivedSignal}
                 renderChartDisplay={() => renderChartContent()}
               />
             ) : (
               renderChartContent()
             )}
-            
-            <LogSample rawLogSample={rawLogSample} />
+          </div>
+        )}
+        
+        {/* Search and the raw log only need the sources, not parsed chart data */}
+        {logSources.length > 0 && (
+          <div className="mt-4">
+            <LogViewer
+              sources={logSources}
+              patterns={patterns}
+              selection={lineSelection}
+              onLineHover={handleLineHover}
+            />
           </div>
         )}
       </CardContent>
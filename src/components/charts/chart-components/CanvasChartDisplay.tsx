@@ -0,0 +1,435 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { CategoryMapping, ChartDisplayProps } from '@/types/chartTypes';
+import { aggregateChartData, isAggregated } from '@/utils/aggregation';
+import { fillChartData } from '@/utils/gapFilling';
+import { getCategoryLabel } from '@/utils/categories';
+import { findSignal, formatSignalValue, getValueAxis } from '@/utils/chartSeries';
+import {
+  SeriesColumn, buildSeriesColumns, decimateColumn, formatTimeTick,
+  getTimeTicks, getValueRange, getValueTicks, lowerBound
+} from '@/utils/canvasRendering';
+import StateTimeline from './StateTimeline';
+import HitDensityStrip from './HitDensityStrip';
+
+const MARGIN = { top: 10, right: 16, bottom: 24, left: 72 };
+const MIN_SPAN_MS = 10;
+const ZOOM_FACTOR = 1.25;
+const HOVER_DISTANCE_PX = 24; // How far from the cursor a point still shows in the tooltip
+
+// Shared default, so series are not rebuilt on every render without mappings
+const NO_MAPPINGS: Record<string, CategoryMapping> = {};
+
+interface TimeRange {
+  start: number;
+  end: number;
+}
+
+type DragState =
+  | { mode: 'pan'; startX: number; view: TimeRange }
+  | { mode: 'select'; startX: number };
+
+// Keeps a view inside the data, preserving its span where possible
+const clampView = (view: TimeRange, extent: TimeRange): TimeRange => {
+  const span = Math.min(Math.max(view.end - view.start, MIN_SPAN_MS), extent.end - extent.start);
+  const start = Math.min(Math.max(view.start, extent.start), extent.end - span);
+  return { start, end: start + span };
+};
+
+const formatNumber = (value: number): string => {
+  return Math.abs(value) >= 1000 ? Math.round(value).toLocaleString() : String(Number(value.toPrecision(4)));
+};
+
+// Point of a series nearest to a time, if it is close enough to the cursor
+const findNearest = (column: SeriesColumn, timestamp: number, maxDistanceMs: number): number | undefined => {
+  const index = lowerBound(column.xs, timestamp);
+  let nearest: number | undefined;
+  [index - 1, index].forEach(candidate => {
+    if (candidate < 0 || candidate >= column.xs.length || isNaN(column.ys[candidate])) return;
+    const distance = Math.abs(column.xs[candidate] - timestamp);
+    if (distance <= maxDistanceMs && (nearest === undefined || distance < Math.abs(column.xs[nearest] - timestamp))) {
+      nearest = candidate;
+    }
+  });
+  return nearest;
+};
+
+/**
+ * Chart drawn on a canvas instead of SVG. Series are kept in typed arrays and
+ * reduced to a few points per pixel column on every frame, so it can pan and
+ * zoom through millions of points without downsampling them first.
+ */
+const CanvasChartDisplay: React.FC<ChartDisplayProps> = ({
+  containerRef,
+  chartType,
+  visibleChartData,
+  zoomDomain,
+  signals,
+  onBrushChange,
+  timeSegment,
+  categoryMappings = NO_MAPPINGS,
+  onPointClick,
+  cursorTimestamp,
+  searchHitTimes,
+}) => {
+  const plotRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [hoverX, setHoverX] = useState<number | null>(null);
+  const [selection, setSelection] = useState<{ from: number; to: number } | null>(null);
+
+  // Signals shown as state timelines are drawn below the chart instead of on it
+  const chartSignals = useMemo(() => signals.filter(signal => signal.display !== 'timeline'), [signals]);
+  const timelineSignals = useMemo(() => signals.filter(signal => signal.display === 'timeline'), [signals]);
+
+  // Time range the chart opens on, matching the zoom or time segment when set
+  const initialRange = useMemo<TimeRange>(() => {
+    if (zoomDomain?.start && zoomDomain?.end) return { start: zoomDomain.start, end: zoomDomain.end };
+    if (timeSegment) return timeSegment;
+    if (!visibleChartData || visibleChartData.length === 0) return { start: 0, end: 0 };
+    return { start: visibleChartData[0].timestamp, end: visibleChartData[visibleChartData.length - 1].timestamp };
+  }, [zoomDomain, timeSegment, visibleChartData]);
+
+  // Panning and zooming stay within the data
+  const extent = useMemo<TimeRange>(() => {
+    if (!visibleChartData || visibleChartData.length === 0) return initialRange;
+    return {
+      start: Math.min(visibleChartData[0].timestamp, initialRange.start),
+      end: Math.max(visibleChartData[visibleChartData.length - 1].timestamp, initialRange.end)
+    };
+  }, [visibleChartData, initialRange]);
+
+  const [view, setView] = useState<TimeRange>(initialRange);
+  useEffect(() => setView(initialRange), [initialRange]);
+
+  // Aggregation buckets follow the range the chart opens on, so panning does not rebuild the series
+  const spanMs = initialRange.end - initialRange.start;
+  const columns = useMemo(() => {
+    const chartData = fillChartData(aggregateChartData(visibleChartData || [], chartSignals, spanMs), chartSignals);
+    return buildSeriesColumns(chartData, chartSignals, spanMs);
+  }, [visibleChartData, chartSignals, spanMs]);
+
+  const valueAxis = useMemo(() => getValueAxis(chartSignals, categoryMappings), [chartSignals, categoryMappings]);
+
+  const hasPlot = !!visibleChartData && visibleChartData.length > 0 && chartSignals.length > 0;
+  const plotWidth = Math.max(size.width - MARGIN.left - MARGIN.right, 1);
+  const viewSpan = Math.max(view.end - view.start, 1);
+  const toTime = (x: number) => view.start + ((x - MARGIN.left) / plotWidth) * viewSpan;
+
+  useEffect(() => {
+    const plot = plotRef.current;
+    if (!plot) return;
+    const resizeObserver = new ResizeObserver(entries => {
+      for (const entry of entries) {
+        setSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+      }
+    });
+    resizeObserver.observe(plot);
+    return () => resizeObserver.disconnect();
+  }, [hasPlot]);
+
+  // Wheel zooming around the cursor; registered natively so the page does not scroll
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const factor = event.deltaY > 0 ? ZOOM_FACTOR : 1 / ZOOM_FACTOR;
+      const x = event.offsetX;
+      setView(current => {
+        const width = Math.max(canvas.clientWidth - MARGIN.left - MARGIN.right, 1);
+        const anchor = current.start + ((x - MARGIN.left) / width) * (current.end - current.start);
+        return clampView({
+          start: anchor - (anchor - current.start) * factor,
+          end: anchor + (current.end - anchor) * factor
+        }, extent);
+      });
+    };
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', handleWheel);
+  }, [extent, hasPlot]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context || size.width === 0 || size.height === 0) return;
+
+    const ratio = window.devicePixelRatio || 1;
+    const width = Math.round(size.width * ratio);
+    const height = Math.round(size.height * ratio);
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width;
+      canvas.height = height;
+    }
+    context.setTransform(ratio, 0, 0, ratio, 0, 0);
+    context.clearRect(0, 0, size.width, size.height);
+
+    const plotHeight = Math.max(size.height - MARGIN.top - MARGIN.bottom, 1);
+    const categories = valueAxis.categories;
+    let { min, max } = categories
+      ? { min: 0.5, max: categories.length + 0.5 }
+      : getValueRange(columns, view.start, view.end);
+    if (!categories) {
+      if (chartType === 'bar') {
+        min = Math.min(min, 0);
+        max = Math.max(max, 0);
+      }
+      const padding = (max - min) * 0.05;
+      min -= padding;
+      max += padding;
+    }
+
+    const toX = (timestamp: number) => MARGIN.left + ((timestamp - view.start) / viewSpan) * plotWidth;
+    const toY = (value: number) => MARGIN.top + (1 - (value - min) / (max - min)) * plotHeight;
+    const styles = getComputedStyle(canvas);
+
+    // Grid and axes
+    context.font = '11px sans-serif';
+    context.fillStyle = styles.color;
+    context.strokeStyle = 'rgba(128, 128, 128, 0.25)';
+    context.lineWidth = 1;
+    context.setLineDash([3, 3]);
+
+    const valueTicks = categories
+      ? categories.map((_, index) => index + 1)
+      : getValueTicks(min, max, Math.max(Math.floor(plotHeight / 40), 2));
+    context.textAlign = 'right';
+    context.textBaseline = 'middle';
+    valueTicks.forEach(tick => {
+      const y = Math.round(toY(tick)) + 0.5;
+      context.beginPath();
+      context.moveTo(MARGIN.left, y);
+      context.lineTo(MARGIN.left + plotWidth, y);
+      context.stroke();
+      context.fillText(valueAxis.format ? valueAxis.format(tick) : formatNumber(tick), MARGIN.left - 6, y, MARGIN.left - 8);
+    });
+
+    const { ticks: timeTicks, stepMs } = getTimeTicks(view.start, view.end, Math.max(Math.floor(plotWidth / 100), 2));
+    context.textAlign = 'center';
+    context.textBaseline = 'top';
+    timeTicks.forEach(tick => {
+      const x = Math.round(toX(tick)) + 0.5;
+      context.beginPath();
+      context.moveTo(x, MARGIN.top);
+      context.lineTo(x, MARGIN.top + plotHeight);
+      context.stroke();
+      context.fillText(formatTimeTick(tick, stepMs), x, MARGIN.top + plotHeight + 6);
+    });
+    context.setLineDash([]);
+
+    // Series, clipped to the plot area
+    context.save();
+    context.beginPath();
+    context.rect(MARGIN.left, MARGIN.top, plotWidth, plotHeight);
+    context.clip();
+
+    if (chartType === 'line') {
+      context.lineWidth = 1.5;
+      context.lineJoin = 'round';
+      columns.forEach(column => {
+        context.strokeStyle = column.color;
+        decimateColumn(column, view.start, view.end, plotWidth).forEach(line => {
+          context.beginPath();
+          line.forEach((point, index) => {
+            if (index === 0) context.moveTo(toX(point.x), toY(point.y));
+            else context.lineTo(toX(point.x), toY(point.y));
+          });
+          if (line.length === 1) context.arc(toX(line[0].x), toY(line[0].y), 1.5, 0, Math.PI * 2);
+          context.stroke();
+        });
+      });
+    } else {
+      const baseline = toY(Math.max(min, Math.min(0, max)));
+      columns.forEach((column, seriesIndex) => {
+        context.fillStyle = column.color;
+        const from = lowerBound(column.xs, view.start);
+        const to = lowerBound(column.xs, view.end + 1);
+
+        // Few points get proper bars side by side; dense series become one-pixel columns
+        if (to - from <= plotWidth / 2) {
+          const barWidth = Math.max(Math.min((plotWidth / Math.max(to - from, 1)) * 0.8 / columns.length, 24), 1);
+          for (let i = from; i < to; i++) {
+            if (isNaN(column.ys[i])) continue;
+            const x = toX(column.xs[i]) - (barWidth * columns.length) / 2 + barWidth * seriesIndex;
+            const y = toY(column.ys[i]);
+            context.fillRect(x, Math.min(y, baseline), barWidth, Math.abs(baseline - y));
+          }
+        } else {
+          decimateColumn(column, view.start, view.end, plotWidth).forEach(line => line.forEach(point => {
+            const y = toY(point.y);
+            context.fillRect(Math.floor(toX(point.x)), Math.min(y, baseline), 1, Math.abs(baseline - y));
+          }));
+        }
+      });
+    }
+    context.restore();
+
+    if (hoverX !== null) {
+      context.strokeStyle = 'rgba(128, 128, 128, 0.6)';
+      context.beginPath();
+      context.moveTo(Math.round(hoverX) + 0.5, MARGIN.top);
+      context.lineTo(Math.round(hoverX) + 0.5, MARGIN.top + plotHeight);
+      context.stroke();
+    }
+
+    if (cursorTimestamp !== undefined && cursorTimestamp >= view.start && cursorTimestamp <= view.end) {
+      const x = Math.round(toX(cursorTimestamp)) + 0.5;
+      context.strokeStyle = '#ef4444';
+      context.setLineDash([4, 2]);
+      context.beginPath();
+      context.moveTo(x, MARGIN.top);
+      context.lineTo(x, MARGIN.top + plotHeight);
+      context.stroke();
+      context.setLineDash([]);
+    }
+
+    if (selection) {
+      context.fillStyle = 'rgba(136, 132, 216, 0.2)';
+      context.fillRect(Math.min(selection.from, selection.to), MARGIN.top, Math.abs(selection.to - selection.from), plotHeight);
+    }
+  }, [columns, view, viewSpan, size, plotWidth, chartType, valueAxis, hoverX, selection, cursorTimestamp]);
+
+  const getCanvasX = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const x = event.clientX - event.currentTarget.getBoundingClientRect().left;
+    return Math.min(Math.max(x, MARGIN.left), MARGIN.left + plotWidth);
+  };
+
+  const handleMouseDown = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const x = getCanvasX(event);
+    dragRef.current = event.shiftKey ? { mode: 'select', startX: x } : { mode: 'pan', startX: x, view };
+  };
+
+  const handleMouseMove = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const x = getCanvasX(event);
+    setHoverX(x);
+
+    const drag = dragRef.current;
+    if (drag?.mode === 'pan') {
+      const shift = ((drag.startX - x) / plotWidth) * (drag.view.end - drag.view.start);
+      setView(clampView({ start: drag.view.start + shift, end: drag.view.end + shift }, extent));
+    } else if (drag?.mode === 'select') {
+      setSelection({ from: drag.startX, to: x });
+    }
+  };
+
+  const handleMouseUp = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    const x = getCanvasX(event);
+
+    // A click without dragging shows the log lines behind the nearest point
+    if (drag?.mode === 'pan') {
+      if (Math.abs(x - drag.startX) < 4) onPointClick?.(Math.round(toTime(x)));
+      return;
+    }
+    if (drag?.mode !== 'select') return;
+    setSelection(null);
+    if (Math.abs(x - drag.startX) < 4) return;
+    try {
+      const startValue = Math.round(toTime(Math.min(drag.startX, x)));
+      const endValue = Math.round(toTime(Math.max(drag.startX, x)));
+      console.log(`Zooming from ${new Date(startValue).toISOString()} to ${new Date(endValue).toISOString()}`);
+      onBrushChange({ startValue, endValue, timeSegment });
+      toast.info("Zoomed to selected range");
+    } catch (error) {
+      console.error("Error handling range selection:", error);
+    }
+  };
+
+  const handleMouseLeave = () => {
+    dragRef.current = null;
+    setHoverX(null);
+    setSelection(null);
+  };
+
+  // Values near the cursor, labeled like the SVG chart's tooltip
+  const hoverTime = hoverX !== null ? toTime(hoverX) : null;
+  const hoverValues = hoverTime === null ? [] : columns.flatMap(column => {
+    const index = findNearest(column, hoverTime, (HOVER_DISTANCE_PX / plotWidth) * viewSpan);
+    if (index === undefined) return [];
+    const value = column.ys[index];
+    const signal = findSignal(chartSignals, column.key);
+    const mapping = signal && !isAggregated(signal) ? categoryMappings[signal.pattern.name] : undefined;
+    const category = mapping?.values[value - 1];
+    return [{
+      column,
+      text: category ? getCategoryLabel(mapping, category.value) : formatSignalValue(chartSignals, column.key, value)
+    }];
+  });
+
+  // Show placeholder when no data is available
+  if (!visibleChartData || visibleChartData.length === 0) {
+    return (
+      <div className="bg-card border rounded-md p-3 h-[300px] flex items-center justify-center" ref={containerRef}>
+        <p className="text-muted-foreground">No data to display</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-card border rounded-md p-3 space-y-2" ref={containerRef}>
+      {timeSegment && (
+        <div className="text-sm font-medium">
+          {new Date(timeSegment.start).toLocaleString()} - {new Date(timeSegment.end).toLocaleString()}
+        </div>
+      )}
+      {chartSignals.length > 0 && (
+        <>
+          <div className="relative h-[260px]" ref={plotRef}>
+            <canvas
+              ref={canvasRef}
+              className="absolute inset-0 h-full w-full cursor-crosshair text-muted-foreground"
+              onMouseDown={handleMouseDown}
+              onMouseMove={handleMouseMove}
+              onMouseUp={handleMouseUp}
+              onMouseLeave={handleMouseLeave}
+              onDoubleClick={() => setView(initialRange)}
+            />
+            {hoverTime !== null && hoverX !== null && hoverValues.length > 0 && (
+              <div
+                className="pointer-events-none absolute top-2 p-2 bg-white shadow-md border rounded-md text-xs"
+                style={hoverX > size.width / 2 ? { right: size.width - hoverX + 12 } : { left: hoverX + 12 }}
+              >
+                <p className="font-medium mb-1">{new Date(hoverTime).toLocaleString()}</p>
+                {hoverValues.map(({ column, text }) => (
+                  <div key={column.key} className="flex items-center gap-2 py-0.5">
+                    <div className="w-2 h-2 rounded-full" style={{ backgroundColor: column.color }} />
+                    <span className="font-medium">{column.label}:</span>
+                    <span>{text}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+          {searchHitTimes && (
+            <HitDensityStrip hitTimes={searchHitTimes} range={view} insetLeft={MARGIN.left} insetRight={MARGIN.right} />
+          )}
+          <div className="flex flex-wrap items-center justify-between gap-2 text-xs">
+            <div className="flex flex-wrap gap-3">
+              {columns.map(column => (
+                <div key={column.key} className="flex items-center gap-1.5">
+                  <div className="w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: column.color }} />
+                  <span>{column.label}</span>
+                </div>
+              ))}
+            </div>
+            <span className="text-muted-foreground">
+              Scroll to zoom, drag to pan, shift-drag to zoom to a range, double-click to reset
+            </span>
+          </div>
+        </>
+      )}
+      {timelineSignals.length > 0 && (
+        <StateTimeline
+          data={visibleChartData}
+          signals={timelineSignals}
+          range={view}
+          categoryMappings={categoryMappings}
+        />
+      )}
+    </div>
+  );
+};
+
+export default CanvasChartDisplay;
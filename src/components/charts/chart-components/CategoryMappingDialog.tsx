@@ -0,0 +1,118 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowDown, ArrowUp, ListOrdered, Save } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Dialog, DialogContent, DialogDescription,
+  DialogFooter, DialogHeader, DialogTitle
+} from "@/components/ui/dialog";
+import { CategoryMapping, CategoryValue } from '@/types/chartTypes';
+import { getCategoryColor } from '@/utils/categories';
+
+interface CategoryMappingDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  mapping: CategoryMapping | null;
+  onSave: (mapping: CategoryMapping) => void;
+}
+
+// Edits the order, labels and colors of a pattern's string values
+const CategoryMappingDialog: React.FC<CategoryMappingDialogProps> = ({ open, onOpenChange, mapping, onSave }) => {
+  const [values, setValues] = useState<CategoryValue[]>([]);
+
+  useEffect(() => {
+    if (open && mapping) setValues(mapping.values);
+  }, [open, mapping]);
+
+  const move = (index: number, offset: number) => {
+    setValues(current => {
+      const target = index + offset;
+      if (target < 0 || target >= current.length) return current;
+      const reordered = [...current];
+      [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+      return reordered;
+    });
+  };
+
+  const update = (index: number, changes: Partial<CategoryValue>) => {
+    setValues(current => current.map((category, i) => i === index ? { ...category, ...changes } : category));
+  };
+
+  if (!mapping) return null;
+
+  // Unset colors follow the position, so previews use the edited order
+  const preview: CategoryMapping = { name: mapping.name, values };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ListOrdered className="h-5 w-5" /> Values of {mapping.name}
+          </DialogTitle>
+          <DialogDescription>
+            Values are charted by their position, lowest first (e.g. INFO, WARN, ERROR). The order,
+            labels and colors are saved and reused for every file.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[400px]">
+          <div className="space-y-1.5 pr-3">
+            {values.map((category, index) => (
+              <div key={category.value} className="flex items-center gap-2">
+                <span className="w-6 text-right text-xs text-muted-foreground">{index + 1}</span>
+                <input
+                  type="color"
+                  className="h-7 w-7 shrink-0 cursor-pointer rounded border bg-transparent p-0.5"
+                  value={getCategoryColor(preview, category.value)}
+                  onChange={(e) => update(index, { color: e.target.value })}
+                  title="Color"
+                />
+                <span className="w-32 truncate font-mono text-xs" title={category.value}>{category.value}</span>
+                <Input
+                  className="h-7 text-xs"
+                  value={category.label || ""}
+                  onChange={(e) => update(index, { label: e.target.value || undefined })}
+                  placeholder="Label"
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7 p-0"
+                  disabled={index === 0}
+                  title="Move up"
+                  onClick={() => move(index, -1)}
+                >
+                  <ArrowUp className="h-3.5 w-3.5" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7 p-0"
+                  disabled={index === values.length - 1}
+                  title="Move down"
+                  onClick={() => move(index, 1)}
+                >
+                  <ArrowDown className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => onSave(preview)}>
+            <Save className="h-4 w-4 mr-2" />
+            Save Order
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CategoryMappingDialog;
@@ -12,6 +12,7 @@ import {
   ChevronRight 
 } from 'lucide-react';
 import { ChartControlsProps } from '@/types/chartTypes';
+import { DOWNSAMPLING_ALGORITHM } from '@/utils/downsampling';
 import { format } from 'date-fns';
 
 const ChartControls: React.FC<ChartControlsProps> = ({
@@ -22,6 +23,7 @@ const ChartControls: React.FC<ChartControlsProps> = ({
   customTimeRange,
   maxDisplayPoints,
   chartType,
+  chartRenderer,
   zoomDomain,
   formattedChartData,
   currentPage,
@@ -32,6 +34,7 @@ const ChartControls: React.FC<ChartControlsProps> = ({
   onNavigateTime,
   onMaxPointsChange,
   onChartTypeChange,
+  onChartRendererChange,
   onZoomReset,
   renderPaginationControls
 }) => {
@@ -44,11 +47,9 @@ const ChartControls: React.FC<ChartControlsProps> = ({
       <div className="lg:col-span-8 flex flex-wrap gap-2 items-center">
         <Select 
           value={
-            timeNavigation === 'pagination' 
-              ? 'pagination' 
-              : timeNavigation === 'window' 
-                ? 'window' 
-                : timeRangePreset
+            timeNavigation === 'pagination' || timeNavigation === 'window' || timeNavigation === 'segmented'
+              ? timeNavigation
+              : timeRangePreset
           } 
           onValueChange={onTimeRangePresetChange}
         >
@@ -56,6 +57,7 @@ const ChartControls: React.FC<ChartControlsProps> = ({
             <SelectValue placeholder="Time range" />
           </SelectTrigger>
           <SelectContent>
+            <SelectItem value="segmented">Time segments</SelectItem>
             <SelectItem value="all">All data</SelectItem>
             <SelectItem value="pagination">Pagination</SelectItem>
             <SelectItem value="window">Sliding window</SelectItem>
@@ -151,6 +153,11 @@ const ChartControls: React.FC<ChartControlsProps> = ({
             onValueChange={onMaxPointsChange}
             disabled={isProcessing}
           />
+          <span className="text-[10px] text-muted-foreground" title={DOWNSAMPLING_ALGORITHM.description}>
+            {chartRenderer === 'canvas'
+              ? 'Canvas draws every point'
+              : `Downsampled with ${DOWNSAMPLING_ALGORITHM.name} above the limit`}
+          </span>
         </div>
         
         <div className="flex border rounded-md overflow-hidden">
@@ -172,6 +179,27 @@ const ChartControls: React.FC<ChartControlsProps> = ({
           </Button>
         </div>
         
+        <div className="flex border rounded-md overflow-hidden">
+          <Button
+            variant={chartRenderer === 'svg' ? 'default' : 'outline'}
+            size="sm"
+            className={`rounded-none ${chartRenderer === 'svg' ? '' : 'border-0'}`}
+            onClick={() => onChartRendererChange('svg')}
+            title="Recharts SVG, downsampled to the display limit"
+          >
+            SVG
+          </Button>
+          <Button
+            variant={chartRenderer === 'canvas' ? 'default' : 'outline'}
+            size="sm"
+            className={`rounded-none ${chartRenderer === 'canvas' ? '' : 'border-0'}`}
+            onClick={() => onChartRendererChange('canvas')}
+            title="Canvas, draws every point and pans and zooms smoothly"
+          >
+            Canvas
+          </Button>
+        </div>
+        
         {(zoomDomain.start || zoomDomain.end) && (
           <Button
             variant="outline"
@@ -1,14 +1,26 @@
 
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import {
   LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip as RechartsTooltip, 
-  Legend, ResponsiveContainer, Brush, BarChart, Bar
+  Legend, ResponsiveContainer, Brush, BarChart, Bar, ReferenceLine
 } from 'recharts';
 import { ChartDisplayProps } from '@/types/chartTypes';
 import { toast } from 'sonner';
+import { aggregateChartData, isAggregated } from '@/utils/aggregation';
+import { fillChartData } from '@/utils/gapFilling';
+import { downsample } from '@/utils/downsampling';
+import { getCategoryLabel } from '@/utils/categories';
+import { findSignal, formatSignalValue, getSeriesKey, getSeriesLabel, getValueAxis } from '@/utils/chartSeries';
+import StateTimeline from './StateTimeline';
+import HitDensityStrip from './HitDensityStrip';
+
+// Recharts places the plot area inside these margins, after the Y axis
+const PLOT_MARGIN = { top: 5, right: 20, left: 10, bottom: 5 };
+const Y_AXIS_WIDTH = 60; // Recharts default
+const CATEGORY_AXIS_WIDTH = 80;
 
 // Custom tooltip component for charts
-const CustomTooltip = ({ active, payload, label }: any) => {
+const CustomTooltip = ({ active, payload, label, signals = [], categoryMappings = {} }: any) => {
   if (active && payload && payload.length) {
     return (
       <div className="p-2 bg-white shadow-md border rounded-md text-xs">
@@ -18,8 +30,8 @@ const CustomTooltip = ({ active, payload, label }: any) => {
             <div className="w-2 h-2 rounded-full" style={{ backgroundColor: entry.color }} />
             <span className="font-medium">{entry.name}:</span>
             <span>{typeof entry.payload[`${entry.name}_original`] === 'string' 
-              ? entry.payload[`${entry.name}_original`] 
-              : entry.value}</span>
+              ? getCategoryLabel(categoryMappings[findSignal(signals, entry.dataKey)?.pattern.name ?? ''], entry.payload[`${entry.name}_original`]) 
+              : typeof entry.value === 'number' ? formatSignalValue(signals, entry.dataKey, entry.value) : entry.value}</span>
           </div>
         ))}
       </div>
@@ -36,6 +48,12 @@ const ChartDisplay: React.FC<ChartDisplayProps> = ({
   signals,
   onBrushChange,
   timeSegment, // Optional time segment for multi-chart display
+  categoryMappings = {},
+  onPointClick,
+  cursorTimestamp,
+  searchHitTimes,
+  maxPoints,
+  isFilled = false,
 }) => {
   const [chartWidth, setChartWidth] = useState<number>(0);
   const [chartHeight, setChartHeight] = useState<number>(0);
@@ -59,6 +77,45 @@ const ChartDisplay: React.FC<ChartDisplayProps> = ({
     }
   }, [containerRef]);
 
+  // Signals shown as state timelines are drawn below the chart instead of on it
+  const chartSignals = useMemo(() => signals.filter(signal => signal.display !== 'timeline'), [signals]);
+  const timelineSignals = useMemo(() => signals.filter(signal => signal.display === 'timeline'), [signals]);
+
+  // Time span on screen, which sets the size of automatic aggregation buckets
+  const spanMs = useMemo(() => {
+    if (zoomDomain?.start && zoomDomain?.end) return zoomDomain.end - zoomDomain.start;
+    if (timeSegment) return timeSegment.end - timeSegment.start;
+    if (!visibleChartData || visibleChartData.length === 0) return 0;
+    return visibleChartData[visibleChartData.length - 1].timestamp - visibleChartData[0].timestamp;
+  }, [zoomDomain, timeSegment, visibleChartData]);
+
+  // Aggregated signals are bucketed here, so buckets follow the zoom level.
+  // Raw signals are filled afterwards, leaving nulls wherever the line breaks.
+  // Both see every point in range; only the result is downsampled for drawing.
+  const chartData = useMemo(() => {
+    const aggregated = aggregateChartData(visibleChartData || [], chartSignals, spanMs);
+    const filled = isFilled ? aggregated : fillChartData(aggregated, chartSignals);
+    return maxPoints ? downsample(filled, maxPoints) : filled;
+  }, [visibleChartData, chartSignals, spanMs, maxPoints, isFilled]);
+
+  // Time range covered by state timelines, matching the zoom or time segment when set
+  const timelineRange = useMemo(() => {
+    if (zoomDomain?.start && zoomDomain?.end) return { start: zoomDomain.start, end: zoomDomain.end };
+    if (timeSegment) return timeSegment;
+    if (!visibleChartData || visibleChartData.length === 0) return { start: 0, end: 0 };
+    return { start: visibleChartData[0].timestamp, end: visibleChartData[visibleChartData.length - 1].timestamp };
+  }, [zoomDomain, timeSegment, visibleChartData]);
+
+  // Range of the X axis, which spans the chart data unless zoomed
+  const axisRange = useMemo(() => {
+    if (zoomDomain?.start && zoomDomain?.end) return { start: zoomDomain.start, end: zoomDomain.end };
+    if (chartData.length === 0) return { start: 0, end: 0 };
+    return { start: Number(chartData[0].timestamp), end: Number(chartData[chartData.length - 1].timestamp) };
+  }, [zoomDomain, chartData]);
+
+  // The Y axis labels string values or units when the signals on the chart share them
+  const valueAxis = useMemo(() => getValueAxis(chartSignals, categoryMappings), [chartSignals, categoryMappings]);
+
   // Show placeholder when no data is available
   if (!visibleChartData || visibleChartData.length === 0) {
     return (
@@ -91,7 +148,7 @@ const ChartDisplay: React.FC<ChartDisplayProps> = ({
 
   // Calculate brush indices based on dataset size
   const startBrushIndex = 0;
-  const endBrushIndex = Math.min(Math.floor(visibleChartData.length * 0.2), visibleChartData.length - 1);
+  const endBrushIndex = Math.min(Math.floor(chartData.length * 0.2), chartData.length - 1);
   
   // Format the time for the X axis
   const formatXAxis = (tickItem: any) => {
@@ -143,14 +200,14 @@ const ChartDisplay: React.FC<ChartDisplayProps> = ({
       }
       
       // Make sure we have data to work with
-      if (!visibleChartData || visibleChartData.length === 0) {
+      if (!chartData || chartData.length === 0) {
         console.log("No visible chart data available for zooming");
         return;
       }
       
       // Normalize startIndex and endIndex to valid ranges
-      const startIndex = Math.max(0, Math.min(visibleChartData.length - 1, brushData.startIndex || 0));
-      const endIndex = Math.max(0, Math.min(visibleChartData.length - 1, brushData.endIndex || visibleChartData.length - 1));
+      const startIndex = Math.max(0, Math.min(chartData.length - 1, brushData.startIndex || 0));
+      const endIndex = Math.max(0, Math.min(chartData.length - 1, brushData.endIndex || chartData.length - 1));
       
       // Ensure we have a reasonable range (don't zoom to a single point)
       if (startIndex === endIndex) {
@@ -159,8 +216,8 @@ const ChartDisplay: React.FC<ChartDisplayProps> = ({
       }
       
       // Get the actual timestamps from the data
-      const startTimestamp = visibleChartData[startIndex]?.timestamp;
-      const endTimestamp = visibleChartData[endIndex]?.timestamp;
+      const startTimestamp = chartData[startIndex]?.timestamp;
+      const endTimestamp = chartData[endIndex]?.timestamp;
       
       // Ensure both timestamps exist
       if (startTimestamp === undefined || endTimestamp === undefined) {
@@ -188,8 +245,12 @@ const ChartDisplay: React.FC<ChartDisplayProps> = ({
   // Create chart content based on the chart type
   const renderChartContent = () => {
     const commonProps = {
-      data: visibleChartData,
-      margin: { top: 5, right: 20, left: 10, bottom: 5 }
+      data: chartData,
+      margin: PLOT_MARGIN,
+      // Clicking a point shows the log lines behind it
+      onClick: (state: { activeLabel?: string | number } | null) => {
+        if (onPointClick && state?.activeLabel !== undefined) onPointClick(Number(state.activeLabel));
+      }
     };
     
     // Define domain properly to fix the TypeScript error
@@ -212,10 +273,23 @@ const ChartDisplay: React.FC<ChartDisplayProps> = ({
       <>
         <CartesianGrid strokeDasharray="3 3" />
         <XAxis {...commonAxisProps} />
-        <YAxis />
-        <RechartsTooltip content={<CustomTooltip />} />
+        {valueAxis.categories ? (
+          <YAxis
+            ticks={valueAxis.categories.map((_, index) => index + 1)}
+            domain={[0.5, valueAxis.categories.length + 0.5]}
+            interval={0}
+            width={CATEGORY_AXIS_WIDTH}
+            tickFormatter={valueAxis.format}
+          />
+        ) : (
+          <YAxis tickFormatter={valueAxis.format} />
+        )}
+        {cursorTimestamp !== undefined && (
+          <ReferenceLine x={cursorTimestamp} stroke="#ef4444" strokeDasharray="4 2" ifOverflow="hidden" />
+        )}
+        <RechartsTooltip content={<CustomTooltip signals={chartSignals} categoryMappings={categoryMappings} />} />
         <Legend />
-        {visibleChartData.length > 5 && (
+        {chartData.length > 5 && (
           <Brush 
             dataKey="timestamp" 
             height={30} 
@@ -234,16 +308,17 @@ const ChartDisplay: React.FC<ChartDisplayProps> = ({
       return (
         <LineChart {...commonProps}>
           {commonComponents}
-          {signals.map(signal => (
+          {chartSignals.map(signal => (
             <Line
               key={signal.id}
               type="monotone"
-              dataKey={signal.name}
-              name={signal.name}
+              dataKey={getSeriesKey(signal)}
+              name={getSeriesLabel(signal, spanMs)}
               stroke={signal.color}
               activeDot={{ r: 6 }}
               isAnimationActive={false}
-              dot={visibleChartData.length < 100}
+              dot={chartData.length < 100}
+              connectNulls={isAggregated(signal)}
             />
           ))}
         </LineChart>
@@ -252,11 +327,11 @@ const ChartDisplay: React.FC<ChartDisplayProps> = ({
       return (
         <BarChart {...commonProps}>
           {commonComponents}
-          {signals.map(signal => (
+          {chartSignals.map(signal => (
             <Bar
               key={signal.id}
-              dataKey={signal.name}
-              name={signal.name}
+              dataKey={getSeriesKey(signal)}
+              name={getSeriesLabel(signal, spanMs)}
               fill={signal.color}
               isAnimationActive={false}
             />
@@ -266,6 +341,44 @@ const ChartDisplay: React.FC<ChartDisplayProps> = ({
     }
   };
   
+  const hitDensityStrip = searchHitTimes && chartSignals.length > 0 && (
+    <HitDensityStrip
+      hitTimes={searchHitTimes}
+      range={axisRange}
+      insetLeft={PLOT_MARGIN.left + (valueAxis.categories ? CATEGORY_AXIS_WIDTH : Y_AXIS_WIDTH)}
+      insetRight={PLOT_MARGIN.right}
+    />
+  );
+  
+  if (timelineSignals.length > 0 || hitDensityStrip) {
+    return (
+      <div className="bg-card border rounded-md p-3 space-y-3" ref={containerRef}>
+        {timeSegment && (
+          <div className="text-sm font-medium">
+            {new Date(timeSegment.start).toLocaleString()} - {new Date(timeSegment.end).toLocaleString()}
+          </div>
+        )}
+        {chartSignals.length > 0 && (
+          <div className="h-[300px]">
+            <ResponsiveContainer width="100%" height="100%">
+              {renderChartContent()}
+            </ResponsiveContainer>
+          </div>
+        )}
+        {hitDensityStrip}
+        {/* Timelines read every point in range rather than the downsampled chart data */}
+        {timelineSignals.length > 0 && (
+          <StateTimeline
+            data={visibleChartData}
+            signals={timelineSignals}
+            range={timelineRange}
+            categoryMappings={categoryMappings}
+          />
+        )}
+      </div>
+    );
+  }
+  
   return (
     <div className="bg-card border rounded-md p-3 h-[300px]" ref={containerRef}>
       {timeSegment && (
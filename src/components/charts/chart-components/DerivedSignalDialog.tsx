@@ -0,0 +1,130 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { FunctionSquare, Save } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog, DialogContent, DialogDescription,
+  DialogFooter, DialogHeader, DialogTitle
+} from "@/components/ui/dialog";
+import { Signal } from '@/types/chartTypes';
+import { DERIVED_FUNCTIONS, getReferencedSignals, parseExpression, toSignalReference } from '@/utils/derivedSignals';
+
+interface DerivedSignalDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  signal: Signal | null; // Derived signal being edited, or null for a new one
+  signals: Signal[];
+  onSave: (name: string, expression: string, signalId?: string) => void;
+}
+
+const DerivedSignalDialog: React.FC<DerivedSignalDialogProps> = ({ open, onOpenChange, signal, signals, onSave }) => {
+  const [name, setName] = useState("");
+  const [expression, setExpression] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+    setName(signal?.name || "");
+    setExpression(signal?.expression || "");
+  }, [open, signal]);
+
+  // Extracted signals and the derived signals defined before this one can be referenced
+  const availableNames = useMemo(() => {
+    const derived = signals.filter(s => s.expression);
+    const index = signal ? derived.findIndex(s => s.id === signal.id) : -1;
+    const earlierDerived = index < 0 ? derived : derived.slice(0, index);
+    return signals.filter(s => !s.expression || earlierDerived.includes(s)).map(s => s.name);
+  }, [signals, signal]);
+
+  const error = useMemo(() => {
+    if (!expression.trim()) return null;
+    try {
+      const unknown = getReferencedSignals(parseExpression(expression)).filter(ref => !availableNames.includes(ref));
+      return unknown.length > 0 ? `Unknown signal${unknown.length > 1 ? 's' : ''}: ${unknown.join(", ")}` : null;
+    } catch (e) {
+      return e instanceof Error ? e.message : String(e);
+    }
+  }, [expression, availableNames]);
+
+  const nameTaken = signals.some(s => s.name === name.trim() && s.id !== signal?.id);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FunctionSquare className="h-5 w-5" /> {signal ? "Edit derived signal" : "New derived signal"}
+          </DialogTitle>
+          <DialogDescription>
+            Compute a series from other signals, e.g. errors / requests * 100. Signals combine at every point
+            where one of them has a value, using the latest value of the others.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="derived-name">Name</Label>
+            <Input
+              id="derived-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Error ratio"
+              className={nameTaken ? "border-destructive" : ""}
+            />
+            {nameTaken && <p className="text-xs text-destructive">A signal with this name already exists</p>}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="derived-expression">Expression</Label>
+            <Input
+              id="derived-expression"
+              value={expression}
+              onChange={(e) => setExpression(e.target.value)}
+              placeholder="errors / requests * 100"
+              className={`font-mono ${error ? "border-destructive" : ""}`}
+            />
+            {error && <p className="text-xs text-destructive">{error}</p>}
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs">Signals</Label>
+            <div className="flex flex-wrap gap-1">
+              {availableNames.map(signalName => (
+                <Badge
+                  key={signalName}
+                  variant="secondary"
+                  className="font-mono text-[10px] cursor-pointer"
+                  onClick={() => setExpression(current => `${current}${current && !current.endsWith(" ") ? " " : ""}${toSignalReference(signalName)}`)}
+                >
+                  {toSignalReference(signalName)}
+                </Badge>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-1 text-xs text-muted-foreground">
+            <p>Operators: + - * / and parentheses. Names with spaces go in double quotes.</p>
+            {Object.values(DERIVED_FUNCTIONS).map(fn => (
+              <p key={fn.signature}>
+                <span className="font-mono text-foreground">{fn.signature}</span> – {fn.description}
+              </p>
+            ))}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => onSave(name.trim(), expression.trim(), signal?.id)}
+            disabled={!name.trim() || !expression.trim() || !!error || nameTaken}
+          >
+            <Save className="h-4 w-4 mr-2" />
+            Save Signal
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DerivedSignalDialog;
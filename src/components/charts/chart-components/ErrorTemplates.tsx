@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { Layers, LineChart as LineChartIcon } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { LogTemplate, TemplateMiningResult } from "@/types/templateTypes";
+import { DEFAULT_BUCKET_SECONDS } from "@/utils/eventCounts";
+import { formatBucketMs } from "@/utils/aggregation";
+
+interface ErrorTemplatesProps {
+  result: TemplateMiningResult;
+  onChartTemplate?: (template: LogTemplate) => void; // Adds a count signal of the template's lines
+}
+
+const LISTED_TEMPLATES = 50;
+const SPARKLINE_WIDTH = 90;
+const SPARKLINE_HEIGHT = 18;
+
+const Sparkline: React.FC<{ values: number[] }> = ({ values }) => {
+  const max = Math.max(...values, 1);
+  const barWidth = SPARKLINE_WIDTH / Math.max(values.length, 1);
+  return (
+    <svg width={SPARKLINE_WIDTH} height={SPARKLINE_HEIGHT} className="shrink-0">
+      {values.map((value, index) => value > 0 && (
+        <rect
+          key={index}
+          x={index * barWidth}
+          y={SPARKLINE_HEIGHT - Math.max((value / max) * SPARKLINE_HEIGHT, 1)}
+          width={Math.max(barWidth - 1, 1)}
+          height={Math.max((value / max) * SPARKLINE_HEIGHT, 1)}
+          fill="#dc2626"
+        />
+      ))}
+    </svg>
+  );
+};
+
+// Variable parts of a template are dimmed so the fixed text stands out
+const renderTemplate = (template: string) => {
+  return template.split(/(<\*>|<NUM>|<IP>|<HEX>|<UUID>)/).map((part, index) =>
+    index % 2 === 1
+      ? <span key={index} className="text-muted-foreground bg-muted rounded-sm px-0.5">{part}</span>
+      : part
+  );
+};
+
+// Error and fatal messages clustered into templates, most frequent first
+const ErrorTemplates: React.FC<ErrorTemplatesProps> = ({ result, onChartTemplate }) => {
+  const [showAll, setShowAll] = useState<boolean>(false);
+  const { templates } = result;
+
+  if (templates.length === 0) return null;
+
+  const listed = showAll ? templates : templates.slice(0, LISTED_TEMPLATES);
+
+  return (
+    <div className="border rounded-md">
+      <div className="px-4 py-2 bg-muted font-medium text-sm border-b flex items-center gap-2">
+        <Layers className="h-4 w-4" /> Error Templates
+        <span className="text-xs font-normal text-muted-foreground">
+          {result.minedCount.toLocaleString()} errors in {templates.length.toLocaleString()} template{templates.length !== 1 ? 's' : ''}
+          {result.unclustered > 0 && `, ${result.unclustered.toLocaleString()} not clustered`}
+        </span>
+      </div>
+      <div className="max-h-80 overflow-auto divide-y text-xs">
+        {listed.map(template => (
+          <div key={template.id} className="flex items-center gap-3 px-3 py-1.5">
+            <span className="w-14 shrink-0 text-right font-medium text-red-600">{template.count.toLocaleString()}</span>
+            <Sparkline values={template.sparkline} />
+            <div className="min-w-0 flex-1">
+              <div className="font-mono truncate" title={template.example}>{renderTemplate(template.template)}</div>
+              <div className="text-[10px] text-muted-foreground">
+                {new Date(template.firstSeen).toLocaleString()} - {new Date(template.lastSeen).toLocaleString()}
+              </div>
+            </div>
+            {onChartTemplate && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 px-2 text-xs flex items-center gap-1 shrink-0"
+                title={`Chart lines with this text at any level per ${formatBucketMs(DEFAULT_BUCKET_SECONDS * 1000)} as a count signal`}
+                onClick={() => onChartTemplate(template)}
+              >
+                <LineChartIcon className="h-3 w-3" /> Chart
+              </Button>
+            )}
+          </div>
+        ))}
+      </div>
+      {templates.length > LISTED_TEMPLATES && (
+        <div className="px-3 py-1.5 border-t">
+          <Button variant="ghost" size="sm" className="h-6 text-xs" onClick={() => setShowAll(current => !current)}>
+            {showAll ? "Show fewer" : `Show all ${templates.length.toLocaleString()} templates`}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ErrorTemplates;
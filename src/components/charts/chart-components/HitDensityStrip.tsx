@@ -0,0 +1,45 @@
+import React, { useMemo } from 'react';
+import { getHitDensity } from '@/utils/logSearch';
+
+interface HitDensityStripProps {
+  hitTimes: Float64Array; // Sorted times of the search hits
+  range: { start: number; end: number }; // Time range of the chart's X axis
+  insetLeft: number; // Pixels before the plot area, so bins line up with the X axis
+  insetRight: number;
+}
+
+const BIN_COUNT = 200;
+
+// Strip under a chart shading each slice of its time range by the number of search hits in it
+const HitDensityStrip: React.FC<HitDensityStripProps> = ({ hitTimes, range, insetLeft, insetRight }) => {
+  const bins = useMemo(() => getHitDensity(hitTimes, range.start, range.end, BIN_COUNT), [hitTimes, range]);
+  const maxCount = Math.max(...bins, 1);
+  const total = bins.reduce((sum, count) => sum + count, 0);
+  const binMs = (range.end - range.start) / BIN_COUNT;
+
+  return (
+    <div className="flex items-center text-[10px] text-muted-foreground">
+      <span className="shrink-0 pr-1 text-right" style={{ width: insetLeft }} title={`${total.toLocaleString()} hits in this range`}>
+        Hits
+      </span>
+      <div className="relative flex-1 h-3 rounded-sm bg-muted overflow-hidden">
+        {bins.map((count, bin) => count > 0 && (
+          <div
+            key={bin}
+            className="absolute top-0 h-full bg-orange-500"
+            style={{
+              left: `${(bin / BIN_COUNT) * 100}%`,
+              width: `${100 / BIN_COUNT}%`,
+              // Square root scaling keeps single hits visible next to bursts
+              opacity: 0.2 + 0.8 * Math.sqrt(count / maxCount)
+            }}
+            title={`${count.toLocaleString()} hit${count !== 1 ? 's' : ''} from ${new Date(range.start + bin * binMs).toLocaleString()}`}
+          />
+        ))}
+      </div>
+      <div className="shrink-0" style={{ width: insetRight }} />
+    </div>
+  );
+};
+
+export default HitDensityStrip;
@@ -0,0 +1,233 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { Minus, Plus, Search, X } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { IngestionConfig, LogSource } from "@/types/sourceTypes";
+import { LogSearchQuery, LogSearchResult, SearchHit, SearchMode } from "@/types/searchTypes";
+import { createLineMatcher } from "@/utils/logSearch";
+import { searchLogs } from "@/utils/logProcessing";
+
+interface LogSearchProps {
+  sources: LogSource[];
+  timestampFormat: string;
+  ingestion: IngestionConfig;
+  onResultChange: (result: LogSearchResult | null) => void;
+  onHitSelect: (hit: SearchHit) => void; // Shows the line of a clicked hit
+}
+
+// Searches every line of the sources in the background and lists the matching lines
+const LogSearch: React.FC<LogSearchProps> = ({ sources, timestampFormat, ingestion, onResultChange, onHitSelect }) => {
+  const [query, setQuery] = useState<string>("");
+  const [mode, setMode] = useState<SearchMode>('text');
+  const [caseSensitive, setCaseSensitive] = useState<boolean>(false);
+  const [include, setInclude] = useState<string[]>([]);
+  const [exclude, setExclude] = useState<string[]>([]);
+  const [filterDraft, setFilterDraft] = useState<string>("");
+  const [isSearching, setIsSearching] = useState<boolean>(false);
+  const [status, setStatus] = useState<string>("");
+  const [result, setResult] = useState<LogSearchResult | null>(null);
+  const cancelSearchRef = useRef<(() => void) | null>(null);
+
+  const cancelSearch = useCallback(() => {
+    cancelSearchRef.current?.();
+    cancelSearchRef.current = null;
+    setIsSearching(false);
+    setStatus("");
+  }, []);
+
+  const clearResult = useCallback(() => {
+    setResult(null);
+    onResultChange(null);
+  }, [onResultChange]);
+
+  // Results of other files no longer apply
+  useEffect(() => {
+    cancelSearch();
+    clearResult();
+  }, [sources, cancelSearch, clearResult]);
+
+  useEffect(() => () => cancelSearchRef.current?.(), []);
+
+  const runSearch = useCallback(() => {
+    const searchQuery: LogSearchQuery = { query, mode, caseSensitive, include, exclude };
+    try {
+      createLineMatcher(searchQuery);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Invalid search query");
+      return;
+    }
+
+    cancelSearchRef.current?.();
+    setIsSearching(true);
+    setStatus("Searching...");
+    cancelSearchRef.current = searchLogs(
+      sources,
+      searchQuery,
+      timestampFormat,
+      ingestion,
+      setStatus,
+      searchResult => {
+        cancelSearchRef.current = null;
+        setIsSearching(false);
+        setStatus("");
+        setResult(searchResult);
+        onResultChange(searchResult);
+        toast.success(`Found ${searchResult.hitCount.toLocaleString()} matching line${searchResult.hitCount !== 1 ? 's' : ''}`);
+      },
+      message => {
+        cancelSearchRef.current = null;
+        setIsSearching(false);
+        setStatus("");
+        toast.error(`Search failed: ${message}`);
+      }
+    );
+  }, [sources, query, mode, caseSensitive, include, exclude, timestampFormat, ingestion, onResultChange]);
+
+  const addFilter = (kind: 'include' | 'exclude') => {
+    const term = filterDraft;
+    if (term === "") return;
+    const setFilters = kind === 'include' ? setInclude : setExclude;
+    setFilters(current => current.includes(term) ? current : [...current, term]);
+    setFilterDraft("");
+  };
+
+  const formatHitTime = (timestamp?: number) => timestamp === undefined ? "—" : new Date(timestamp).toLocaleString();
+
+  if (sources.length === 0) return null;
+
+  return (
+    <div className="border rounded-md">
+      <div className="px-4 py-2 bg-muted font-medium text-sm border-b flex items-center gap-2">
+        <Search className="h-4 w-4" /> Search Log
+        {result && (
+          <span className="text-xs font-normal text-muted-foreground">
+            {result.hitCount.toLocaleString()} matching line{result.hitCount !== 1 ? 's' : ''}
+          </span>
+        )}
+      </div>
+      <div className="p-3 space-y-2">
+        <div className="flex flex-wrap items-center gap-2">
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') runSearch();
+            }}
+            placeholder={mode === 'regex' ? "timeout|refused" : "connection timeout"}
+            className="h-8 flex-1 min-w-[12rem] font-mono text-xs"
+          />
+          <div className="flex border rounded-md overflow-hidden">
+            <Button
+              variant={mode === 'text' ? "default" : "ghost"}
+              size="sm"
+              className="h-8 rounded-none text-xs"
+              onClick={() => setMode('text')}
+              title="Match the text literally"
+            >
+              Text
+            </Button>
+            <Button
+              variant={mode === 'regex' ? "default" : "ghost"}
+              size="sm"
+              className="h-8 rounded-none text-xs font-mono"
+              onClick={() => setMode('regex')}
+              title="Match a JavaScript regular expression"
+            >
+              .*
+            </Button>
+          </div>
+          <Button
+            variant={caseSensitive ? "default" : "outline"}
+            size="sm"
+            className="h-8 text-xs"
+            onClick={() => setCaseSensitive(current => !current)}
+            title={caseSensitive ? "Case sensitive" : "Case insensitive"}
+          >
+            Aa
+          </Button>
+          {isSearching ? (
+            <Button variant="outline" size="sm" className="h-8" onClick={cancelSearch}>
+              Cancel
+            </Button>
+          ) : (
+            <Button size="sm" className="h-8" onClick={runSearch}>
+              Search
+            </Button>
+          )}
+          {result && !isSearching && (
+            <Button variant="ghost" size="sm" className="h-8 text-xs" onClick={clearResult}>
+              Clear
+            </Button>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Input
+            value={filterDraft}
+            onChange={(e) => setFilterDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') addFilter(e.shiftKey ? 'exclude' : 'include');
+            }}
+            placeholder="Filter lines, Enter to include, Shift+Enter to exclude"
+            className="h-7 w-80 font-mono text-xs"
+          />
+          <Button variant="outline" size="sm" className="h-7 text-xs flex items-center gap-1" onClick={() => addFilter('include')}>
+            <Plus className="h-3 w-3" /> Include
+          </Button>
+          <Button variant="outline" size="sm" className="h-7 text-xs flex items-center gap-1" onClick={() => addFilter('exclude')}>
+            <Minus className="h-3 w-3" /> Exclude
+          </Button>
+          {include.map(term => (
+            <Badge key={`include-${term}`} variant="secondary" className="font-mono text-[10px] gap-1">
+              +{term}
+              <X className="h-3 w-3 cursor-pointer" onClick={() => setInclude(current => current.filter(t => t !== term))} />
+            </Badge>
+          ))}
+          {exclude.map(term => (
+            <Badge key={`exclude-${term}`} variant="outline" className="font-mono text-[10px] gap-1 text-red-600">
+              -{term}
+              <X className="h-3 w-3 cursor-pointer" onClick={() => setExclude(current => current.filter(t => t !== term))} />
+            </Badge>
+          ))}
+        </div>
+
+        {isSearching && <p className="text-xs text-muted-foreground">{status}</p>}
+
+        {result && !isSearching && (
+          result.hits.length === 0 ? (
+            <p className="text-xs text-muted-foreground">No lines match this search</p>
+          ) : (
+            <>
+              <div className="max-h-64 overflow-auto border rounded-md text-xs font-mono">
+                {result.hits.map(hit => (
+                  <button
+                    key={`${hit.source}-${hit.line}`}
+                    type="button"
+                    className="flex w-full gap-3 px-2 py-0.5 text-left hover:bg-muted whitespace-nowrap"
+                    onClick={() => onHitSelect(hit)}
+                    title="Show this line in the raw log"
+                  >
+                    <span className="shrink-0 text-muted-foreground">{formatHitTime(hit.timestamp)}</span>
+                    <span className="shrink-0 text-muted-foreground">
+                      {sources.length > 1 ? `${hit.source}:` : ""}{hit.line}
+                    </span>
+                    <span className="truncate">{hit.text}</span>
+                  </button>
+                ))}
+              </div>
+              {result.hitCount > result.hits.length && (
+                <p className="text-xs text-muted-foreground">
+                  Listing the first {result.hits.length.toLocaleString()} of {result.hitCount.toLocaleString()} matching lines; the strip under each chart shows all of them
+                </p>
+              )}
+            </>
+          )
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LogSearch;
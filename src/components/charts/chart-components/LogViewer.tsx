@@ -0,0 +1,251 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { ChevronDown, ChevronUp, ScrollText } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { RegexPattern } from "@/components/regex/RegexManager";
+import { LogSource } from "@/types/sourceTypes";
+import { LineIndex, buildLineIndex, readLines } from "@/utils/lineIndex";
+import { LineSelection, isLineSelected } from "@/utils/lineSelection";
+import { createMatchHighlighter } from "@/utils/matchHighlights";
+
+interface LogViewerProps {
+  sources: LogSource[];
+  patterns: RegexPattern[]; // Their matches are highlighted in every line
+  selection: LineSelection | null; // Lines of a clicked or brushed chart range
+  onLineHover: (source: string, line: number | null) => void;
+}
+
+const ROW_HEIGHT = 18;
+const VIEWPORT_HEIGHT = 320;
+const VISIBLE_ROWS = Math.ceil(VIEWPORT_HEIGHT / ROW_HEIGHT);
+const BLOCK_LINES = 200; // Lines read from the source at a time
+const MAX_CACHED_BLOCKS = 50;
+// Browsers cap element heights, so very long files scroll proportionally instead
+const MAX_SCROLL_HEIGHT = 10000000;
+
+// Virtualized view of the raw lines of a source; only the lines on screen are read and rendered
+const LogViewer: React.FC<LogViewerProps> = ({ sources, patterns, selection, onLineHover }) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const indexesRef = useRef(new Map<string, LineIndex>());
+  const blocksRef = useRef(new Map<number, string[]>());
+  const loadingRef = useRef(new Set<number>());
+  const [sourceName, setSourceName] = useState<string>(sources[0]?.name ?? "");
+  const [index, setIndex] = useState<LineIndex | null>(null);
+  const [indexProgress, setIndexProgress] = useState<number>(0);
+  const [scrollTop, setScrollTop] = useState<number>(0);
+  const [, setBlocksVersion] = useState<number>(0); // Re-renders when a block of lines arrives
+  const [rangeIndex, setRangeIndex] = useState<number>(0);
+
+  const highlight = useMemo(() => createMatchHighlighter(patterns), [patterns]);
+
+  // A new selection shows its source
+  useEffect(() => {
+    if (selection) {
+      setSourceName(selection.source);
+      setRangeIndex(0);
+    }
+  }, [selection]);
+
+  useEffect(() => {
+    if (!sources.some(source => source.name === sourceName) && sources.length > 0) {
+      setSourceName(sources[0].name);
+    }
+  }, [sources, sourceName]);
+
+  // Counts the lines of the shown source once, reusing the index afterwards
+  useEffect(() => {
+    const source = sources.find(s => s.name === sourceName);
+    blocksRef.current.clear();
+    loadingRef.current.clear();
+    setIndex(null);
+    if (!source) return;
+
+    const cached = indexesRef.current.get(source.name);
+    if (cached && cached.source === source) {
+      setIndex(cached);
+      return;
+    }
+
+    let cancelled = false;
+    setIndexProgress(0);
+    buildLineIndex(source, bytesRead => {
+      if (!cancelled) setIndexProgress(Math.round((bytesRead / Math.max(source.size, 1)) * 100));
+    })
+      .then(built => {
+        if (cancelled) return;
+        indexesRef.current.set(source.name, built);
+        setIndex(built);
+      })
+      .catch(error => {
+        if (cancelled) return;
+        console.error("Failed to index log lines:", error);
+        toast.error(`Could not read the lines of ${source.name}`);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [sources, sourceName]);
+
+  const lineCount = index?.lineCount ?? 0;
+  const scrollHeight = Math.min(lineCount * ROW_HEIGHT, MAX_SCROLL_HEIGHT);
+  const maxScrollTop = Math.max(scrollHeight - VIEWPORT_HEIGHT, 0);
+  const maxFirstLine = Math.max(lineCount - VISIBLE_ROWS + 1, 1);
+  const firstLine = maxScrollTop > 0 ? 1 + Math.round((scrollTop / maxScrollTop) * (maxFirstLine - 1)) : 1;
+
+  const scrollToLine = useCallback((line: number) => {
+    const element = scrollRef.current;
+    if (!element || maxFirstLine <= 1) return;
+    // The line is placed a third of the way down, leaving context above it
+    const first = Math.min(Math.max(line - Math.floor(VISIBLE_ROWS / 3), 1), maxFirstLine);
+    element.scrollTop = ((first - 1) / (maxFirstLine - 1)) * maxScrollTop;
+    setScrollTop(element.scrollTop);
+  }, [maxFirstLine, maxScrollTop]);
+
+  const selectedRanges = selection && selection.source === sourceName ? selection.ranges : [];
+  const selectedRange = selectedRanges[rangeIndex];
+
+  useEffect(() => {
+    if (index && selectedRange) scrollToLine(selectedRange.start);
+  }, [index, selectedRange, scrollToLine]);
+
+  // Reads the blocks of lines on screen that are not cached yet
+  useEffect(() => {
+    if (!index) return;
+    const lastLine = Math.min(firstLine + VISIBLE_ROWS, lineCount);
+    for (let block = Math.floor((firstLine - 1) / BLOCK_LINES); block <= Math.floor((lastLine - 1) / BLOCK_LINES); block++) {
+      if (blocksRef.current.has(block) || loadingRef.current.has(block)) continue;
+      loadingRef.current.add(block);
+      readLines(index, block * BLOCK_LINES + 1, BLOCK_LINES)
+        .then(lines => {
+          if (indexesRef.current.get(index.source.name) !== index || !loadingRef.current.has(block)) return;
+          loadingRef.current.delete(block);
+          // Blocks far from the view are dropped first
+          if (blocksRef.current.size >= MAX_CACHED_BLOCKS) {
+            const farthest = Array.from(blocksRef.current.keys())
+              .sort((a, b) => Math.abs(b - block) - Math.abs(a - block))[0];
+            blocksRef.current.delete(farthest);
+          }
+          blocksRef.current.set(block, lines);
+          setBlocksVersion(version => version + 1);
+        })
+        .catch(error => {
+          loadingRef.current.delete(block);
+          console.error("Failed to read log lines:", error);
+        });
+    }
+  }, [index, firstLine, lineCount]);
+
+  const rows: { line: number; text: string | undefined }[] = [];
+  for (let line = firstLine; line <= Math.min(firstLine + VISIBLE_ROWS, lineCount); line++) {
+    const block = blocksRef.current.get(Math.floor((line - 1) / BLOCK_LINES));
+    rows.push({ line, text: block?.[(line - 1) % BLOCK_LINES] });
+  }
+
+  const renderText = (text: string) => {
+    const spans = highlight(text);
+    if (spans.length === 0) return text;
+    const parts: React.ReactNode[] = [];
+    let position = 0;
+    spans.forEach(span => {
+      if (span.start > position) parts.push(text.slice(position, span.start));
+      parts.push(
+        <mark key={span.start} className="bg-yellow-300/80 text-black rounded-sm" title={span.pattern}>
+          {text.slice(span.start, span.end)}
+        </mark>
+      );
+      position = span.end;
+    });
+    if (position < text.length) parts.push(text.slice(position));
+    return parts;
+  };
+
+  if (sources.length === 0) return null;
+
+  const gutterWidth = `calc(${String(Math.max(lineCount, 1)).length}ch + 1.25rem)`;
+
+  return (
+    <div className="mt-8 border rounded-md">
+      <div className="px-4 py-2 bg-muted font-medium text-sm border-b flex flex-wrap gap-2 justify-between items-center">
+        <span className="flex items-center gap-2">
+          <ScrollText className="h-4 w-4" /> Raw Log
+          {index && <span className="text-xs font-normal text-muted-foreground">{lineCount.toLocaleString()} lines</span>}
+        </span>
+        <div className="flex items-center gap-2">
+          {selectedRanges.length > 0 && (
+            <div className="flex items-center gap-1 text-xs font-normal">
+              <span className="text-muted-foreground">
+                Selection {rangeIndex + 1} of {selectedRanges.length.toLocaleString()}
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0"
+                disabled={rangeIndex === 0}
+                title="Previous selected lines"
+                onClick={() => setRangeIndex(current => current - 1)}
+              >
+                <ChevronUp className="h-3.5 w-3.5" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0"
+                disabled={rangeIndex >= selectedRanges.length - 1}
+                title="Next selected lines"
+                onClick={() => setRangeIndex(current => current + 1)}
+              >
+                <ChevronDown className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+          )}
+          {sources.length > 1 && (
+            <Select value={sourceName} onValueChange={setSourceName}>
+              <SelectTrigger className="h-7 w-48 text-xs">
+                <SelectValue placeholder="Source" />
+              </SelectTrigger>
+              <SelectContent>
+                {sources.map(source => (
+                  <SelectItem key={source.id} value={source.name}>{source.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+      </div>
+      {!index ? (
+        <div className="p-3 text-xs text-muted-foreground" style={{ height: VIEWPORT_HEIGHT }}>
+          Indexing lines... {indexProgress}%
+        </div>
+      ) : (
+        <div
+          ref={scrollRef}
+          className="overflow-auto bg-black text-green-400 text-xs font-mono"
+          style={{ height: VIEWPORT_HEIGHT }}
+          onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+          onMouseLeave={() => onLineHover(sourceName, null)}
+        >
+          <div style={{ height: Math.max(scrollHeight, VIEWPORT_HEIGHT) }}>
+            <div className="sticky top-0 min-w-max" style={{ height: VIEWPORT_HEIGHT }}>
+              {rows.map(({ line, text }) => (
+                <div
+                  key={line}
+                  className={`flex whitespace-pre hover:bg-white/10 ${isLineSelected(selection, sourceName, line) ? "bg-green-900/70" : ""}`}
+                  style={{ height: ROW_HEIGHT, lineHeight: `${ROW_HEIGHT}px` }}
+                  onMouseEnter={() => onLineHover(sourceName, line)}
+                >
+                  <span className="shrink-0 pr-3 pl-2 text-right text-green-700 select-none" style={{ width: gutterWidth }}>
+                    {line}
+                  </span>
+                  <span className="pr-3">{text === undefined ? "..." : renderText(text)}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LogViewer;
@@ -1,10 +1,146 @@
 
-import React from 'react';
+import React, { useState } from 'react';
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { X, Plus } from 'lucide-react';
-import { PanelTabsManagerProps } from '@/types/chartTypes';
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { X, Plus, Sigma, Spline, FunctionSquare, Pencil, GanttChart, ListOrdered } from 'lucide-react';
+import { AggregationFunction, CategoryMapping, FillMode, PanelTabsManagerProps, Signal, SignalAggregation, SignalFill } from '@/types/chartTypes';
+import { AGGREGATION_BUCKETS, AGGREGATION_FUNCTIONS, isAggregated } from '@/utils/aggregation';
+import { DEFAULT_FILL, FILL_GAP_SIZES, FILL_MODES, getCountBucketMs, usesMaxGap } from '@/utils/gapFilling';
+import DerivedSignalDialog from './DerivedSignalDialog';
+import CategoryMappingDialog from './CategoryMappingDialog';
+
+const DEFAULT_AGGREGATION: SignalAggregation = { fn: 'none', bucketMs: 'auto' };
+
+interface AggregationSettingsProps {
+  signal: Signal;
+  onChange: (aggregation: SignalAggregation) => void;
+}
+
+// Per-signal bucket size and aggregation function
+const AggregationSettings: React.FC<AggregationSettingsProps> = ({ signal, onChange }) => {
+  const aggregation = signal.aggregation || DEFAULT_AGGREGATION;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={`h-6 w-6 p-0 ${isAggregated(signal) ? 'text-primary' : 'text-muted-foreground'}`}
+          title="Aggregation"
+          disabled={signal.display === 'timeline'}
+          onClick={(e) => e.stopPropagation()}
+        >
+          <Sigma className="h-3 w-3" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 space-y-3" onClick={(e) => e.stopPropagation()}>
+        <div className="space-y-1.5">
+          <Label className="text-xs">Aggregation</Label>
+          <Select
+            value={aggregation.fn}
+            onValueChange={(fn) => onChange({ ...aggregation, fn: fn as AggregationFunction })}
+          >
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {AGGREGATION_FUNCTIONS.map(fn => (
+                <SelectItem key={fn.value} value={fn.value} className="text-xs">{fn.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs">Bucket size</Label>
+          <Select
+            value={String(aggregation.bucketMs)}
+            onValueChange={(value) => onChange({ ...aggregation, bucketMs: value === 'auto' ? 'auto' : Number(value) })}
+            disabled={aggregation.fn === 'none'}
+          >
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="auto" className="text-xs">Auto (follows zoom)</SelectItem>
+              {AGGREGATION_BUCKETS.map(bucket => (
+                <SelectItem key={bucket.value} value={String(bucket.value)} className="text-xs">{bucket.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+interface FillSettingsProps {
+  signal: Signal;
+  onChange: (fill: SignalFill) => void;
+}
+
+// Per-signal handling of the time between logged values
+const FillSettings: React.FC<FillSettingsProps> = ({ signal, onChange }) => {
+  const fill = signal.fill || DEFAULT_FILL;
+  const countBucketMs = getCountBucketMs(signal);
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={`h-6 w-6 p-0 ${signal.fill ? 'text-primary' : 'text-muted-foreground'}`}
+          title={countBucketMs ? "Counts are filled per bucket" : "Gap filling"}
+          disabled={isAggregated(signal) || !!countBucketMs}
+          onClick={(e) => e.stopPropagation()}
+        >
+          <Spline className="h-3 w-3" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 space-y-3" onClick={(e) => e.stopPropagation()}>
+        <div className="space-y-1.5">
+          <Label className="text-xs">Missing values</Label>
+          <Select
+            value={fill.mode}
+            onValueChange={(mode) => onChange({ ...fill, mode: mode as FillMode })}
+          >
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {FILL_MODES.map(mode => (
+                <SelectItem key={mode.value} value={mode.value} className="text-xs">{mode.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs">{fill.mode === 'carry-max-age' ? 'Max age' : 'Max gap'}</Label>
+          <Select
+            value={String(fill.maxGapMs)}
+            onValueChange={(value) => onChange({ ...fill, maxGapMs: value === 'auto' ? 'auto' : Number(value) })}
+            disabled={!usesMaxGap(fill.mode)}
+          >
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="auto" className="text-xs">Auto (5× usual interval)</SelectItem>
+              {FILL_GAP_SIZES.map(size => (
+                <SelectItem key={size.value} value={String(size.value)} className="text-xs">{size.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
 
 const PanelTabsManager: React.FC<PanelTabsManagerProps> = ({
   panels,
@@ -16,8 +152,35 @@ const PanelTabsManager: React.FC<PanelTabsManagerProps> = ({
   onAddSignal,
   onRemoveSignal,
   onToggleSignalVisibility,
+  onSignalAggregationChange,
+  onSignalFillChange,
+  onSignalDisplayChange,
+  onSaveDerivedSignal,
+  onRemoveDerivedSignal,
+  categoryMappings,
+  onSaveCategoryMapping,
   renderChartDisplay
 }) => {
+  const [derivedDialogOpen, setDerivedDialogOpen] = useState(false);
+  const [editingDerived, setEditingDerived] = useState<Signal | null>(null);
+
+  const openDerivedDialog = (signal: Signal | null) => {
+    setEditingDerived(signal);
+    setDerivedDialogOpen(true);
+  };
+
+  const [editingMapping, setEditingMapping] = useState<CategoryMapping | null>(null);
+
+  const handleSaveMapping = (mapping: CategoryMapping) => {
+    onSaveCategoryMapping(mapping);
+    setEditingMapping(null);
+  };
+
+  const handleSaveDerived = (name: string, expression: string, signalId?: string) => {
+    onSaveDerivedSignal(name, expression, signalId);
+    setDerivedDialogOpen(false);
+  };
+
   return (
     <Tabs value={activeTab} onValueChange={onActiveTabChange} className="mt-4">
       <div className="flex items-center justify-between mb-2">
@@ -39,13 +202,22 @@ const PanelTabsManager: React.FC<PanelTabsManagerProps> = ({
             </TabsTrigger>
           ))}
         </TabsList>
-        <Button 
-          variant="ghost" 
-          size="sm"
-          onClick={onAddPanel}
-        >
-          <Plus className="h-4 w-4 mr-1" /> Add Panel
-        </Button>
+        <div className="flex gap-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => openDerivedDialog(null)}
+          >
+            <FunctionSquare className="h-4 w-4 mr-1" /> Derived Signal
+          </Button>
+          <Button 
+            variant="ghost" 
+            size="sm"
+            onClick={onAddPanel}
+          >
+            <Plus className="h-4 w-4 mr-1" /> Add Panel
+          </Button>
+        </div>
       </div>
       
       {panels.map(panel => (
@@ -80,19 +252,86 @@ const PanelTabsManager: React.FC<PanelTabsManagerProps> = ({
                               style={{ backgroundColor: signal.color }}
                             />
                             <span>{signal.name}</span>
+                            {signal.expression && (
+                              <span className="text-[10px] font-mono text-muted-foreground" title={signal.expression}>fx</span>
+                            )}
                           </div>
                           {isInPanel && (
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              className="h-6 w-6 p-0"
-                              onClick={(e) => {
-                                e.stopPropagation();
-                                onToggleSignalVisibility(signal.id);
-                              }}
-                            >
-                              <div className={`w-2 h-2 rounded-full ${signal.visible ? 'bg-green-500' : 'bg-red-500'}`} />
-                            </Button>
+                            <div className="flex items-center">
+                              {signal.expression && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  className="h-6 w-6 p-0 text-muted-foreground"
+                                  title="Edit expression"
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    openDerivedDialog(signal);
+                                  }}
+                                >
+                                  <Pencil className="h-3 w-3" />
+                                </Button>
+                              )}
+                              <AggregationSettings
+                                signal={signal}
+                                onChange={(aggregation) => onSignalAggregationChange(signal.id, aggregation)}
+                              />
+                              <FillSettings
+                                signal={signal}
+                                onChange={(fill) => onSignalFillChange(signal.id, fill)}
+                              />
+                              {categoryMappings[signal.pattern.name] && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  className="h-6 w-6 p-0 text-muted-foreground"
+                                  title="Value order and colors"
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    setEditingMapping(categoryMappings[signal.pattern.name]);
+                                  }}
+                                >
+                                  <ListOrdered className="h-3 w-3" />
+                                </Button>
+                              )}
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className={`h-6 w-6 p-0 ${signal.display === 'timeline' ? 'text-primary' : 'text-muted-foreground'}`}
+                                title={signal.display === 'timeline' ? "Show on the chart" : "Show as state timeline"}
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  onSignalDisplayChange(signal.id, signal.display === 'timeline' ? 'chart' : 'timeline');
+                                }}
+                              >
+                                <GanttChart className="h-3 w-3" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="h-6 w-6 p-0"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  onToggleSignalVisibility(signal.id);
+                                }}
+                              >
+                                <div className={`w-2 h-2 rounded-full ${signal.visible ? 'bg-green-500' : 'bg-red-500'}`} />
+                              </Button>
+                              {signal.expression && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  className="h-6 w-6 p-0 text-muted-foreground"
+                                  title="Delete derived signal"
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    onRemoveDerivedSignal(signal.id);
+                                  }}
+                                >
+                                  <X className="h-3 w-3" />
+                                </Button>
+                              )}
+                            </div>
                           )}
                         </div>
                       );
@@ -108,6 +347,21 @@ const PanelTabsManager: React.FC<PanelTabsManagerProps> = ({
           </div>
         </TabsContent>
       ))}
+
+      <DerivedSignalDialog
+        open={derivedDialogOpen}
+        onOpenChange={setDerivedDialogOpen}
+        signal={editingDerived}
+        signals={signals}
+        onSave={handleSaveDerived}
+      />
+
+      <CategoryMappingDialog
+        open={editingMapping !== null}
+        onOpenChange={(open) => !open && setEditingMapping(null)}
+        mapping={editingMapping}
+        onSave={handleSaveMapping}
+      />
     </Tabs>
   );
 };
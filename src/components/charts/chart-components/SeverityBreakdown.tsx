@@ -0,0 +1,134 @@
+import React, { useMemo } from 'react';
+import {
+  BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip as RechartsTooltip, Legend, ResponsiveContainer
+} from 'recharts';
+import { format } from 'date-fns';
+import { AlertTriangle } from 'lucide-react';
+import { SEVERITY_LEVELS, SeverityData, SeverityEvent } from '@/types/severityTypes';
+import {
+  SEVERITY_COLORS, SEVERITY_LABELS, bucketSeverities, findErrorBursts, getSeverityCount, getSeverityRange
+} from '@/utils/severity';
+import { formatBucketMs, getAutoBucketMs } from '@/utils/aggregation';
+import { formatUnitValue } from '@/utils/units';
+
+interface SeverityBreakdownProps {
+  severity: SeverityData;
+  onEventSelect: (event: SeverityEvent) => void; // Shows the line of an event in the raw log
+  onRangeSelect: (start: number, end: number) => void; // Zooms the charts to a time range
+}
+
+const MAX_LISTED_BURSTS = 5;
+
+const formatDuration = (ms: number): string => formatUnitValue(ms, 'duration');
+
+// Events per log level over time, with counts, the first and last error, and bursts of errors
+const SeverityBreakdown: React.FC<SeverityBreakdownProps> = ({ severity, onEventSelect, onRangeSelect }) => {
+  const total = getSeverityCount(severity);
+  const range = useMemo(() => getSeverityRange(severity), [severity]);
+  const bucketMs = range ? getAutoBucketMs(range.end - range.start) : 1000;
+  const buckets = useMemo(() => bucketSeverities(severity, bucketMs), [severity, bucketMs]);
+  const bursts = useMemo(() => findErrorBursts(severity), [severity]);
+  const presentLevels = SEVERITY_LEVELS.filter(level => severity.times[level].length > 0);
+
+  if (total === 0) return null;
+
+  const formatTick = (timestamp: number) => format(timestamp, bucketMs >= 86400000 ? 'MMM dd' : 'HH:mm');
+
+  const renderEvent = (label: string, event?: SeverityEvent) => (
+    <div className="flex items-center gap-2">
+      <span className="text-muted-foreground w-20">{label}</span>
+      {event ? (
+        <button
+          type="button"
+          className="text-left hover:underline"
+          onClick={() => onEventSelect(event)}
+          title="Show this line in the raw log"
+        >
+          {new Date(event.timestamp).toLocaleString()}
+          <span className="ml-2 text-muted-foreground font-mono">{event.source}:{event.line}</span>
+        </button>
+      ) : (
+        <span className="text-muted-foreground">None</span>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="border rounded-md">
+      <div className="px-4 py-2 bg-muted font-medium text-sm border-b flex items-center gap-2">
+        <AlertTriangle className="h-4 w-4" /> Log Levels
+        <span className="text-xs font-normal text-muted-foreground">
+          {total.toLocaleString()} events in {formatBucketMs(bucketMs)} buckets
+          {severity.unleveled > 0 && `, ${severity.unleveled.toLocaleString()} without a level`}
+        </span>
+      </div>
+      <div className="p-3 space-y-3">
+        <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs">
+          {presentLevels.map(level => (
+            <div key={level} className="flex items-center gap-1.5">
+              <div className="w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: SEVERITY_COLORS[level] }} />
+              <span className="font-medium">{SEVERITY_LABELS[level]}</span>
+              <span className="text-muted-foreground">
+                {severity.times[level].length.toLocaleString()} ({((severity.times[level].length / total) * 100).toFixed(1)}%)
+              </span>
+            </div>
+          ))}
+        </div>
+
+        <div className="h-[200px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={buckets} margin={{ top: 5, right: 20, left: 10, bottom: 5 }} barCategoryGap={0}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="timestamp" tickFormatter={formatTick} minTickGap={40} />
+              <YAxis allowDecimals={false} />
+              <RechartsTooltip labelFormatter={(label) => new Date(Number(label)).toLocaleString()} />
+              <Legend />
+              {presentLevels.map(level => (
+                <Bar
+                  key={level}
+                  dataKey={level}
+                  name={SEVERITY_LABELS[level]}
+                  stackId="severity"
+                  fill={SEVERITY_COLORS[level]}
+                  isAnimationActive={false}
+                />
+              ))}
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div className="grid gap-3 md:grid-cols-2 text-xs">
+          <div className="space-y-1">
+            {renderEvent("First error", severity.firstError)}
+            {renderEvent("Last error", severity.lastError)}
+          </div>
+          <div className="space-y-1">
+            <div className="font-medium" title="Runs of at least 5 errors, each within a minute of the last">Error bursts</div>
+            {bursts.length === 0 ? (
+              <p className="text-muted-foreground">No bursts of errors</p>
+            ) : (
+              bursts.slice(0, MAX_LISTED_BURSTS).map(burst => (
+                <button
+                  key={burst.start}
+                  type="button"
+                  className="block text-left hover:underline"
+                  onClick={() => onRangeSelect(burst.start, burst.end)}
+                  title="Zoom the charts to this burst"
+                >
+                  <span className="font-medium text-red-600">{burst.count.toLocaleString()} errors</span>
+                  <span className="ml-2">{new Date(burst.start).toLocaleString()}</span>
+                  <span className="ml-2 text-muted-foreground">over {formatDuration(burst.end - burst.start)}</span>
+                </button>
+              ))
+            )}
+            {bursts.length > MAX_LISTED_BURSTS && (
+              <p className="text-muted-foreground">and {bursts.length - MAX_LISTED_BURSTS} smaller bursts</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SeverityBreakdown;
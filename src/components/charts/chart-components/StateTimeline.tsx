@@ -0,0 +1,84 @@
+import React, { useMemo } from 'react';
+import { CategoryMapping, Signal } from '@/types/chartTypes';
+import { getStateColors, getStateSegments, getStateStats } from '@/utils/stateTimeline';
+import { getCategoryLabel } from '@/utils/categories';
+import { formatUnitValue } from '@/utils/units';
+
+interface StateTimelineProps {
+  data: Record<string, number | string>[]; // Full-resolution points, so downsampling cannot drop short states
+  signals: Signal[];
+  range: { start: number; end: number };
+  categoryMappings?: Record<string, CategoryMapping>; // Saved labels and colors of string states
+}
+
+const formatDuration = (ms: number): string => formatUnitValue(ms, 'duration');
+
+// Shared default, so lanes are not recomputed on every render without mappings
+const NO_MAPPINGS: Record<string, CategoryMapping> = {};
+
+// One swimlane per signal; each state is a colored band, with a legend of time spent per state
+const StateTimeline: React.FC<StateTimelineProps> = ({ data, signals, range, categoryMappings = NO_MAPPINGS }) => {
+  const lanes = useMemo(() => signals.map(signal => {
+    const segments = getStateSegments(data, signal, range);
+    const mapping = categoryMappings[signal.pattern.name];
+    return {
+      signal,
+      segments,
+      mapping,
+      colors: getStateColors(segments, mapping),
+      stats: getStateStats(segments)
+    };
+  }), [data, signals, range, categoryMappings]);
+
+  const spanMs = range.end - range.start;
+  const toPercent = (timestamp: number) => spanMs > 0 ? ((timestamp - range.start) / spanMs) * 100 : 0;
+
+  return (
+    <div className="space-y-4">
+      {lanes.map(({ signal, segments, mapping, colors, stats }) => (
+        <div key={signal.id} className="space-y-1.5">
+          <div className="text-xs font-medium">{signal.name}</div>
+          <div className="relative h-6 rounded-sm bg-muted overflow-hidden">
+            {segments.map(segment => (
+              <div
+                key={`${segment.state}-${segment.start}`}
+                className="absolute top-0 h-full"
+                style={{
+                  left: `${toPercent(segment.start)}%`,
+                  width: `${Math.max(toPercent(segment.end) - toPercent(segment.start), 0.1)}%`,
+                  backgroundColor: colors[segment.state]
+                }}
+                title={`${getCategoryLabel(mapping, segment.state)}: ${new Date(segment.start).toLocaleString()} - ${new Date(segment.end).toLocaleString()} (${formatDuration(segment.end - segment.start)})`}
+              />
+            ))}
+          </div>
+          <div className="flex justify-between text-[10px] text-muted-foreground">
+            <span>{new Date(range.start).toLocaleString()}</span>
+            <span>{new Date(range.end).toLocaleString()}</span>
+          </div>
+          {stats.length === 0 ? (
+            <p className="text-xs text-muted-foreground">No values in this range</p>
+          ) : (
+            <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs">
+              {stats.map(stat => (
+                <div
+                  key={stat.state}
+                  className="flex items-center gap-1.5"
+                  title={`Entered ${stat.count} time${stat.count !== 1 ? 's' : ''}, ${formatDuration(stat.totalMs / stat.count)} on average`}
+                >
+                  <div className="w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: colors[stat.state] }} />
+                  <span className="font-medium">{getCategoryLabel(mapping, stat.state)}</span>
+                  <span className="text-muted-foreground">
+                    {formatDuration(stat.totalMs)} ({(stat.share * 100).toFixed(1)}%) · {stat.count}×
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default StateTimeline;
@@ -4,7 +4,8 @@ import { format } from 'date-fns';
 import { Button } from "@/components/ui/button";
 import { RefreshCcw } from 'lucide-react';
 import ChartDisplay from './ChartDisplay';
-import { Signal } from '@/types/chartTypes';
+import { CategoryMapping, Signal } from '@/types/chartTypes';
+import { fillChartData } from '@/utils/gapFilling';
 import { toast } from 'sonner';
 
 interface TimeSegmentedChartsProps {
@@ -15,6 +16,11 @@ interface TimeSegmentedChartsProps {
   onBrushChange: (brushData: any) => void;
   onZoomReset: () => void;
   zoomDomain: { start?: number, end?: number };
+  categoryMappings?: Record<string, CategoryMapping>;
+  onPointClick?: (timestamp: number) => void;
+  cursorTimestamp?: number;
+  searchHitTimes?: Float64Array;
+  maxPoints?: number; // Points drawn per segment; more are downsampled
 }
 
 const TimeSegmentedCharts: React.FC<TimeSegmentedChartsProps> = ({
@@ -24,16 +30,24 @@ const TimeSegmentedCharts: React.FC<TimeSegmentedChartsProps> = ({
   segmentDurationMinutes = 30,
   onBrushChange,
   onZoomReset,
-  zoomDomain
+  zoomDomain,
+  categoryMappings,
+  onPointClick,
+  cursorTimestamp,
+  searchHitTimes,
+  maxPoints
 }) => {
+  // Signals are filled over all data first, so values carry across segment boundaries
+  const filledChartData = useMemo(() => fillChartData(formattedChartData, signals) as typeof formattedChartData, [formattedChartData, signals]);
+  
   // Create time segments based on data
   const timeSegments = useMemo(() => {
-    if (!formattedChartData.length) return [];
+    if (!filledChartData.length) return [];
     
-    console.log(`Creating time segments from ${formattedChartData.length} data points`);
+    console.log(`Creating time segments from ${filledChartData.length} data points`);
     
     const segmentMs = segmentDurationMinutes * 60 * 1000;
-    const sortedData = [...formattedChartData].sort((a, b) => a.timestamp - b.timestamp);
+    const sortedData = [...filledChartData].sort((a, b) => a.timestamp - b.timestamp);
     
     const firstTimestamp = sortedData[0].timestamp;
     const lastTimestamp = sortedData[sortedData.length - 1].timestamp;
@@ -79,7 +93,7 @@ const TimeSegmentedCharts: React.FC<TimeSegmentedChartsProps> = ({
     });
     
     return populatedSegments;
-  }, [formattedChartData, segmentDurationMinutes]);
+  }, [filledChartData, segmentDurationMinutes]);
   
   if (!timeSegments.length) {
     // Display a more helpful message if no segments were created
@@ -138,7 +152,13 @@ const TimeSegmentedCharts: React.FC<TimeSegmentedChartsProps> = ({
               zoomDomain={zoomDomain}
               signals={signals}
               onBrushChange={handleSegmentBrushChange}
+              categoryMappings={categoryMappings}
               timeSegment={segment}
+              isFilled
+              maxPoints={maxPoints}
+              onPointClick={onPointClick}
+              cursorTimestamp={cursorTimestamp}
+              searchHitTimes={searchHitTimes}
             />
           </div>
           <div className="mt-1 text-xs text-muted-foreground">
@@ -0,0 +1,152 @@
+import React, { useEffect, useState } from "react";
+import { KeyRound, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Dialog, DialogContent, DialogDescription,
+  DialogFooter, DialogHeader, DialogTitle
+} from "@/components/ui/dialog";
+import { LogSource } from "@/types/sourceTypes";
+import { LogfmtKeyInfo } from "@/utils/logfmt";
+import { discoverLogfmtKeys } from "@/utils/logProcessing";
+
+interface LogfmtKeyDiscoveryProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  sources: LogSource[];
+  onAddKeys: (keys: LogfmtKeyInfo[]) => void;
+}
+
+const formatType = (key: LogfmtKeyInfo): string => {
+  if (key.type === 'unit') return `number (${key.unit})`;
+  return key.type;
+};
+
+const LogfmtKeyDiscovery: React.FC<LogfmtKeyDiscoveryProps> = ({ open, onOpenChange, sources, onAddKeys }) => {
+  const [keys, setKeys] = useState<LogfmtKeyInfo[] | null>(null);
+  const [lineCount, setLineCount] = useState(0);
+  const [status, setStatus] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [selectedKeys, setSelectedKeys] = useState<string[]>([]);
+
+  // Scan the full files every time the dialog opens, so new uploads are picked up
+  useEffect(() => {
+    if (!open) return;
+
+    setKeys(null);
+    setError(null);
+    setSelectedKeys([]);
+    setStatus("Starting scan");
+
+    return discoverLogfmtKeys(
+      sources,
+      setStatus,
+      (discoveredKeys, scannedLines) => {
+        setKeys(discoveredKeys);
+        setLineCount(scannedLines);
+      },
+      setError
+    );
+  }, [open, sources]);
+
+  const toggleKey = (key: string) => {
+    setSelectedKeys(current => current.includes(key)
+      ? current.filter(selected => selected !== key)
+      : [...current, key]);
+  };
+
+  const handleAdd = () => {
+    onAddKeys((keys || []).filter(key => selectedKeys.includes(key.key)));
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[760px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <KeyRound className="h-5 w-5" /> logfmt keys
+          </DialogTitle>
+          <DialogDescription>
+            {keys
+              ? `${keys.length} keys found in ${lineCount.toLocaleString()} lines. Tick keys to add them as signals.`
+              : "Scanning every line of the uploaded files for key=value pairs."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {error ? (
+          <div className="text-sm text-destructive py-6 text-center">{error}</div>
+        ) : !keys ? (
+          <div className="flex items-center justify-center gap-2 py-10 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" /> {status}
+          </div>
+        ) : keys.length === 0 ? (
+          <div className="text-sm text-muted-foreground py-6 text-center">
+            No key=value pairs found. The files may not be in logfmt format.
+          </div>
+        ) : (
+          <ScrollArea className="h-[360px] rounded border">
+            <table className="w-full text-sm">
+              <thead className="bg-muted text-xs text-muted-foreground sticky top-0">
+                <tr>
+                  <th className="w-8 p-2" />
+                  <th className="p-2 text-left font-medium">Key</th>
+                  <th className="p-2 text-left font-medium">Type</th>
+                  <th className="p-2 text-right font-medium">Lines</th>
+                  <th className="p-2 text-right font-medium">Distinct values</th>
+                  <th className="p-2 text-left font-medium">Examples</th>
+                </tr>
+              </thead>
+              <tbody>
+                {keys.map(key => (
+                  <tr
+                    key={key.key}
+                    className="border-t cursor-pointer hover:bg-muted/50"
+                    onClick={() => toggleKey(key.key)}
+                  >
+                    <td className="p-2">
+                      <Checkbox
+                        checked={selectedKeys.includes(key.key)}
+                        onCheckedChange={() => toggleKey(key.key)}
+                        onClick={(e) => e.stopPropagation()}
+                      />
+                    </td>
+                    <td className="p-2 font-mono text-xs">{key.key}</td>
+                    <td className="p-2">
+                      <Badge variant={key.type === 'string' ? "secondary" : "outline"} className="text-[10px]">
+                        {formatType(key)}
+                      </Badge>
+                    </td>
+                    <td className="p-2 text-right tabular-nums">{key.count.toLocaleString()}</td>
+                    <td className="p-2 text-right tabular-nums">
+                      {key.distinctValues.toLocaleString()}{key.distinctCapped && "+"}
+                    </td>
+                    <td className="p-2 font-mono text-xs text-muted-foreground truncate max-w-[180px]">
+                      {key.examples.join(", ")}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </ScrollArea>
+        )}
+
+        <DialogFooter className="items-center">
+          <span className="text-sm text-muted-foreground mr-auto">
+            {selectedKeys.length} selected
+          </span>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleAdd} disabled={selectedKeys.length === 0}>
+            Add as signals
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default LogfmtKeyDiscovery;
@@ -1,5 +1,5 @@
 
-import React, { useState } from "react";
+import React, { useMemo, useState } from "react";
 import { Save, Info } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -13,11 +13,28 @@ import {
   TooltipTrigger 
 } from "@/components/ui/tooltip";
 import { DialogFooter } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { PatternExtractor, PatternKind, PatternUnit } from "./RegexManager";
+import { SYSLOG_FIELDS } from "@/utils/syslog";
+import { getGroupSignalName, getNamedGroups } from "@/utils/regexGroups";
+import { BUCKET_SIZES, DEFAULT_BUCKET_SECONDS } from "@/utils/eventCounts";
+import { PATTERN_UNITS } from "@/utils/units";
 
 interface PatternFormProps {
-  onSave: (name: string, pattern: string, description: string, id?: string) => void;
+  onSave: (
+    name: string,
+    pattern: string,
+    description: string,
+    extractor: PatternExtractor,
+    kind: PatternKind,
+    bucketSeconds: number | undefined,
+    unit: PatternUnit | undefined,
+    unitLabel: string | undefined,
+    id?: string
+  ) => void;
   pattern?: RegexPattern | null;
   onCancel: () => void;
+  fieldPaths?: string[]; // JSON field paths found in the log sample, offered as suggestions
 }
 
 interface RegexPattern {
@@ -25,12 +42,32 @@ interface RegexPattern {
   name: string;
   pattern: string;
   description?: string;
+  extractor?: PatternExtractor;
+  kind?: PatternKind;
+  bucketSeconds?: number;
+  unit?: PatternUnit;
+  unitLabel?: string;
 }
 
-const PatternForm: React.FC<PatternFormProps> = ({ onSave, pattern, onCancel }) => {
+const PatternForm: React.FC<PatternFormProps> = ({ onSave, pattern, onCancel, fieldPaths = [] }) => {
   const [name, setName] = useState(pattern?.name || "");
+  // Saved patterns without an extractor predate JSON fields and are regexes;
+  // only new patterns default to JSON when the sample has fields
+  const [extractor, setExtractor] = useState<PatternExtractor>(
+    pattern ? pattern.extractor || 'regex' : (fieldPaths.length > 0 ? 'json' : 'regex')
+  );
   const [regexPattern, setRegexPattern] = useState(pattern?.pattern || "");
   const [description, setDescription] = useState(pattern?.description || "");
+  const [kind, setKind] = useState<PatternKind>(pattern?.kind || 'value');
+  const [bucketSeconds, setBucketSeconds] = useState(pattern?.bucketSeconds || DEFAULT_BUCKET_SECONDS);
+  const [unit, setUnit] = useState<PatternUnit | 'none'>(pattern?.unit || 'none');
+  const [unitLabel, setUnitLabel] = useState(pattern?.unitLabel || "");
+
+  // Each named group becomes its own signal
+  const namedGroups = useMemo(
+    () => extractor === 'regex' && kind === 'value' ? getNamedGroups(regexPattern) : [],
+    [extractor, kind, regexPattern]
+  );
 
   return (
     <div className="space-y-4 py-4">
@@ -44,44 +81,202 @@ const PatternForm: React.FC<PatternFormProps> = ({ onSave, pattern, onCancel })
         />
       </div>
       <div className="space-y-2">
-        <div className="flex items-center gap-1">
-          <Label htmlFor="pattern">Regular Expression</Label>
-          <Badge variant="outline" className="ml-2 font-mono text-xs">
-            (Use capturing groups)
-          </Badge>
-          <TooltipProvider>
-            <Tooltip>
-              <TooltipTrigger asChild>
-                <Button variant="ghost" size="icon" className="h-5 w-5 rounded-full">
-                  <Info className="h-3 w-3" />
-                </Button>
-              </TooltipTrigger>
-              <TooltipContent className="max-w-sm">
-                <p className="text-xs">
-                  Use standard capturing groups with parentheses, e.g., <code>(\\d+)</code>. 
-                  Python-style named groups like <code>(?P&lt;name&gt;...)</code> will be 
-                  automatically converted to standard groups.
-                </p>
-              </TooltipContent>
-            </Tooltip>
-          </TooltipProvider>
+        <Label>Extract value with</Label>
+        <Select value={extractor} onValueChange={(value) => setExtractor(value as PatternExtractor)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="regex">Regular expression</SelectItem>
+            <SelectItem value="json">JSON field path</SelectItem>
+            <SelectItem value="logfmt">logfmt key</SelectItem>
+            <SelectItem value="syslog">Syslog header field</SelectItem>
+            <SelectItem value="source">File name (regular expression)</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      {extractor === 'logfmt' && (
+        <div className="space-y-2">
+          <Label htmlFor="pattern">Key</Label>
+          <Input
+            id="pattern"
+            value={regexPattern}
+            onChange={(e) => setRegexPattern(e.target.value)}
+            placeholder="duration"
+            className="font-mono"
+          />
+          <p className="text-xs text-muted-foreground">
+            Value of <code>key=value</code> pairs. Numbers with a unit suffix such as <code>12ms</code> keep their numeric part.
+          </p>
         </div>
-        <Input
-          id="pattern"
-          value={regexPattern}
-          onChange={(e) => setRegexPattern(e.target.value)}
-          placeholder="CPU: (\d+)%"
-          className="font-mono"
-        />
-        <p className="text-xs text-muted-foreground">
-          Use parentheses to define capturing groups. The first group will be used as the value.
-          {regexPattern.includes("?P<") && (
-            <span className="text-yellow-600 mt-1 block">
-              Note: Named capturing groups will be converted to standard groups.
-            </span>
+      )}
+      {extractor === 'syslog' && (
+        <div className="space-y-2">
+          <Label>Field</Label>
+          <Select value={regexPattern} onValueChange={setRegexPattern}>
+            <SelectTrigger className="font-mono">
+              <SelectValue placeholder="severity" />
+            </SelectTrigger>
+            <SelectContent>
+              {SYSLOG_FIELDS.map(field => (
+                <SelectItem key={field} value={field} className="font-mono">{field}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            Read from the RFC 3164 or RFC 5424 header. Severity and facility need the <code>&lt;PRI&gt;</code> prefix.
+          </p>
+        </div>
+      )}
+      {extractor === 'source' && (
+        <div className="space-y-2">
+          <Label htmlFor="pattern">File Name Expression</Label>
+          <Input
+            id="pattern"
+            value={regexPattern}
+            onChange={(e) => setRegexPattern(e.target.value)}
+            placeholder="containers/([^_]+)_"
+            className="font-mono"
+          />
+          <p className="text-xs text-muted-foreground">
+            Applied to the name of the file each line comes from. The first group that matched is used as the value.
+          </p>
+        </div>
+      )}
+      {extractor === 'json' && (
+        <div className="space-y-2">
+          <Label htmlFor="pattern">Field Path</Label>
+          <Input
+            id="pattern"
+            value={regexPattern}
+            onChange={(e) => setRegexPattern(e.target.value)}
+            placeholder="metrics.latency_ms"
+            className="font-mono"
+            list="json-field-paths"
+          />
+          <datalist id="json-field-paths">
+            {fieldPaths.map(path => <option key={path} value={path} />)}
+          </datalist>
+          <p className="text-xs text-muted-foreground">
+            Dot-separated path into each JSON line, e.g. <code>http.response.status</code>. Use <code>[0]</code> for array items.
+          </p>
+        </div>
+      )}
+      {extractor === 'regex' && (
+        <div className="space-y-2">
+          <div className="flex items-center gap-1">
+            <Label htmlFor="pattern">Regular Expression</Label>
+            <Badge variant="outline" className="ml-2 font-mono text-xs">
+              (Use capturing groups)
+            </Badge>
+            <TooltipProvider>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button variant="ghost" size="icon" className="h-5 w-5 rounded-full">
+                    <Info className="h-3 w-3" />
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent className="max-w-sm">
+                  <p className="text-xs">
+                    Use standard capturing groups with parentheses, e.g., <code>(\\d+)</code>. 
+                    Named groups like <code>(?&lt;young&gt;\d+)</code> or Python-style 
+                    <code>(?P&lt;young&gt;\d+)</code> each produce their own signal.
+                  </p>
+                </TooltipContent>
+              </Tooltip>
+            </TooltipProvider>
+          </div>
+          <Input
+            id="pattern"
+            value={regexPattern}
+            onChange={(e) => setRegexPattern(e.target.value)}
+            placeholder="CPU: (\d+)%"
+            className="font-mono"
+          />
+          <p className="text-xs text-muted-foreground">
+            Use parentheses to define capturing groups. The first group will be used as the value,
+            unless the expression has named groups.
+            Multi-line events are matched as a whole; use <code>\n</code> or <code>[\s\S]</code> to reach continuation lines.
+          </p>
+          {namedGroups.length > 0 && (
+            <div className="flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+              <span>Produces {namedGroups.length} signal{namedGroups.length !== 1 && 's'}:</span>
+              {namedGroups.map(group => (
+                <Badge key={group} variant="secondary" className="font-mono text-[10px]">
+                  {getGroupSignalName(name || "pattern", group)}
+                </Badge>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+      <div className="space-y-2">
+        <Label>Chart</Label>
+        <div className="flex gap-2">
+          <Select value={kind} onValueChange={(value) => setKind(value as PatternKind)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="value">Extracted value</SelectItem>
+              <SelectItem value="count">Number of matches</SelectItem>
+              <SelectItem value="rate">Matches per second</SelectItem>
+            </SelectContent>
+          </Select>
+          {kind !== 'value' && (
+            <Select value={String(bucketSeconds)} onValueChange={(value) => setBucketSeconds(Number(value))}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {BUCKET_SIZES.map(size => (
+                  <SelectItem key={size.seconds} value={String(size.seconds)}>per {size.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           )}
-        </p>
+        </div>
+        {kind !== 'value' && (
+          <p className="text-xs text-muted-foreground">
+            {kind === 'count'
+              ? "Counts the lines the pattern matches in each time bucket. No capturing group is needed."
+              : "Counts the lines the pattern matches in each time bucket, divided by the bucket length in seconds."}
+          </p>
+        )}
       </div>
+      {kind === 'value' && (
+        <div className="space-y-2">
+          <Label>Unit</Label>
+          <div className="flex gap-2">
+            <Select value={unit} onValueChange={(value) => setUnit(value as PatternUnit | 'none')}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Plain number</SelectItem>
+                {PATTERN_UNITS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {unit === 'custom' && (
+              <Input
+                className="w-40"
+                value={unitLabel}
+                onChange={(e) => setUnitLabel(e.target.value)}
+                placeholder="req"
+              />
+            )}
+          </div>
+          {unit !== 'none' && (
+            <p className="text-xs text-muted-foreground">
+              Suffixes like KB, GB, ms, s or % and thousands separators are understood. Values are
+              charted in {PATTERN_UNITS.find(option => option.value === unit)?.base}; values without a
+              suffix are read as that unit.
+            </p>
+          )}
+        </div>
+      )}
       <div className="space-y-2">
         <Label htmlFor="description">Description (optional)</Label>
         <Textarea
@@ -97,7 +292,17 @@ const PatternForm: React.FC<PatternFormProps> = ({ onSave, pattern, onCancel })
           Cancel
         </Button>
         <Button
-          onClick={() => onSave(name, regexPattern, description, pattern?.id)}
+          onClick={() => onSave(
+            name,
+            regexPattern,
+            description,
+            extractor,
+            kind,
+            kind === 'value' ? undefined : bucketSeconds,
+            kind === 'value' && unit !== 'none' ? unit : undefined,
+            kind === 'value' && unit === 'custom' ? unitLabel.trim() || undefined : undefined,
+            pattern?.id
+          )}
           disabled={!name || !regexPattern}
         >
           <Save className="h-4 w-4 mr-2" />
@@ -1,7 +1,7 @@
 
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import { toast } from "sonner";
-import { PlusCircle, Save, Trash2, Check, X, Edit, Play, Info } from "lucide-react";
+import { PlusCircle, Save, Trash2, Check, X, Edit, Play, Info, KeyRound, LayoutTemplate } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -14,22 +14,61 @@ import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  DropdownMenu, DropdownMenuContent, DropdownMenuItem,
+  DropdownMenuLabel, DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
 import PatternForm from "./PatternForm";
+import LogfmtKeyDiscovery from "./LogfmtKeyDiscovery";
 import { savePatterns, loadPatterns } from "@/utils/patternStorage";
+import { discoverFieldPaths, getFieldValue, parseJsonLine, splitFieldPath } from "@/utils/jsonLines";
+import { LogfmtKeyInfo, parseLogfmt } from "@/utils/logfmt";
+import { SYSLOG_FIELDS, SyslogField, parseSyslogHeader } from "@/utils/syslog";
+import { FORMAT_PRESETS, FormatPreset, detectFormatPreset } from "@/utils/formatPresets";
+import { getGroupSignalName, getNamedGroups, normalizeNamedGroups, expandNamedGroups } from "@/utils/regexGroups";
+import { getBucketSeconds, isCountingPattern } from "@/utils/eventCounts";
+import { formatBucketMs } from "@/utils/aggregation";
+import { detectUnit, getUnitLabel } from "@/utils/units";
+import { LogSource } from "@/types/sourceTypes";
+
+// How a pattern extracts its value: a regex capture group, a JSON field path, a logfmt key,
+// a syslog header field or a regex capture group of the source file name
+export type PatternExtractor = 'regex' | 'json' | 'logfmt' | 'syslog' | 'source';
+
+// What a pattern charts: the extracted value, or the matches per time bucket as a count or a rate per second
+export type PatternKind = 'value' | 'count' | 'rate';
+
+// Unit of extracted values; suffixed values like "512KB" or "2.5s" are converted to the unit's base
+export type PatternUnit = 'bytes' | 'duration' | 'percent' | 'custom';
 
 export interface RegexPattern {
   id: string;
   name: string;
-  pattern: string;
+  pattern: string; // Regular expression, JSON field path, logfmt key or syslog field
   description?: string;
+  extractor?: PatternExtractor; // Defaults to regex
+  kind?: PatternKind; // Defaults to value
+  bucketSeconds?: number; // Bucket size of count and rate patterns
+  unit?: PatternUnit; // Plain numbers when unset
+  unitLabel?: string; // Suffix of a custom unit, e.g. "req"
 }
 
+// Badges shown next to patterns that do not use a line regex
+const EXTRACTOR_BADGES: Partial<Record<PatternExtractor, string>> = {
+  json: "JSON",
+  logfmt: "logfmt",
+  syslog: "syslog",
+  source: "file name"
+};
+
 interface RegexManagerProps {
   onApplyPattern: (patterns: RegexPattern[]) => void;
   logSample?: string;
+  logSources?: LogSource[]; // Full files, scanned for logfmt keys
+  onApplyPreset?: (preset: FormatPreset) => void; // Applies a preset's ingestion and timestamp settings
 }
 
-const RegexManager: React.FC<RegexManagerProps> = ({ onApplyPattern, logSample }) => {
+const RegexManager: React.FC<RegexManagerProps> = ({ onApplyPattern, logSample, logSources = [], onApplyPreset }) => {
   const [patterns, setPatterns] = useState<RegexPattern[]>([]);
   const [selectedPatterns, setSelectedPatterns] = useState<string[]>([]);
   const [newPatternOpen, setNewPatternOpen] = useState(false);
@@ -37,6 +76,11 @@ const RegexManager: React.FC<RegexManagerProps> = ({ onApplyPattern, logSample }
   const [testDialogOpen, setTestDialogOpen] = useState(false);
   const [testResults, setTestResults] = useState<string[]>([]);
   const [testPattern, setTestPattern] = useState<RegexPattern | null>(null);
+  const [keyDiscoveryOpen, setKeyDiscoveryOpen] = useState(false);
+
+  // Field paths of JSON-lines samples, suggested when defining JSON patterns
+  const fieldPaths = useMemo(() => logSample ? discoverFieldPaths(logSample.split("\n")) : [], [logSample]);
+  const detectedPreset = useMemo(() => logSample ? detectFormatPreset(logSample.split("\n")) : null, [logSample]);
 
   // Load saved patterns from both localStorage and server on initial render
   useEffect(() => {
@@ -118,18 +162,45 @@ const RegexManager: React.FC<RegexManagerProps> = ({ onApplyPattern, logSample }
     }
   }, [patterns]);
 
-  const handleSavePattern = (name: string, pattern: string, description: string, id?: string) => {
+  const handleSavePattern = (
+    name: string,
+    pattern: string,
+    description: string,
+    extractor: PatternExtractor,
+    kind: PatternKind,
+    bucketSeconds: number | undefined,
+    unit: PatternUnit | undefined,
+    unitLabel: string | undefined,
+    id?: string
+  ) => {
+    if (extractor === 'json' && splitFieldPath(pattern).length === 0) {
+      toast.error("Please enter a field path");
+      return;
+    }
+    if (extractor === 'logfmt' && !pattern.trim()) {
+      toast.error("Please enter a logfmt key");
+      return;
+    }
+    if (extractor === 'syslog' && !SYSLOG_FIELDS.includes(pattern.trim() as SyslogField)) {
+      toast.error(`Please choose a syslog field (${SYSLOG_FIELDS.join(", ")})`);
+      return;
+    }
+
     try {
-      // Convert Python-style named capturing groups (?P<name>...) to standard capturing groups (...)
-      const normalizedPattern = pattern.replace(/\(\?P<[^>]+>([^)]+)\)/g, '($1)');
+      let normalizedPattern = pattern.trim();
       
-      // Validate the regex by creating a RegExp object
-      new RegExp(normalizedPattern);
+      if (extractor === 'regex' || extractor === 'source') {
+        // Python-style named groups (?P<name>...) become JavaScript named groups (?<name>...)
+        normalizedPattern = normalizeNamedGroups(normalizedPattern);
+        
+        // Validate the regex by creating a RegExp object
+        new RegExp(normalizedPattern);
+      }
       
       if (id) {
         // Update existing pattern
         setPatterns(patterns.map(p => 
-          p.id === id ? { ...p, name, pattern: normalizedPattern, description } : p
+          p.id === id ? { ...p, name, pattern: normalizedPattern, description, extractor, kind, bucketSeconds, unit, unitLabel } : p
         ));
         toast.success("Pattern updated successfully");
       } else {
@@ -138,7 +209,12 @@ const RegexManager: React.FC<RegexManagerProps> = ({ onApplyPattern, logSample }
           id: Date.now().toString(),
           name,
           pattern: normalizedPattern,
-          description
+          description,
+          extractor,
+          kind,
+          bucketSeconds,
+          unit,
+          unitLabel
         };
         setPatterns([...patterns, newPattern]);
         toast.success("Pattern saved successfully");
@@ -150,6 +226,41 @@ const RegexManager: React.FC<RegexManagerProps> = ({ onApplyPattern, logSample }
     }
   };
 
+  // Turns ticked logfmt keys into patterns, reusing existing ones for the same key
+  const handleAddLogfmtKeys = (keys: LogfmtKeyInfo[]) => {
+    const newPatterns: RegexPattern[] = [];
+    const keyPatternIds = keys.map((key, index) => {
+      const existing = patterns.find(p => p.extractor === 'logfmt' && p.pattern === key.key);
+      if (existing) return existing.id;
+
+      const newPattern: RegexPattern = {
+        id: `${Date.now()}-${index}`,
+        name: key.key,
+        pattern: key.key,
+        description: `logfmt key (${key.type === 'unit' ? `number in ${key.unit}` : key.type})`,
+        extractor: 'logfmt',
+        unit: key.type === 'unit' && key.unit ? detectUnit(key.unit) : undefined
+      };
+      newPatterns.push(newPattern);
+      return newPattern.id;
+    });
+
+    setPatterns([...patterns, ...newPatterns]);
+    setSelectedPatterns(Array.from(new Set([...selectedPatterns, ...keyPatternIds])));
+    toast.success(`Added ${keys.length} logfmt key${keys.length !== 1 ? 's' : ''} as patterns`);
+  };
+
+  // Adds a preset's signals (keeping patterns already added from it) and selects them
+  const handleApplyPreset = (preset: FormatPreset) => {
+    const newPatterns = preset.patterns.filter(presetPattern => !patterns.some(p => p.id === presetPattern.id));
+    const presetPatternIds = preset.patterns.map(p => p.id);
+
+    setPatterns([...patterns, ...newPatterns]);
+    setSelectedPatterns(Array.from(new Set([...selectedPatterns, ...presetPatternIds])));
+    onApplyPreset?.(preset);
+    toast.success(`Applied the ${preset.label} preset`);
+  };
+
   const handleDeletePattern = (id: string) => {
     setPatterns(patterns.filter(p => p.id !== id));
     setSelectedPatterns(selectedPatterns.filter(patternId => patternId !== id));
@@ -174,17 +285,67 @@ const RegexManager: React.FC<RegexManagerProps> = ({ onApplyPattern, logSample }
     }
   };
 
+  const testFieldPattern = (pattern: RegexPattern, sample: string) => {
+    const path = splitFieldPath(pattern.pattern);
+    const results: string[] = [];
+
+    const getValue = (line: string): unknown => {
+      if (pattern.extractor === 'logfmt') return parseLogfmt(line)[pattern.pattern];
+      if (pattern.extractor === 'syslog') return parseSyslogHeader(line)?.[pattern.pattern as SyslogField];
+      const record = parseJsonLine(line);
+      return record ? getFieldValue(record, path) : undefined;
+    };
+
+    // Process up to 10 matches for preview
+    for (const line of sample.split("\n")) {
+      const value = getValue(line);
+      if (value !== undefined && value !== null && typeof value !== 'object') {
+        results.push(`${value} (from: ${line.substring(0, 60)}...)`);
+        if (results.length >= 10) break;
+      }
+    }
+
+    setTestResults(results.length > 0 ? results : ["No matches found"]);
+    setTestPattern(pattern);
+    setTestDialogOpen(true);
+  };
+
+  // Source patterns are matched against the uploaded file names instead of lines
+  const testSourcePattern = (pattern: RegexPattern) => {
+    try {
+      const regex = new RegExp(pattern.pattern);
+      const results = logSources.map(source => {
+        const value = source.name.match(regex)?.slice(1).find(group => group !== undefined);
+        return value === undefined ? `No match (from: ${source.name})` : `${value} (from: ${source.name})`;
+      });
+
+      setTestResults(results.length > 0 ? results : ["No files uploaded"]);
+      setTestPattern(pattern);
+      setTestDialogOpen(true);
+    } catch (error) {
+      toast.error("Error testing pattern: " + (error instanceof Error ? error.message : "Invalid regex"));
+    }
+  };
+
   const testRegexPattern = (pattern: RegexPattern) => {
+    if (pattern.extractor === 'source') {
+      testSourcePattern(pattern);
+      return;
+    }
+
     if (!logSample) {
       toast.error("No log sample available for testing");
       return;
     }
 
+    if (pattern.extractor === 'json' || pattern.extractor === 'logfmt' || pattern.extractor === 'syslog') {
+      testFieldPattern(pattern, logSample);
+      return;
+    }
+
     try {
-      // Convert Python-style named capturing groups if present
-      const normalizedPattern = pattern.pattern.replace(/\(\?P<[^>]+>([^)]+)\)/g, '($1)');
-      
-      const regex = new RegExp(normalizedPattern, "g");
+      const regex = new RegExp(normalizeNamedGroups(pattern.pattern), "g");
+      const groups = getNamedGroups(pattern.pattern);
       const lines = logSample.split("\n");
       const results: string[] = [];
 
@@ -193,8 +354,16 @@ const RegexManager: React.FC<RegexManagerProps> = ({ onApplyPattern, logSample }
       for (const line of lines) {
         regex.lastIndex = 0; // Reset regex before each test
         const match = regex.exec(line);
-        if (match && match[1]) {
-          results.push(`${match[1]} (from: ${line.substring(0, 60)}...)`);
+        const value = isCountingPattern(pattern) && match
+          ? match[0]
+          : groups.length > 0 && match?.groups
+          ? groups
+            .filter(group => match.groups[group] !== undefined)
+            .map(group => `${getGroupSignalName(pattern.name, group)}=${match.groups[group]}`)
+            .join(", ")
+          : match?.[1];
+        if (value) {
+          results.push(`${value} (from: ${line.substring(0, 60)}...)`);
           matchCount++;
           if (matchCount >= 10) break;
         }
@@ -213,6 +382,45 @@ const RegexManager: React.FC<RegexManagerProps> = ({ onApplyPattern, logSample }
       <CardHeader className="pb-3">
         <div className="flex justify-between items-center">
           <CardTitle className="text-lg">Regular Expression Patterns</CardTitle>
+          <div className="flex gap-2">
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm" className="flex items-center gap-1">
+                <LayoutTemplate className="h-4 w-4" />
+                <span>Presets</span>
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="w-72">
+              <DropdownMenuLabel>Log format presets</DropdownMenuLabel>
+              {FORMAT_PRESETS.map(preset => (
+                <DropdownMenuItem
+                  key={preset.id}
+                  className="flex flex-col items-start gap-0.5"
+                  onSelect={() => handleApplyPreset(preset)}
+                >
+                  <span className="flex items-center gap-2 text-sm">
+                    {preset.label}
+                    {detectedPreset?.id === preset.id && (
+                      <Badge variant="secondary" className="text-[10px] px-1 py-0">Detected</Badge>
+                    )}
+                  </span>
+                  <span className="text-xs text-muted-foreground">
+                    {preset.patterns.map(p => p.name).join(", ")}
+                  </span>
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <Button
+            variant="outline"
+            size="sm"
+            className="flex items-center gap-1"
+            onClick={() => setKeyDiscoveryOpen(true)}
+            disabled={logSources.length === 0}
+          >
+            <KeyRound className="h-4 w-4" />
+            <span>Discover Keys</span>
+          </Button>
           <Dialog open={newPatternOpen} onOpenChange={setNewPatternOpen}>
             <DialogTrigger asChild>
               <Button 
@@ -234,6 +442,7 @@ const RegexManager: React.FC<RegexManagerProps> = ({ onApplyPattern, logSample }
               <PatternForm 
                 onSave={handleSavePattern} 
                 pattern={editingPattern} 
+                fieldPaths={fieldPaths}
                 onCancel={() => {
                   setNewPatternOpen(false);
                   setEditingPattern(null);
@@ -241,7 +450,14 @@ const RegexManager: React.FC<RegexManagerProps> = ({ onApplyPattern, logSample }
               />
             </DialogContent>
           </Dialog>
+          </div>
         </div>
+        <LogfmtKeyDiscovery
+          open={keyDiscoveryOpen}
+          onOpenChange={setKeyDiscoveryOpen}
+          sources={logSources}
+          onAddKeys={handleAddLogfmtKeys}
+        />
       </CardHeader>
       <CardContent>
         {patterns.length === 0 ? (
@@ -274,7 +490,29 @@ const RegexManager: React.FC<RegexManagerProps> = ({ onApplyPattern, logSample }
                         <Check className="h-3 w-3" />
                       </Button>
                       <div>
-                        <div className="font-medium text-sm">{pattern.name}</div>
+                        <div className="font-medium text-sm flex items-center gap-1">
+                          {pattern.name}
+                          {pattern.extractor && EXTRACTOR_BADGES[pattern.extractor] && (
+                            <Badge variant="outline" className="text-[10px] px-1 py-0">
+                              {EXTRACTOR_BADGES[pattern.extractor]}
+                            </Badge>
+                          )}
+                          {expandNamedGroups(pattern).length > 1 && (
+                            <Badge variant="outline" className="text-[10px] px-1 py-0">
+                              {expandNamedGroups(pattern).length} signals
+                            </Badge>
+                          )}
+                          {isCountingPattern(pattern) && (
+                            <Badge variant="outline" className="text-[10px] px-1 py-0">
+                              {pattern.kind === 'rate' ? "rate" : "count"} / {formatBucketMs(getBucketSeconds(pattern) * 1000)}
+                            </Badge>
+                          )}
+                          {getUnitLabel(pattern) && (
+                            <Badge variant="outline" className="text-[10px] px-1 py-0">
+                              {getUnitLabel(pattern)}
+                            </Badge>
+                          )}
+                        </div>
                         <div className="text-xs font-mono text-muted-foreground truncate max-w-[150px] sm:max-w-[280px]">
                           {pattern.pattern}
                         </div>
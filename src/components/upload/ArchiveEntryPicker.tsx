@@ -0,0 +1,170 @@
+import React, { useEffect, useState } from "react";
+import { FileArchive, FileText } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Dialog, DialogContent, DialogDescription,
+  DialogFooter, DialogHeader, DialogTitle
+} from "@/components/ui/dialog";
+import { cn } from "@/lib/utils";
+import { ArchiveEntry, applySourceEncoding, createLogSource, isLogArchiveEntry } from "@/utils/fileHandlers";
+import { readLogSample } from "@/utils/logStream";
+import { formatBytes } from "@/utils/units";
+
+const PREVIEW_LINES = 15;
+
+interface ArchiveEntryPickerProps {
+  archiveName: string;
+  entries: ArchiveEntry[];
+  encoding: string; // Selected encoding id, or auto
+  open: boolean;
+  onConfirm: (entries: ArchiveEntry[]) => void;
+  onCancel: () => void;
+}
+
+const ArchiveEntryPicker: React.FC<ArchiveEntryPickerProps> = ({
+  archiveName,
+  entries,
+  encoding,
+  open,
+  onConfirm,
+  onCancel
+}) => {
+  const [selectedPaths, setSelectedPaths] = useState<string[]>([]);
+  const [previewEntry, setPreviewEntry] = useState<ArchiveEntry | null>(null);
+  const [preview, setPreview] = useState<string>("");
+  const [isLoadingPreview, setIsLoadingPreview] = useState(false);
+
+  // Preselect everything that looks like a log file
+  useEffect(() => {
+    setSelectedPaths(entries.filter(isLogArchiveEntry).map(entry => entry.path));
+    setPreviewEntry(entries.find(isLogArchiveEntry) || entries[0] || null);
+  }, [entries]);
+
+  useEffect(() => {
+    if (!previewEntry) {
+      setPreview("");
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoadingPreview(true);
+
+    const loadPreview = async () => {
+      if (previewEntry.unsupported) {
+        setPreview(previewEntry.unsupported);
+        setIsLoadingPreview(false);
+        return;
+      }
+      try {
+        const blob = await previewEntry.load();
+        const source = await applySourceEncoding(createLogSource(previewEntry.path, blob, previewEntry.compression), encoding);
+        const sample = await readLogSample(source, PREVIEW_LINES);
+        if (!cancelled) setPreview(sample || "(empty file)");
+      } catch (error) {
+        console.error("Error loading archive entry preview:", error);
+        if (!cancelled) setPreview("Preview unavailable for this entry");
+      } finally {
+        if (!cancelled) setIsLoadingPreview(false);
+      }
+    };
+
+    loadPreview();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [previewEntry, encoding]);
+
+  const toggleEntry = (path: string) => {
+    setSelectedPaths(current => current.includes(path)
+      ? current.filter(selected => selected !== path)
+      : [...current, path]);
+  };
+
+  const unsupportedCount = entries.filter(entry => entry.unsupported).length;
+
+  const handleConfirm = () => {
+    onConfirm(entries.filter(entry => selectedPaths.includes(entry.path)));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="sm:max-w-[900px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileArchive className="h-5 w-5" /> Select files from {archiveName}
+          </DialogTitle>
+          <DialogDescription>
+            {entries.length} entries found
+            {unsupportedCount > 0 && ` (${unsupportedCount} cannot be read and are skipped)`}
+            . Nested archives are expanded. Click an entry to preview it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <ScrollArea className="h-[360px] rounded border">
+            <div className="p-1">
+              {entries.map(entry => (
+                <div
+                  key={entry.path}
+                  className={cn(
+                    "flex items-center gap-2 px-2 py-1.5 rounded-md cursor-pointer text-sm",
+                    previewEntry?.path === entry.path ? "bg-muted" : "hover:bg-muted/50"
+                  )}
+                  onClick={() => setPreviewEntry(entry)}
+                >
+                  <Checkbox
+                    checked={selectedPaths.includes(entry.path)}
+                    disabled={!!entry.unsupported}
+                    onCheckedChange={() => toggleEntry(entry.path)}
+                    onClick={(e) => e.stopPropagation()}
+                  />
+                  <FileText className="h-4 w-4 shrink-0 text-muted-foreground" />
+                  <span
+                    className={cn("font-mono text-xs truncate flex-1", entry.unsupported && "text-muted-foreground line-through")}
+                    title={entry.unsupported ? `${entry.path}: ${entry.unsupported}` : entry.path}
+                  >
+                    {entry.path.substring(archiveName.length + 1)}
+                  </span>
+                  <span className="text-xs text-muted-foreground whitespace-nowrap">
+                    {entry.unsupported ? "unsupported" : (
+                      <>
+                        {entry.size !== null ? formatBytes(entry.size) : "?"}
+                        {entry.compression !== 'none' && ` (${entry.compression})`}
+                      </>
+                    )}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+
+          <div className="rounded border flex flex-col h-[360px]">
+            <div className="px-3 py-2 bg-muted text-xs font-medium border-b truncate">
+              {previewEntry ? previewEntry.path : "No entry selected"}
+            </div>
+            <div className="flex-1 p-3 text-xs font-mono whitespace-pre overflow-auto bg-black text-green-400">
+              {isLoadingPreview ? "Loading preview..." : preview}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter className="items-center">
+          <span className="text-sm text-muted-foreground mr-auto">
+            {selectedPaths.length} of {entries.length} selected
+          </span>
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button onClick={handleConfirm} disabled={selectedPaths.length === 0}>
+            Load selected
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ArchiveEntryPicker;
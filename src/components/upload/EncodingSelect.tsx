@@ -0,0 +1,35 @@
+import React from "react";
+import { Languages } from "lucide-react";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AUTO_ENCODING, LOG_ENCODINGS } from "@/utils/encodings";
+
+interface EncodingSelectProps {
+  value: string;
+  onChange: (encodingId: string) => void;
+}
+
+const EncodingSelect: React.FC<EncodingSelectProps> = ({ value, onChange }) => {
+  return (
+    <div className="flex items-center justify-center gap-2">
+      <Label className="flex items-center gap-1 text-sm text-muted-foreground">
+        <Languages className="h-4 w-4" /> Encoding
+      </Label>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger className="w-64 h-8 text-xs">
+          <SelectValue placeholder="Encoding" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={AUTO_ENCODING}>Auto-detect</SelectItem>
+          {LOG_ENCODINGS.map(encoding => (
+            <SelectItem key={encoding.id} value={encoding.id}>
+              {encoding.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+};
+
+export default EncodingSelect;
@@ -7,16 +7,28 @@ import { Upload, File, CheckCircle2, AlertCircle } from "lucide-react";
 import { toast } from "sonner";
 import { cn } from "@/lib/utils";
 import { 
-  readAsText, 
-  decompressZip, 
-  decompressGzip, 
+  ArchiveEntry,
+  applySourceEncoding,
+  createLogSource, 
+  getArchiveType,
+  getFileCompression,
+  listArchiveEntries, 
+  loadArchiveEntries,
   isValidFileType 
 } from "@/utils/fileHandlers";
+import { readLogSample } from "@/utils/logStream";
+import { LogSource } from "@/types/sourceTypes";
+import { AUTO_ENCODING, DEFAULT_ENCODING, getEncoding } from "@/utils/encodings";
+import ArchiveEntryPicker from "./ArchiveEntryPicker";
+import EncodingSelect from "./EncodingSelect";
 
 interface FileUploaderProps {
-  onFileProcessed: (content: string) => void;
+  onFileProcessed: (sources: LogSource[], sample: string) => void;
 }
 
+// Total number of head lines read across all sources for previews and detection
+const SAMPLE_LINES = 2000;
+
 const FileUploader: React.FC<FileUploaderProps> = ({ onFileProcessed }) => {
   const [isDragging, setIsDragging] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
@@ -24,35 +36,61 @@ const FileUploader: React.FC<FileUploaderProps> = ({ onFileProcessed }) => {
   const [fileName, setFileName] = useState<string>("");
   const [fileSize, setFileSize] = useState<number>(0);
   const [progress, setProgress] = useState(0);
+  const [encoding, setEncoding] = useState<string>(AUTO_ENCODING);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [archivePicker, setArchivePicker] = useState<{
+    archiveName: string;
+    entries: ArchiveEntry[];
+    resolve: (entries: ArchiveEntry[] | null) => void;
+  } | null>(null);
+
+  // Opens the entry picker and resolves with the chosen entries, or null when cancelled
+  const pickArchiveEntries = (archiveName: string, entries: ArchiveEntry[]): Promise<ArchiveEntry[] | null> => {
+    return new Promise(resolve => {
+      setArchivePicker({
+        archiveName,
+        entries,
+        resolve: (selected) => {
+          setArchivePicker(null);
+          resolve(selected);
+        }
+      });
+    });
+  };
 
-  const processLogFile = async (file: File): Promise<string> => {
+  const processLogFile = async (file: File): Promise<LogSource[]> => {
     const fileName = file.name.toLowerCase();
-    let content = "";
+    let sources: LogSource[];
 
     try {
-      if (fileName.endsWith('.gz')) {
+      const compression = getFileCompression(fileName);
+
+      if (getArchiveType(fileName)) {
+        // ZIP, tar (optionally compressed) and 7z archives let the user pick entries
         setCurrentStep("decompressing");
         setProgress(10);
-        content = await decompressGzip(file);
-      } else if (fileName.endsWith('.zip')) {
+        const entries = await listArchiveEntries(file, file.name);
+        if (entries.length === 0) {
+          throw new Error(`No files found in ${file.name}`);
+        }
+        
+        // Closing the picker skips the archive
+        const selectedEntries = await pickArchiveEntries(file.name, entries);
+        if (!selectedEntries) return [];
+        sources = await loadArchiveEntries(selectedEntries);
+      } else if (compression !== 'none') {
+        // GZIP, bzip2 and xz files are decompressed incrementally while streaming
         setCurrentStep("decompressing");
         setProgress(10);
-        content = await decompressZip(file);
-      } else if (fileName.endsWith('.7z')) {
-        // For now, we'll show a friendly message about 7z support
-        toast.error("7z file support is temporarily unavailable. Please use .zip, .gz, .log, or .txt files instead.");
-        setCurrentStep("error");
-        throw new Error("7z support temporarily unavailable");
+        sources = [createLogSource(file.name, file, compression)];
       } else {
-        // Regular .log or .txt file - Just read without decompressing
+        // Regular .log or .txt file - streamed straight from disk
         setCurrentStep("processing");
         setProgress(40);
-        content = await readAsText(file);
+        sources = [createLogSource(file.name, file)];
       }
       
-      setProgress(70);
-      return content;
+      return sources;
     } catch (error) {
       console.error("Error processing file:", error);
       setCurrentStep("error");
@@ -61,16 +99,17 @@ const FileUploader: React.FC<FileUploaderProps> = ({ onFileProcessed }) => {
     }
   };
 
-  const processFile = async (file: File) => {
-    if (!isValidFileType(file.name) && !file.name.toLowerCase().endsWith('.7z')) {
-      toast.error("Invalid file type. Please upload a .log, .txt, .zip, or .gz file");
+  const processFiles = async (files: File[]) => {
+    const invalidFile = files.find(file => !isValidFileType(file.name));
+    if (invalidFile) {
+      toast.error(`Invalid file type (${invalidFile.name}). Please upload .log or .txt files, optionally compressed (.gz, .bz2, .xz) or archived (.zip, .tar, .7z)`);
       return;
     }
 
     try {
       setIsUploading(true);
-      setFileName(file.name);
-      setFileSize(file.size);
+      setFileName(files.length === 1 ? files[0].name : `${files.length} files`);
+      setFileSize(files.reduce((sum, file) => sum + file.size, 0));
       setProgress(0);
       setCurrentStep("uploading");
 
@@ -89,25 +128,31 @@ const FileUploader: React.FC<FileUploaderProps> = ({ onFileProcessed }) => {
       await new Promise(resolve => setTimeout(resolve, 800));
       clearInterval(uploadInterval);
       
-      // Handle 7z files with a friendly message
-      if (file.name.toLowerCase().endsWith('.7z')) {
-        toast.error("7z file support is temporarily unavailable. Please use .zip, .gz, .log, or .txt files instead.");
-        setIsUploading(false);
-        setCurrentStep("error");
-        return;
+      const loadedSources: LogSource[] = [];
+      for (const [index, file] of files.entries()) {
+        loadedSources.push(...await processLogFile(file));
+        setProgress(30 + Math.round(((index + 1) / files.length) * 40));
+      }
+      if (loadedSources.length === 0) return;
+
+      // The same encoding handling applies to plain, compressed and archived files
+      const sources = await Promise.all(loadedSources.map(source => applySourceEncoding(source, encoding)));
+      if (encoding === AUTO_ENCODING) {
+        sources
+          .filter(source => source.encoding !== DEFAULT_ENCODING)
+          .forEach(source => toast.info(`Detected ${getEncoding(source.encoding)?.label || source.encoding} encoding in ${source.name}`));
       }
-      
-      const content = await processLogFile(file);
 
       setCurrentStep("processing");
       setProgress(80);
       
-      // Simulate processing delay - this gives users feedback that work is happening
-      await new Promise(resolve => setTimeout(resolve, 500));
+      // Only the head of each file is read here; the rest is streamed during analysis
+      const linesPerSource = Math.max(50, Math.floor(SAMPLE_LINES / sources.length));
+      const samples = await Promise.all(sources.map(source => readLogSample(source, linesPerSource)));
       setProgress(100);
       
       setCurrentStep("complete");
-      onFileProcessed(content);
+      onFileProcessed(sources, samples.join('\n'));
     } catch (error) {
       console.error("Error processing file:", error);
       toast.error("Failed to process file. Please try again with a different format.");
@@ -132,15 +177,17 @@ const FileUploader: React.FC<FileUploaderProps> = ({ onFileProcessed }) => {
     setIsDragging(false);
     
     if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-      processFile(e.dataTransfer.files[0]);
+      processFiles(Array.from(e.dataTransfer.files));
     }
-  }, []);
+  }, [encoding]);
 
   const handleFileChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
-      processFile(e.target.files[0]);
+      processFiles(Array.from(e.target.files));
     }
-  }, []);
+    // Lets the same file be chosen again after its archive picker was closed
+    e.target.value = "";
+  }, [encoding]);
 
   const handleButtonClick = useCallback(() => {
     if (fileInputRef.current) {
@@ -148,9 +195,21 @@ const FileUploader: React.FC<FileUploaderProps> = ({ onFileProcessed }) => {
     }
   }, []);
 
+  const archivePickerDialog = archivePicker && (
+    <ArchiveEntryPicker
+      open
+      archiveName={archivePicker.archiveName}
+      entries={archivePicker.entries}
+      encoding={encoding}
+      onConfirm={(entries) => archivePicker.resolve(entries)}
+      onCancel={() => archivePicker.resolve(null)}
+    />
+  );
+
   if (isUploading) {
     return (
       <div className="p-6 border border-border/60 rounded-lg">
+        {archivePickerDialog}
         <div className="mb-4">
           <div className="flex items-center mb-2">
             <File className="mr-2 h-4 w-4 text-primary" />
@@ -197,19 +256,23 @@ const FileUploader: React.FC<FileUploaderProps> = ({ onFileProcessed }) => {
           onChange={handleFileChange}
           className="hidden"
           ref={fileInputRef}
-          accept=".log,.txt,.zip,.gz"
+          multiple
         />
         <div className="w-16 h-16 mb-4 rounded-full bg-primary/10 flex items-center justify-center">
           <Upload className="h-8 w-8 text-primary" />
         </div>
-        <h3 className="text-lg font-medium mb-2">Upload your log file</h3>
+        <h3 className="text-lg font-medium mb-2">Upload your log files</h3>
         <p className="text-muted-foreground mb-4 text-sm max-w-md mx-auto">
-          Drag & drop your .log, .txt, .zip, or .gz file
+          Drag & drop one or more .log or .txt files, compressed (.gz, .bz2, .xz) or archived (.zip, .tar, .tar.gz, .7z). Rotated sets and logs from several hosts are merged into one timeline.
         </p>
         <Button variant="outline" size="sm" className="group">
           <Upload className="mr-2 h-4 w-4 group-hover:translate-y-[-2px] transition-transform" />
           Browse Files
         </Button>
+        {/* Keep clicks on the dropdown (including its portal) from opening the file dialog */}
+        <div className="mt-4" onClick={(e) => e.stopPropagation()}>
+          <EncodingSelect value={encoding} onChange={setEncoding} />
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,104 @@
+import React, { useMemo } from "react";
+import { Braces, WrapText } from "lucide-react";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { IngestionConfig, LogFormat, MultilineMode } from "@/types/sourceTypes";
+import { discoverFieldPaths } from "@/utils/jsonLines";
+
+interface LogFormatSettingsProps {
+  value: IngestionConfig;
+  onChange: (config: IngestionConfig) => void;
+  logSample?: string;
+}
+
+const LogFormatSettings: React.FC<LogFormatSettingsProps> = ({ value, onChange, logSample }) => {
+  const fieldPaths = useMemo(() => {
+    if (!logSample || value.format !== 'jsonl') return [];
+    return discoverFieldPaths(logSample.split("\n"));
+  }, [logSample, value.format]);
+
+  // Keep the current selection listed even if it does not occur in the sample
+  const timestampFieldOptions = fieldPaths.includes(value.timestampField)
+    ? fieldPaths
+    : [value.timestampField, ...fieldPaths];
+
+  const isEventStartValid = useMemo(() => {
+    try {
+      new RegExp(value.eventStartPattern);
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }, [value.eventStartPattern]);
+
+  return (
+    <div className="flex flex-wrap items-center gap-3">
+      <Label className="flex items-center gap-1 text-sm">
+        <Braces className="h-4 w-4" /> Log format
+      </Label>
+      <Select value={value.format} onValueChange={(format) => onChange({ ...value, format: format as LogFormat })}>
+        <SelectTrigger className="w-48">
+          <SelectValue placeholder="Log format" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="text">Plain text</SelectItem>
+          <SelectItem value="jsonl">JSON lines</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {value.format === 'text' && (
+        <>
+          <Label className="flex items-center gap-1 text-sm">
+            <WrapText className="h-4 w-4" /> Multi-line events
+          </Label>
+          <Select
+            value={value.multiline}
+            onValueChange={(multiline) => onChange({ ...value, multiline: multiline as MultilineMode })}
+          >
+            <SelectTrigger className="w-72">
+              <SelectValue placeholder="Multi-line events" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="timestamp">Attach lines without a timestamp</SelectItem>
+              <SelectItem value="pattern">Events start with a pattern</SelectItem>
+              <SelectItem value="off">Every line is an event</SelectItem>
+            </SelectContent>
+          </Select>
+          {value.multiline === 'pattern' && (
+            <Input
+              value={value.eventStartPattern}
+              onChange={(e) => onChange({ ...value, eventStartPattern: e.target.value })}
+              placeholder="^\d{4}-\d{2}-\d{2}"
+              className={`w-64 font-mono text-xs ${isEventStartValid ? "" : "border-destructive"}`}
+              title={isEventStartValid ? "Regular expression matching the first line of an event" : "Invalid regular expression"}
+            />
+          )}
+        </>
+      )}
+
+      {value.format === 'jsonl' && (
+        <>
+          <Label className="text-sm">Timestamp field</Label>
+          <Select
+            value={value.timestampField}
+            onValueChange={(timestampField) => onChange({ ...value, timestampField })}
+          >
+            <SelectTrigger className="w-64 font-mono text-xs">
+              <SelectValue placeholder="Timestamp field" />
+            </SelectTrigger>
+            <SelectContent>
+              {timestampFieldOptions.map(path => (
+                <SelectItem key={path} value={path} className="font-mono text-xs">
+                  {path}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default LogFormatSettings;
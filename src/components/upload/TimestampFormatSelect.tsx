@@ -0,0 +1,62 @@
+import React, { useMemo } from "react";
+import { Clock } from "lucide-react";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AUTO_TIMESTAMP_FORMAT,
+  TIMESTAMP_FORMATS,
+  detectTimestampFormat
+} from "@/utils/timestampFormats";
+import { IngestionConfig } from "@/types/sourceTypes";
+import { getTimestampText, parseJsonLine } from "@/utils/jsonLines";
+
+interface TimestampFormatSelectProps {
+  value: string;
+  onChange: (formatId: string) => void;
+  logSample?: string;
+  ingestion?: IngestionConfig;
+}
+
+const TimestampFormatSelect: React.FC<TimestampFormatSelectProps> = ({ value, onChange, logSample, ingestion }) => {
+  // Only the head of the file is needed for detection
+  const detectedFormat = useMemo(() => {
+    if (!logSample) return null;
+    const lines = logSample.substring(0, 64 * 1024).split("\n");
+    if (ingestion?.format !== 'jsonl') return detectTimestampFormat(lines);
+
+    // JSON lines are detected on the values of the timestamp field
+    return detectTimestampFormat(lines
+      .map(line => getTimestampText(line, parseJsonLine(line), ingestion))
+      .filter((text): text is string => text !== null));
+  }, [logSample, ingestion]);
+
+  return (
+    <div className="flex flex-wrap items-center gap-3">
+      <Label className="flex items-center gap-1 text-sm">
+        <Clock className="h-4 w-4" /> Timestamp format
+      </Label>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger className="w-72">
+          <SelectValue placeholder="Timestamp format" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={AUTO_TIMESTAMP_FORMAT}>
+            Auto-detect{detectedFormat ? ` (${detectedFormat.label})` : ""}
+          </SelectItem>
+          {TIMESTAMP_FORMATS.map(format => (
+            <SelectItem key={format.id} value={format.id}>
+              {format.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {value === AUTO_TIMESTAMP_FORMAT && logSample && !detectedFormat && (
+        <span className="text-xs text-destructive">
+          No known timestamp format detected. Please choose one manually.
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default TimestampFormatSelect;
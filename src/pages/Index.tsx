@@ -6,13 +6,22 @@ import AppLayout from "@/components/layout/AppLayout";
 import FileUploader from "@/components/upload/FileUploader";
 import RegexManager, { RegexPattern } from "@/components/regex/RegexManager";
 import LogChart from "@/components/charts/LogChart";
+import TimestampFormatSelect from "@/components/upload/TimestampFormatSelect";
+import LogFormatSettings from "@/components/upload/LogFormatSettings";
+import { AUTO_TIMESTAMP_FORMAT } from "@/utils/timestampFormats";
+import { detectIngestionConfig } from "@/utils/jsonLines";
+import { FormatPreset, detectFormatPreset } from "@/utils/formatPresets";
+import { DEFAULT_INGESTION_CONFIG, IngestionConfig, LogSource } from "@/types/sourceTypes";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 
 const Index = () => {
-  const [logContent, setLogContent] = useState<string>("");
+  const [logSources, setLogSources] = useState<LogSource[]>([]);
+  const [logSample, setLogSample] = useState<string>("");
   const [selectedPatterns, setSelectedPatterns] = useState<RegexPattern[]>([]);
+  const [timestampFormat, setTimestampFormat] = useState<string>(AUTO_TIMESTAMP_FORMAT);
+  const [ingestion, setIngestion] = useState<IngestionConfig>(DEFAULT_INGESTION_CONFIG);
   const [activeTab, setActiveTab] = useState<string>("upload");
   const [isLoaded, setIsLoaded] = useState(false);
 
@@ -21,12 +30,27 @@ const Index = () => {
     setIsLoaded(true);
   }, []);
 
-  const handleFileProcessed = useCallback((content: string) => {
-    // Reset state when a new file is uploaded
-    setLogContent(content);
+  const handleFileProcessed = useCallback((sources: LogSource[], sample: string) => {
+    // Reset state when new files are uploaded
+    setLogSources(sources);
+    setLogSample(sample);
     setSelectedPatterns([]);
+    setTimestampFormat(AUTO_TIMESTAMP_FORMAT);
+    setIngestion(detectIngestionConfig(sample));
     setActiveTab("patterns");
-    toast.success("Log file successfully processed");
+    toast.success(sources.length === 1 
+      ? "Log file successfully processed" 
+      : `${sources.length} log files successfully processed`);
+
+    const preset = detectFormatPreset(sample.split("\n"));
+    if (preset) {
+      toast.info(`These look like ${preset.label} logs. Pick the preset under Presets to add its signals.`);
+    }
+  }, []);
+
+  const handleApplyPreset = useCallback((preset: FormatPreset) => {
+    setIngestion(preset.ingestion);
+    setTimestampFormat(preset.timestampFormat);
   }, []);
 
   const handleApplyPattern = useCallback((patterns: RegexPattern[]) => {
@@ -34,9 +58,17 @@ const Index = () => {
     setActiveTab("analysis");
   }, []);
 
+  // Patterns added from the Analysis tab, such as error template counts, extend the selection
+  const handleAddPattern = useCallback((pattern: RegexPattern) => {
+    setSelectedPatterns(current => [...current, pattern]);
+  }, []);
+
   const handleResetAll = useCallback(() => {
-    setLogContent("");
+    setLogSources([]);
+    setLogSample("");
     setSelectedPatterns([]);
+    setTimestampFormat(AUTO_TIMESTAMP_FORMAT);
+    setIngestion(DEFAULT_INGESTION_CONFIG);
     setActiveTab("upload");
     toast.success("All data has been reset");
   }, []);
@@ -83,13 +115,13 @@ const Index = () => {
               </span>
               Upload
             </TabsTrigger>
-            <TabsTrigger value="patterns" className="relative" disabled={!logContent}>
+            <TabsTrigger value="patterns" className="relative" disabled={logSources.length === 0}>
               <span className="absolute -left-1 -top-1 w-5 h-5 rounded-full bg-primary flex items-center justify-center text-[10px] text-primary-foreground">
                 2
               </span>
               Patterns
             </TabsTrigger>
-            <TabsTrigger value="analysis" className="relative" disabled={selectedPatterns.length === 0}>
+            <TabsTrigger value="analysis" className="relative" disabled={logSources.length === 0}>
               <span className="absolute -left-1 -top-1 w-5 h-5 rounded-full bg-primary flex items-center justify-center text-[10px] text-primary-foreground">
                 3
               </span>
@@ -101,9 +133,9 @@ const Index = () => {
         <TabsContent value="upload" className="animate-slide-up">
           <Card className="mx-auto max-w-3xl shadow-sm border-border/50">
             <CardHeader>
-              <CardTitle>Upload Log File</CardTitle>
+              <CardTitle>Upload Log Files</CardTitle>
               <CardDescription>
-                Upload a log file (.log, .txt, .zip, or .gz) to analyze patterns and visualize data.
+                Upload one or more log files (.log, .txt, compressed or archived) to analyze patterns and visualize data.
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -114,9 +146,27 @@ const Index = () => {
 
         <TabsContent value="patterns" className="animate-slide-up">
           <div className="grid grid-cols-1 gap-8">
+            <Card className="shadow-sm border-border/50">
+              <CardContent className="pt-6 space-y-4">
+                <LogFormatSettings
+                  value={ingestion}
+                  onChange={setIngestion}
+                  logSample={logSample}
+                />
+                <TimestampFormatSelect
+                  value={timestampFormat}
+                  onChange={setTimestampFormat}
+                  logSample={logSample}
+                  ingestion={ingestion}
+                />
+              </CardContent>
+            </Card>
+
             <RegexManager 
               onApplyPattern={handleApplyPattern}
-              logSample={logContent} 
+              logSample={logSample} 
+              logSources={logSources}
+              onApplyPreset={handleApplyPreset}
             />
 
             <div className="flex justify-center">
@@ -129,7 +179,7 @@ const Index = () => {
               </Button>
               <Button 
                 onClick={() => setActiveTab("analysis")}
-                disabled={selectedPatterns.length === 0}
+                disabled={logSources.length === 0}
               >
                 Proceed to Analysis
               </Button>
@@ -139,8 +189,11 @@ const Index = () => {
 
         <TabsContent value="analysis" className="animate-slide-up">
           <LogChart
-            logContent={logContent}
+            logSources={logSources}
             patterns={selectedPatterns}
+            timestampFormat={timestampFormat}
+            ingestion={ingestion}
+            onAddPattern={handleAddPattern}
           />
           
           <div className="flex justify-center mt-8">
@@ -1,6 +1,7 @@
 
 // Add the timeSegment property to ChartDisplayProps
 import { RegexPattern } from "@/components/regex/RegexManager";
+import { IngestionConfig, LogSource } from "@/types/sourceTypes";
 
 export const CHART_COLORS = [
   "#4f46e5", // indigo-600
@@ -23,8 +24,37 @@ export interface LogData {
   values: {
     [key: string]: number | string;
   };
+  lineNumber?: number; // 1-based line in the source the point was extracted from
+  lineCount?: number; // Physical lines of a multi-line event, when more than one
+  source?: string; // Name of the log source the point came from
 }
 
+// Key under which formatted chart points carry their source name
+export const SOURCE_KEY = "_source";
+
+// Keys under which formatted chart points carry the lines they were extracted from
+export const LINE_KEY = "_line";
+export const LINE_COUNT_KEY = "_lineCount";
+
+// Function applied to the values of a signal within each time bucket
+export type AggregationFunction = 'none' | 'avg' | 'min' | 'max' | 'sum' | 'count' | 'p50' | 'p90' | 'p99' | 'stddev';
+
+export interface SignalAggregation {
+  fn: AggregationFunction;
+  bucketMs: number | 'auto'; // 'auto' adapts the bucket size to the zoomed time span
+}
+
+// How a signal is drawn between the points where it was actually logged
+export type FillMode = 'carry' | 'carry-max-age' | 'gap' | 'zero' | 'linear';
+
+export interface SignalFill {
+  mode: FillMode;
+  maxGapMs: number | 'auto'; // Longest gap bridged by 'gap' and 'carry-max-age'; 'auto' derives it from the logging interval
+}
+
+// How a signal is drawn: as a line or bars, or as a state timeline of its distinct values
+export type SignalDisplay = 'chart' | 'timeline';
+
 // Structure for signal definitions
 export interface Signal {
   id: string;
@@ -32,6 +62,24 @@ export interface Signal {
   pattern: RegexPattern;
   color: string;
   visible: boolean;
+  source?: string; // Restricts the signal to points from a single log source
+  aggregation?: SignalAggregation; // Drawn point by point when unset
+  fill?: SignalFill; // Breaks the line at gaps much longer than the usual interval when unset
+  expression?: string; // Set for derived signals, computed from other signals instead of extracted
+  display?: SignalDisplay; // Drawn on the chart when unset
+}
+
+// Display settings of one string value of a categorical signal
+export interface CategoryValue {
+  value: string;
+  label?: string; // Shown instead of the value on axes and in legends
+  color?: string;
+}
+
+// Persisted order of the string values of a pattern; a value is charted as its 1-based position
+export interface CategoryMapping {
+  name: string; // Pattern name the mapping applies to, in every file
+  values: CategoryValue[];
 }
 
 // Structure for chart panels
@@ -42,19 +90,31 @@ export interface ChartPanel {
 
 // Component props
 export interface LogChartProps {
-  logContent: string;
+  logSources: LogSource[];
   patterns: RegexPattern[];
+  timestampFormat?: string; // Timestamp format id, or "auto" to detect from the content
+  ingestion?: IngestionConfig; // Text or JSON-lines parsing; defaults to text
+  onAddPattern?: (pattern: RegexPattern) => void; // Adds a pattern to the selection, e.g. to chart an error template
   className?: string;
 }
 
+// How charts are drawn: Recharts SVG, or a canvas that handles far more points
+export type ChartRenderer = 'svg' | 'canvas';
+
 export interface ChartDisplayProps {
   containerRef: React.RefObject<HTMLDivElement>;
   chartType: 'line' | 'bar';
-  visibleChartData: any[];
+  visibleChartData: any[]; // Every point in range; aggregation and state timelines read it before downsampling
   zoomDomain: { start?: number, end?: number };
   signals: Signal[];
   onBrushChange: (brushData: any) => void;
   timeSegment?: { start: number; end: number }; // Optional time segment for multi-chart display
+  categoryMappings?: Record<string, CategoryMapping>; // Order, labels and colors of string values by pattern name
+  onPointClick?: (timestamp: number) => void; // Called with the time of a clicked point
+  cursorTimestamp?: number; // Time marked with a cursor line, e.g. of a hovered log line
+  searchHitTimes?: Float64Array; // Sorted times of log search hits, drawn as a density strip under the chart
+  maxPoints?: number; // Points drawn once signals are aggregated and filled; more are downsampled
+  isFilled?: boolean; // Raw signals were already filled over a wider range, e.g. across time segments
 }
 
 export interface PanelTabsManagerProps {
@@ -67,6 +127,13 @@ export interface PanelTabsManagerProps {
   onAddSignal: (panelId: string, signalId: string) => void;
   onRemoveSignal: (panelId: string, signalId: string) => void;
   onToggleSignalVisibility: (signalId: string) => void;
+  onSignalAggregationChange: (signalId: string, aggregation: SignalAggregation) => void;
+  onSignalFillChange: (signalId: string, fill: SignalFill) => void;
+  onSignalDisplayChange: (signalId: string, display: SignalDisplay) => void;
+  onSaveDerivedSignal: (name: string, expression: string, signalId?: string) => void;
+  onRemoveDerivedSignal: (signalId: string) => void;
+  categoryMappings: Record<string, CategoryMapping>;
+  onSaveCategoryMapping: (mapping: CategoryMapping) => void;
   renderChartDisplay: (panelId: string) => React.ReactNode;
 }
 
@@ -85,6 +152,7 @@ export interface ChartControlsProps {
   customTimeRange: { start?: Date; end?: Date };
   maxDisplayPoints: number;
   chartType: 'line' | 'bar';
+  chartRenderer: ChartRenderer;
   zoomDomain: { start?: number; end?: number };
   formattedChartData: any[];
   currentPage: number;
@@ -95,14 +163,11 @@ export interface ChartControlsProps {
   onNavigateTime: (direction: 'forward' | 'backward') => void;
   onMaxPointsChange: (value: number[]) => void;
   onChartTypeChange: (type: 'line' | 'bar') => void;
+  onChartRendererChange: (renderer: ChartRenderer) => void;
   onZoomReset: () => void;
   renderPaginationControls: () => React.ReactNode;
 }
 
-export interface LogSampleProps {
-  rawLogSample: string[];
-}
-
 export interface TimeNavigationControlsProps {
   timeNavigation: 'preset' | 'pagination' | 'window' | 'segmented';
   timeRangePreset: string;
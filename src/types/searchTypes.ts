@@ -0,0 +1,25 @@
+// Full-text search across the lines of the loaded log sources
+
+// Plain text matches literally; regex queries use JavaScript syntax
+export type SearchMode = 'text' | 'regex';
+
+export interface LogSearchQuery {
+  query: string;
+  mode: SearchMode; // Also applies to the include and exclude filters
+  caseSensitive: boolean;
+  include: string[]; // Lines must also match every include filter
+  exclude: string[]; // Lines matching any exclude filter are skipped
+}
+
+export interface SearchHit {
+  source: string; // Name of the log source
+  line: number; // 1-based line number in the source
+  text: string; // The line, truncated when very long
+  timestamp?: number; // Time of the line, or of the last timestamped line before it
+}
+
+export interface LogSearchResult {
+  hits: SearchHit[]; // First hits in file order, up to a limit
+  hitCount: number; // Every matching line
+  hitTimes: Float64Array; // Sorted times of every matching line that has one
+}
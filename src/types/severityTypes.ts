@@ -0,0 +1,19 @@
+// Log levels detected on every event while parsing, independent of the selected patterns
+
+// Most severe first; syslog and framework-specific levels are mapped onto these
+export type SeverityLevel = 'fatal' | 'error' | 'warn' | 'info' | 'debug' | 'trace';
+
+export const SEVERITY_LEVELS: SeverityLevel[] = ['fatal', 'error', 'warn', 'info', 'debug', 'trace'];
+
+export interface SeverityEvent {
+  timestamp: number;
+  source: string; // Name of the log source
+  line: number; // 1-based line in the source
+}
+
+export interface SeverityData {
+  times: Record<SeverityLevel, Float64Array>; // Sorted times of the events of each level
+  unleveled: number; // Events without a recognizable level
+  firstError?: SeverityEvent; // Earliest error or fatal event
+  lastError?: SeverityEvent;
+}
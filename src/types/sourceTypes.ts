@@ -0,0 +1,34 @@
+// Compression applied to a log source's bytes, undone while streaming
+export type LogCompression = 'none' | 'gzip' | 'bzip2' | 'xz';
+
+// A log file ready to be streamed. Only a handle to the bytes is kept,
+// so multi-gigabyte files never have to be loaded into a single string.
+export interface LogSource {
+  id: string;
+  name: string;
+  blob: Blob;
+  compression: LogCompression;
+  encoding: string; // TextDecoder label
+  size: number;
+}
+
+// How the lines of a log source are interpreted
+export type LogFormat = 'text' | 'jsonl';
+
+// How physical lines of text logs are grouped into events: every line on its own,
+// continuation lines attached to the previous timestamped line, or a custom start regex
+export type MultilineMode = 'off' | 'timestamp' | 'pattern';
+
+export interface IngestionConfig {
+  format: LogFormat;
+  timestampField: string; // Field path of the timestamp in JSON-lines mode
+  multiline: MultilineMode; // Only applies to text logs
+  eventStartPattern: string; // Regex matching the first line of an event in 'pattern' mode
+}
+
+export const DEFAULT_INGESTION_CONFIG: IngestionConfig = {
+  format: 'text',
+  timestampField: 'timestamp',
+  multiline: 'timestamp',
+  eventStartPattern: ''
+};
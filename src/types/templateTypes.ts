@@ -0,0 +1,17 @@
+// Message templates mined from error events while parsing
+
+export interface LogTemplate {
+  id: number;
+  template: string; // Tokens joined by spaces; <*>, <NUM>, <IP>, <HEX> and <UUID> mark variable parts
+  count: number;
+  firstSeen: number;
+  lastSeen: number;
+  example: string; // First message that produced the template
+  sparkline: number[]; // Events per equal slice of the parsed time range
+}
+
+export interface TemplateMiningResult {
+  templates: LogTemplate[]; // Most frequent first
+  minedCount: number; // Error and fatal events clustered into templates
+  unclustered: number; // Events left out once the template limit was reached
+}
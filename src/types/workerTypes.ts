@@ -0,0 +1,71 @@
+import { RegexPattern } from "@/components/regex/RegexManager";
+import { IngestionConfig, LogSource } from "@/types/sourceTypes";
+import { LogfmtKeyInfo } from "@/utils/logfmt";
+import { LogSearchQuery, LogSearchResult } from "@/types/searchTypes";
+import { SeverityData } from "@/types/severityTypes";
+import { TemplateMiningResult } from "@/types/templateTypes";
+
+// Messages sent from the main thread to the log parser worker
+export interface ParseLogRequest {
+  type: 'parse';
+  sources: LogSource[];
+  patterns: RegexPattern[];
+  timestampFormatId: string;
+  ingestion: IngestionConfig;
+  categoryOrders: Record<string, string[]>; // Saved order of string values per pattern name
+}
+
+// Scans whole sources for logfmt keys
+export interface DiscoverKeysRequest {
+  type: 'discover-keys';
+  sources: LogSource[];
+}
+
+// Searches every line of the sources
+export interface SearchLogRequest {
+  type: 'search';
+  sources: LogSource[];
+  query: LogSearchQuery;
+  timestampFormatId: string;
+  ingestion: IngestionConfig;
+}
+
+export type ParserWorkerRequest = ParseLogRequest | DiscoverKeysRequest | SearchLogRequest;
+
+// Messages streamed back from the log parser worker
+export interface ParseProgressMessage {
+  type: 'progress';
+  status: string;
+  progress: number;
+  dataPoints: number;
+}
+
+export interface ParseResultMessage {
+  type: 'result';
+  formattedData: Record<string, number | string>[];
+  stringValueMap: Record<string, Record<string, number>>;
+  severity: SeverityData;
+  errorTemplates: TemplateMiningResult;
+}
+
+export interface KeysResultMessage {
+  type: 'keys';
+  keys: LogfmtKeyInfo[];
+  lineCount: number;
+}
+
+export interface SearchResultMessage extends LogSearchResult {
+  type: 'search-result';
+}
+
+export interface ParseErrorMessage {
+  type: 'error';
+  message: string;
+}
+
+export type ParserWorkerMessage =
+  | ParseProgressMessage
+  | ParseResultMessage
+  | KeysResultMessage
+  | SearchResultMessage
+  | ParseErrorMessage;
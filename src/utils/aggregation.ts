@@ -0,0 +1,162 @@
+/**
+ * Time-bucket aggregation of value signals for display. Aggregated series are
+ * written under their own key, so raw and aggregated signals can share a chart.
+ */
+import { AggregationFunction, Signal } from "@/types/chartTypes";
+
+export const AGGREGATION_FUNCTIONS: { value: AggregationFunction; label: string }[] = [
+  { value: 'none', label: "Raw values" },
+  { value: 'avg', label: "Average" },
+  { value: 'min', label: "Minimum" },
+  { value: 'max', label: "Maximum" },
+  { value: 'sum', label: "Sum" },
+  { value: 'count', label: "Count" },
+  { value: 'p50', label: "Median (p50)" },
+  { value: 'p90', label: "p90" },
+  { value: 'p99', label: "p99" },
+  { value: 'stddev', label: "Standard deviation" }
+];
+
+export const AGGREGATION_BUCKETS: { value: number; label: string }[] = [
+  { value: 1000, label: "1s" },
+  { value: 10 * 1000, label: "10s" },
+  { value: 60 * 1000, label: "1m" },
+  { value: 5 * 60 * 1000, label: "5m" },
+  { value: 15 * 60 * 1000, label: "15m" },
+  { value: 60 * 60 * 1000, label: "1h" },
+  { value: 24 * 60 * 60 * 1000, label: "1d" }
+];
+
+// Automatic buckets are picked from these sizes to give roughly this many buckets
+const AUTO_BUCKET_TARGET = 120;
+const AUTO_BUCKET_SIZES = [
+  1000, 2000, 5000, 10000, 15000, 30000,
+  60000, 2 * 60000, 5 * 60000, 10 * 60000, 15 * 60000, 30 * 60000,
+  3600000, 2 * 3600000, 3 * 3600000, 6 * 3600000, 12 * 3600000, 86400000
+];
+
+/**
+ * Whether a signal is drawn aggregated instead of point by point
+ */
+export const isAggregated = (signal: Signal): boolean => {
+  return !!signal.aggregation && signal.aggregation.fn !== 'none';
+};
+
+/**
+ * Smallest round bucket size that splits a time span into at most ~120 buckets
+ */
+export const getAutoBucketMs = (spanMs: number): number => {
+  const target = spanMs / AUTO_BUCKET_TARGET;
+  return AUTO_BUCKET_SIZES.find(size => size >= target) || AUTO_BUCKET_SIZES[AUTO_BUCKET_SIZES.length - 1];
+};
+
+export const getBucketMs = (signal: Signal, spanMs: number): number => {
+  const bucketMs = signal.aggregation?.bucketMs;
+  return bucketMs === undefined || bucketMs === 'auto' ? getAutoBucketMs(spanMs) : bucketMs;
+};
+
+/**
+ * Short label of a bucket size, e.g. "5m" or "2h"
+ */
+export const formatBucketMs = (bucketMs: number): string => {
+  if (bucketMs % 86400000 === 0) return `${bucketMs / 86400000}d`;
+  if (bucketMs % 3600000 === 0) return `${bucketMs / 3600000}h`;
+  if (bucketMs % 60000 === 0) return `${bucketMs / 60000}m`;
+  return `${bucketMs / 1000}s`;
+};
+
+/**
+ * Key under which the aggregated series of a signal is stored in chart points
+ */
+export const getAggregateKey = (signal: Signal): string => {
+  return `${signal.name}|${signal.aggregation?.fn}`;
+};
+
+/**
+ * Legend label of an aggregated signal, e.g. "Latency (p99 / 1m)"
+ */
+export const getAggregateLabel = (signal: Signal, bucketMs: number): string => {
+  return `${signal.name} (${signal.aggregation?.fn} / ${formatBucketMs(bucketMs)})`;
+};
+
+// Nearest-rank percentile of sorted values
+const percentile = (sorted: number[], p: number): number => {
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length - 1, Math.max(0, rank - 1))];
+};
+
+/**
+ * Reduces the values of one bucket with an aggregation function
+ */
+export const aggregateValues = (values: number[], fn: AggregationFunction): number => {
+  switch (fn) {
+    case 'min':
+      return values.reduce((min, value) => value < min ? value : min, values[0]);
+    case 'max':
+      return values.reduce((max, value) => value > max ? value : max, values[0]);
+    case 'sum':
+      return values.reduce((sum, value) => sum + value, 0);
+    case 'count':
+      return values.length;
+    case 'p50':
+    case 'p90':
+    case 'p99': {
+      const sorted = [...values].sort((a, b) => a - b);
+      return percentile(sorted, Number(fn.substring(1)));
+    }
+    case 'stddev': {
+      const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+      const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+      return Math.sqrt(variance);
+    }
+    default:
+      return values.reduce((sum, value) => sum + value, 0) / values.length;
+  }
+};
+
+/**
+ * Adds one point per bucket holding the aggregated series of every aggregated
+ * signal. Raw points are only kept while some signal is still drawn raw.
+ */
+export const aggregateChartData = (
+  data: Record<string, number | string>[],
+  signals: Signal[],
+  spanMs: number
+): Record<string, number | string>[] => {
+  const aggregatedSignals = signals.filter(isAggregated);
+  if (aggregatedSignals.length === 0 || data.length === 0) return data;
+
+  const bucketPoints = new Map<number, Record<string, number | string>>();
+
+  aggregatedSignals.forEach(signal => {
+    const bucketMs = getBucketMs(signal, spanMs);
+    const buckets = new Map<number, number[]>();
+
+    data.forEach(point => {
+      const value = point[signal.name];
+      if (typeof value !== 'number' || !isFinite(value)) return;
+
+      const bucket = Math.floor(Number(point.timestamp) / bucketMs) * bucketMs;
+      const values = buckets.get(bucket);
+      if (values) {
+        values.push(value);
+      } else {
+        buckets.set(bucket, [value]);
+      }
+    });
+
+    const key = getAggregateKey(signal);
+    buckets.forEach((values, bucket) => {
+      let point = bucketPoints.get(bucket);
+      if (!point) {
+        point = { timestamp: bucket };
+        bucketPoints.set(bucket, point);
+      }
+      point[key] = aggregateValues(values, signal.aggregation!.fn);
+    });
+  });
+
+  const aggregatedData = Array.from(bucketPoints.values());
+  const merged = aggregatedSignals.length === signals.length ? aggregatedData : [...data, ...aggregatedData];
+  return merged.sort((a, b) => Number(a.timestamp) - Number(b.timestamp));
+};
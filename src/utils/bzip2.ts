@@ -0,0 +1,323 @@
+/**
+ * Pure TypeScript bzip2 decoder. Concatenated streams (as written by pbzip2)
+ * are decoded one after another; decoded blocks are emitted as they complete.
+ * Block CRCs are not verified.
+ */
+import { DecoderOutput, InputBuffer } from "@/utils/lzma";
+
+const BLOCK_MAGIC_HI = 0x314159;
+const BLOCK_MAGIC_LO = 0x265359;
+const END_MAGIC_HI = 0x177245;
+const END_MAGIC_LO = 0x385090;
+const MAX_GROUPS = 6;
+const MAX_CODE_LEN = 20;
+const GROUP_SIZE = 50;
+const MAX_SELECTORS = 18002;
+// Upper bound on a block's compressed size: 900k symbols of at most 20 bits, plus its tables
+const MAX_BLOCK_INPUT = 3 * 1024 * 1024;
+
+class BitReader {
+  private pos = 0;
+  private bitBuffer = 0;
+  private bitCount = 0;
+
+  constructor(private input: InputBuffer) {}
+
+  get position(): number {
+    return this.pos;
+  }
+
+  hasMoreBytes(): boolean {
+    return this.pos < this.input.end;
+  }
+
+  // Reads up to 24 bits, most significant first
+  read(count: number): number {
+    while (this.bitCount < count) {
+      if (this.pos >= this.input.end) {
+        throw new Error("Unexpected end of bzip2 data");
+      }
+      this.bitBuffer = ((this.bitBuffer << 8) | this.input.byte(this.pos++)) & 0xFFFFFFFF;
+      this.bitCount += 8;
+    }
+    this.bitCount -= count;
+    return (this.bitBuffer >>> this.bitCount) & ((1 << count) - 1);
+  }
+
+  alignToByte(): void {
+    this.bitCount -= this.bitCount % 8;
+  }
+}
+
+interface HuffmanTable {
+  limit: Int32Array;
+  base: Int32Array;
+  perm: Int32Array;
+  minLen: number;
+}
+
+const createHuffmanTable = (lengths: Uint8Array, alphaSize: number): HuffmanTable => {
+  let minLen = MAX_CODE_LEN;
+  let maxLen = 0;
+  for (let i = 0; i < alphaSize; i++) {
+    minLen = Math.min(minLen, lengths[i]);
+    maxLen = Math.max(maxLen, lengths[i]);
+  }
+
+  const perm = new Int32Array(alphaSize);
+  let pp = 0;
+  for (let len = minLen; len <= maxLen; len++) {
+    for (let symbol = 0; symbol < alphaSize; symbol++) {
+      if (lengths[symbol] === len) perm[pp++] = symbol;
+    }
+  }
+
+  const base = new Int32Array(MAX_CODE_LEN + 2);
+  for (let i = 0; i < alphaSize; i++) base[lengths[i] + 1]++;
+  for (let i = 1; i < base.length; i++) base[i] += base[i - 1];
+
+  const limit = new Int32Array(MAX_CODE_LEN + 1).fill(-1);
+  let code = 0;
+  for (let len = minLen; len <= maxLen; len++) {
+    code += base[len + 1] - base[len];
+    limit[len] = code - 1;
+    code <<= 1;
+  }
+  for (let len = minLen + 1; len <= maxLen; len++) {
+    base[len] = ((limit[len - 1] + 1) << 1) - base[len];
+  }
+
+  return { limit, base, perm, minLen };
+};
+
+const decodeSymbol = (reader: BitReader, table: HuffmanTable): number => {
+  let len = table.minLen;
+  let code = reader.read(len);
+  while (len <= MAX_CODE_LEN && code > table.limit[len]) {
+    len++;
+    code = (code << 1) | reader.read(1);
+  }
+  if (len > MAX_CODE_LEN) {
+    throw new Error("Corrupted bzip2 data");
+  }
+  return table.perm[code - table.base[len]];
+};
+
+/**
+ * Decodes one block and returns its bytes after undoing the initial run-length encoding
+ */
+const decodeBlock = (reader: BitReader, blockSize: number, tt: Uint32Array): Uint8Array => {
+  reader.read(16);
+  reader.read(16); // block CRC
+  if (reader.read(1)) {
+    throw new Error("Randomised bzip2 blocks are not supported");
+  }
+  const origPtr = reader.read(24);
+
+  // Symbol map: which byte values occur in the block
+  const seqToUnseq: number[] = [];
+  const inUse16 = reader.read(16);
+  for (let i = 0; i < 16; i++) {
+    if (inUse16 & (0x8000 >>> i)) {
+      const inUse = reader.read(16);
+      for (let j = 0; j < 16; j++) {
+        if (inUse & (0x8000 >>> j)) seqToUnseq.push(i * 16 + j);
+      }
+    }
+  }
+  if (seqToUnseq.length === 0) {
+    throw new Error("Corrupted bzip2 data");
+  }
+  const alphaSize = seqToUnseq.length + 2;
+
+  const groupCount = reader.read(3);
+  const selectorCount = reader.read(15);
+  if (groupCount < 2 || groupCount > MAX_GROUPS || selectorCount < 1) {
+    throw new Error("Corrupted bzip2 data");
+  }
+
+  const groupMtf = Array.from({ length: groupCount }, (_, i) => i);
+  const selectors = new Uint8Array(Math.min(selectorCount, MAX_SELECTORS));
+  for (let i = 0; i < selectorCount; i++) {
+    let j = 0;
+    while (reader.read(1)) {
+      if (++j >= groupCount) throw new Error("Corrupted bzip2 data");
+    }
+    const group = groupMtf[j];
+    groupMtf.splice(j, 1);
+    groupMtf.unshift(group);
+    if (i < selectors.length) selectors[i] = group;
+  }
+
+  const tables: HuffmanTable[] = [];
+  for (let t = 0; t < groupCount; t++) {
+    const lengths = new Uint8Array(alphaSize);
+    let current = reader.read(5);
+    for (let i = 0; i < alphaSize; i++) {
+      while (true) {
+        if (current < 1 || current > MAX_CODE_LEN) throw new Error("Corrupted bzip2 data");
+        if (!reader.read(1)) break;
+        current += reader.read(1) ? -1 : 1;
+      }
+      lengths[i] = current;
+    }
+    tables.push(createHuffmanTable(lengths, alphaSize));
+  }
+
+  // Huffman + MTF/RLE2 decoding into tt
+  const endOfBlock = alphaSize - 1;
+  const mtf = Array.from({ length: 256 }, (_, i) => i);
+  const counts = new Int32Array(256);
+  let count = 0;
+  let selectorIndex = 0;
+  let groupRemaining = 0;
+  let table = tables[0];
+  let runLength = 0;
+  let runWeight = 1;
+
+  const nextSymbol = (): number => {
+    if (groupRemaining === 0) {
+      if (selectorIndex >= selectors.length) throw new Error("Corrupted bzip2 data");
+      table = tables[selectors[selectorIndex++]];
+      groupRemaining = GROUP_SIZE;
+    }
+    groupRemaining--;
+    return decodeSymbol(reader, table);
+  };
+
+  const flushRun = () => {
+    if (runLength === 0) return;
+    const byte = seqToUnseq[mtf[0]];
+    if (count + runLength > blockSize) throw new Error("Corrupted bzip2 data");
+    counts[byte] += runLength;
+    tt.fill(byte, count, count + runLength);
+    count += runLength;
+    runLength = 0;
+    runWeight = 1;
+  };
+
+  while (true) {
+    const symbol = nextSymbol();
+
+    if (symbol <= 1) {
+      // RUNA / RUNB encode the repeat count of the front symbol in bijective base 2
+      runLength += (symbol + 1) * runWeight;
+      runWeight <<= 1;
+      continue;
+    }
+
+    flushRun();
+    if (symbol === endOfBlock) break;
+
+    const index = symbol - 1;
+    const value = mtf[index];
+    mtf.splice(index, 1);
+    mtf.unshift(value);
+
+    const byte = seqToUnseq[value];
+    if (count >= blockSize) throw new Error("Corrupted bzip2 data");
+    counts[byte]++;
+    tt[count++] = byte;
+  }
+
+  if (origPtr >= count) {
+    throw new Error("Corrupted bzip2 data");
+  }
+
+  // Inverse Burrows-Wheeler transform
+  let sum = 0;
+  const cumulative = new Int32Array(256);
+  for (let i = 0; i < 256; i++) {
+    cumulative[i] = sum;
+    sum += counts[i];
+  }
+  for (let i = 0; i < count; i++) {
+    const byte = tt[i] & 0xFF;
+    tt[cumulative[byte]++] |= i << 8;
+  }
+
+  // Undo the initial run-length encoding (4 equal bytes followed by a repeat count)
+  let output = new Uint8Array(count + (count >>> 2));
+  let outPos = 0;
+  let pos = tt[origPtr] >>> 8;
+  let last = -1;
+  let repeat = 0;
+
+  const ensureCapacity = (extra: number) => {
+    if (outPos + extra > output.length) {
+      const grown = new Uint8Array(Math.max(output.length * 2, outPos + extra));
+      grown.set(output);
+      output = grown;
+    }
+  };
+
+  for (let i = 0; i < count; i++) {
+    const entry = tt[pos];
+    const byte = entry & 0xFF;
+    pos = entry >>> 8;
+
+    if (repeat === 4) {
+      ensureCapacity(byte);
+      output.fill(last, outPos, outPos + byte);
+      outPos += byte;
+      repeat = 0;
+      last = -1;
+      continue;
+    }
+
+    repeat = byte === last ? repeat + 1 : 1;
+    last = byte;
+    ensureCapacity(1);
+    output[outPos++] = byte;
+  }
+
+  return output.subarray(0, outPos);
+};
+
+/**
+ * Decodes bzip2 data one block at a time. Block sizes aren't stored, so
+ * enough input for the largest possible block is buffered before each one.
+ */
+export function* decodeBzip2(input: InputBuffer): Generator<DecoderOutput> {
+  const reader = new BitReader(input);
+  let streamCount = 0;
+
+  while (true) {
+    yield* input.require(reader.position, 4);
+    if (!reader.hasMoreBytes()) break;
+
+    if (reader.read(8) !== 0x42 || reader.read(8) !== 0x5A || reader.read(8) !== 0x68) {
+      // Trailing garbage after a complete stream is ignored, like bzip2 does
+      if (streamCount > 0) return;
+      throw new Error("Not a bzip2 file");
+    }
+
+    const level = reader.read(8) - 0x30;
+    if (level < 1 || level > 9) {
+      throw new Error("Invalid bzip2 block size");
+    }
+    const blockSize = level * 100000;
+    const tt = new Uint32Array(blockSize);
+
+    while (true) {
+      yield* input.require(reader.position, MAX_BLOCK_INPUT);
+      const magicHi = reader.read(24);
+      const magicLo = reader.read(24);
+
+      if (magicHi === BLOCK_MAGIC_HI && magicLo === BLOCK_MAGIC_LO) {
+        const chunk = decodeBlock(reader, blockSize, tt);
+        input.release(reader.position);
+        yield { chunk, inputPos: reader.position };
+      } else if (magicHi === END_MAGIC_HI && magicLo === END_MAGIC_LO) {
+        reader.read(16);
+        reader.read(16); // combined CRC
+        reader.alignToByte();
+        break;
+      } else {
+        throw new Error("Corrupted bzip2 data");
+      }
+    }
+
+    streamCount++;
+  }
+}
@@ -0,0 +1,193 @@
+/**
+ * Canvas chart rendering: series stored as typed arrays and reduced to a few
+ * points per pixel column before drawing, so the cost of a frame depends on the
+ * width of the chart rather than on the number of points
+ */
+import { format } from "date-fns";
+import { Signal } from "@/types/chartTypes";
+import { isAggregated } from "@/utils/aggregation";
+import { getSeriesKey, getSeriesLabel } from "@/utils/chartSeries";
+
+export interface SeriesColumn {
+  key: string;
+  label: string;
+  color: string;
+  xs: Float64Array; // Timestamps, ascending
+  ys: Float64Array; // Values; NaN where the line breaks
+}
+
+export interface PlotPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * Extracts the series of every signal from chart points. Raw signals break at
+ * points without a value, matching the SVG chart; aggregated signals connect
+ * their buckets.
+ */
+export const buildSeriesColumns = (
+  data: Record<string, number | string>[],
+  signals: Signal[],
+  spanMs: number
+): SeriesColumn[] => {
+  return signals.map(signal => {
+    const key = getSeriesKey(signal);
+    const connect = isAggregated(signal);
+    const xs: number[] = [];
+    const ys: number[] = [];
+
+    data.forEach(point => {
+      const value = point[key];
+      if (typeof value === 'number' && isFinite(value)) {
+        xs.push(Number(point.timestamp));
+        ys.push(value);
+      } else if (!connect && ys.length > 0 && !isNaN(ys[ys.length - 1])) {
+        xs.push(Number(point.timestamp));
+        ys.push(NaN);
+      }
+    });
+
+    return {
+      key,
+      label: getSeriesLabel(signal, spanMs),
+      color: signal.color,
+      xs: Float64Array.from(xs),
+      ys: Float64Array.from(ys)
+    };
+  });
+};
+
+/**
+ * Index of the first timestamp at or after a time
+ */
+export const lowerBound = (xs: Float64Array, x: number): number => {
+  let low = 0;
+  let high = xs.length;
+  while (low < high) {
+    const middle = (low + high) >>> 1;
+    if (xs[middle] < x) low = middle + 1;
+    else high = middle;
+  }
+  return low;
+};
+
+/**
+ * Reduces the part of a series inside a time range to the first, lowest,
+ * highest and last value of every pixel column. Lines drawn through these
+ * points look the same as lines through all of them. Returns one polyline per
+ * unbroken stretch, including a point on either side of the range.
+ */
+export const decimateColumn = (column: SeriesColumn, start: number, end: number, width: number): PlotPoint[][] => {
+  const { xs, ys } = column;
+  const from = Math.max(lowerBound(xs, start) - 1, 0);
+  const to = Math.min(lowerBound(xs, end) + 1, xs.length);
+  const msPerPixel = (end - start) / Math.max(width, 1);
+
+  const lines: PlotPoint[][] = [];
+  let line: PlotPoint[] = [];
+  let pixel = NaN;
+  let first: PlotPoint | null = null;
+  let low: PlotPoint | null = null;
+  let high: PlotPoint | null = null;
+  let last: PlotPoint | null = null;
+
+  const flush = () => {
+    if (!first || !low || !high || !last) return;
+    const ordered = low.x <= high.x ? [first, low, high, last] : [first, high, low, last];
+    ordered.forEach(point => {
+      if (line[line.length - 1] !== point) line.push(point);
+    });
+    first = low = high = last = null;
+  };
+
+  for (let i = from; i < to; i++) {
+    const y = ys[i];
+    if (isNaN(y)) {
+      flush();
+      if (line.length > 0) lines.push(line);
+      line = [];
+      pixel = NaN;
+      continue;
+    }
+
+    const point = { x: xs[i], y };
+    const column = Math.floor((point.x - start) / msPerPixel);
+    if (column !== pixel) {
+      flush();
+      pixel = column;
+      first = low = high = point;
+    }
+    if (y < low!.y) low = point;
+    if (y > high!.y) high = point;
+    last = point;
+  }
+  flush();
+  if (line.length > 0) lines.push(line);
+  return lines;
+};
+
+/**
+ * Value range of the parts of series inside a time range
+ */
+export const getValueRange = (columns: SeriesColumn[], start: number, end: number): { min: number; max: number } => {
+  let min = Infinity;
+  let max = -Infinity;
+  columns.forEach(({ xs, ys }) => {
+    const to = lowerBound(xs, end + 1);
+    for (let i = lowerBound(xs, start); i < to; i++) {
+      if (ys[i] < min) min = ys[i];
+      if (ys[i] > max) max = ys[i];
+    }
+  });
+  if (min > max) return { min: 0, max: 1 };
+  if (min === max) return { min: min - 1, max: max + 1 };
+  return { min, max };
+};
+
+/**
+ * About `count` round values covering a range, e.g. 0, 20, 40
+ */
+export const getValueTicks = (min: number, max: number, count: number): number[] => {
+  const rough = (max - min) / Math.max(count, 1);
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rough)));
+  const step = [1, 2, 5, 10].map(factor => factor * magnitude).find(candidate => candidate >= rough) || rough;
+
+  const ticks: number[] = [];
+  for (let tick = Math.ceil(min / step) * step; tick <= max; tick += step) {
+    ticks.push(Number(tick.toPrecision(12)));
+  }
+  return ticks;
+};
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+const TIME_STEPS = [
+  SECOND, 5 * SECOND, 15 * SECOND, 30 * SECOND,
+  MINUTE, 5 * MINUTE, 15 * MINUTE, 30 * MINUTE,
+  HOUR, 3 * HOUR, 6 * HOUR, 12 * HOUR,
+  DAY, 7 * DAY, 30 * DAY
+];
+
+/**
+ * About `count` times on round seconds, minutes, hours or days, in local time
+ */
+export const getTimeTicks = (start: number, end: number, count: number): { ticks: number[]; stepMs: number } => {
+  const rough = (end - start) / Math.max(count, 1);
+  const stepMs = TIME_STEPS.find(step => step >= rough) || Math.ceil(rough / DAY) * DAY;
+  const offset = new Date(start).getTimezoneOffset() * MINUTE;
+
+  const ticks: number[] = [];
+  for (let tick = Math.ceil((start - offset) / stepMs) * stepMs + offset; tick <= end; tick += stepMs) {
+    ticks.push(tick);
+  }
+  return { ticks, stepMs };
+};
+
+export const formatTimeTick = (timestamp: number, stepMs: number): string => {
+  if (stepMs < MINUTE) return format(timestamp, 'HH:mm:ss');
+  if (stepMs < DAY) return format(timestamp, 'HH:mm');
+  return format(timestamp, 'MMM dd');
+};
@@ -0,0 +1,82 @@
+/**
+ * Categorical values: string values of a pattern are charted as their position
+ * in a persisted, user-editable order, so the axis keeps its meaning across files
+ */
+import { CHART_COLORS, CategoryMapping } from "@/types/chartTypes";
+
+/**
+ * Ordered values of every mapping, as sent to the parser
+ */
+export const getCategoryOrders = (mappings: Record<string, CategoryMapping>): Record<string, string[]> => {
+  const orders: Record<string, string[]> = {};
+  Object.values(mappings).forEach(mapping => {
+    orders[mapping.name] = mapping.values.map(category => category.value);
+  });
+  return orders;
+};
+
+/**
+ * Appends values seen in the data that a mapping does not know yet, in the
+ * order the parser numbered them. Returns the mapping itself when nothing is new.
+ */
+export const mergeObservedValues = (
+  name: string,
+  mapping: CategoryMapping | undefined,
+  valueMap: Record<string, number>
+): CategoryMapping => {
+  const known = new Set(mapping?.values.map(category => category.value));
+  const observed = Object.keys(valueMap)
+    .filter(value => !known.has(value))
+    .sort((a, b) => valueMap[a] - valueMap[b]);
+
+  if (mapping && observed.length === 0) return mapping;
+  return {
+    name,
+    values: [...(mapping?.values || []), ...observed.map(value => ({ value }))]
+  };
+};
+
+/**
+ * Chart number of every value of a mapping: its 1-based position
+ */
+export const toValueMap = (mapping: CategoryMapping): Record<string, number> => {
+  const valueMap: Record<string, number> = {};
+  mapping.values.forEach((category, index) => {
+    valueMap[category.value] = index + 1;
+  });
+  return valueMap;
+};
+
+/**
+ * Renumbers the charted values of categorical series after their order changed.
+ * Only points of the given series that carry an original string are copied.
+ */
+export const remapCategories = <T extends Record<string, number | string>>(
+  data: T[],
+  seriesNames: string[],
+  valueMap: Record<string, number>
+): T[] => {
+  return data.map(point => {
+    let remapped: Record<string, number | string> | null = null;
+    seriesNames.forEach(series => {
+      const original = point[`${series}_original`];
+      if (typeof original !== 'string' || valueMap[original] === undefined) return;
+      if (!remapped) remapped = { ...point };
+      remapped[series] = valueMap[original];
+    });
+    return (remapped || point) as T;
+  });
+};
+
+export const getCategoryLabel = (mapping: CategoryMapping | undefined, value: string): string => {
+  return mapping?.values.find(category => category.value === value)?.label || value;
+};
+
+/**
+ * Color of a value: the user's choice, otherwise one fixed by its position
+ */
+export const getCategoryColor = (mapping: CategoryMapping, value: string): string | undefined => {
+  const index = mapping.values.findIndex(category => category.value === value);
+  if (index < 0) return undefined;
+  return mapping.values[index].color || CHART_COLORS[index % CHART_COLORS.length];
+};
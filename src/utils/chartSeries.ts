@@ -0,0 +1,64 @@
+/**
+ * How signals map to the series drawn on a chart: their data keys, names,
+ * value formatting and the labeling of the value axis. Shared by every renderer.
+ */
+import { CategoryMapping, CategoryValue, Signal } from "@/types/chartTypes";
+import { getAggregateKey, getAggregateLabel, getBucketMs, isAggregated } from "@/utils/aggregation";
+import { formatUnitValue } from "@/utils/units";
+
+/**
+ * Data key a signal is drawn under, raw or aggregated
+ */
+export const getSeriesKey = (signal: Signal): string => {
+  return isAggregated(signal) ? getAggregateKey(signal) : signal.name;
+};
+
+export const getSeriesLabel = (signal: Signal, spanMs: number): string => {
+  return isAggregated(signal) ? getAggregateLabel(signal, getBucketMs(signal, spanMs)) : signal.name;
+};
+
+export const findSignal = (signals: Signal[], dataKey: string): Signal | undefined => {
+  return signals.find(signal => getSeriesKey(signal) === dataKey);
+};
+
+/**
+ * Formats a value in the unit of the signal drawn under a data key; counts of values have no unit
+ */
+export const formatSignalValue = (signals: Signal[], dataKey: string, value: number): string => {
+  const signal = findSignal(signals, dataKey);
+  if (!signal?.pattern.unit || signal.aggregation?.fn === 'count') return String(value);
+  return formatUnitValue(value, signal.pattern.unit, signal.pattern.unitLabel);
+};
+
+export interface ValueAxis {
+  categories?: CategoryValue[]; // Values labeled at their positions 1..N
+  format?: (value: number) => string;
+}
+
+/**
+ * Labeling of the value axis: string values when every raw signal on the chart
+ * shares one mapping, otherwise units when every signal uses the same one
+ */
+export const getValueAxis = (signals: Signal[], categoryMappings: Record<string, CategoryMapping>): ValueAxis => {
+  const axisSignal = signals[0];
+  if (!axisSignal) return {};
+
+  const mapping = !isAggregated(axisSignal) ? categoryMappings[axisSignal.pattern.name] : undefined;
+  if (mapping && signals.every(signal => !isAggregated(signal) && signal.pattern.name === axisSignal.pattern.name)) {
+    return {
+      categories: mapping.values,
+      format: (value: number) => {
+        const category = mapping.values[value - 1];
+        return category ? category.label || category.value : '';
+      }
+    };
+  }
+
+  const { unit, unitLabel } = axisSignal.pattern;
+  const sharesUnit = !!unit && signals.every(signal =>
+    signal.pattern.unit === unit &&
+    signal.pattern.unitLabel === unitLabel &&
+    signal.aggregation?.fn !== 'count'
+  );
+  return sharesUnit ? { format: (value: number) => formatUnitValue(value, unit, unitLabel) } : {};
+};
@@ -0,0 +1,404 @@
+/**
+ * Derived signals: series computed from other signals with a small expression
+ * language, e.g. `errors / requests * 100` or `movingAvg(rate(bytes_total), 10)`.
+ * Expressions are parsed into a tree and evaluated over the chart points; no
+ * JavaScript is ever executed.
+ */
+import { Signal } from "@/types/chartTypes";
+
+export interface DerivedDefinition {
+  name: string;
+  expression: string;
+}
+
+type BinaryOperator = '+' | '-' | '*' | '/';
+
+export type ExpressionNode =
+  | { type: 'number'; value: number }
+  | { type: 'signal'; name: string }
+  | { type: 'negate'; operand: ExpressionNode }
+  | { type: 'binary'; operator: BinaryOperator; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'call'; fn: string; args: ExpressionNode[] };
+
+// A signal's values at the chart points that hold one, in point order
+interface PointSeries {
+  indexes: number[];
+  values: number[];
+}
+
+// Intermediate results are point series or constants
+type Series = PointSeries | number;
+
+interface DerivedFunction {
+  signature: string;
+  description: string;
+  params: string[]; // Number-literal parameters after the series argument
+  apply: (series: PointSeries, params: number[], timestamps: number[]) => Series;
+}
+
+const mapPairs = (
+  series: PointSeries,
+  fn: (value: number, previous: number, index: number, previousIndex: number) => number | null
+): Series => {
+  const indexes: number[] = [];
+  const values: number[] = [];
+  for (let i = 1; i < series.values.length; i++) {
+    const value = fn(series.values[i], series.values[i - 1], series.indexes[i], series.indexes[i - 1]);
+    if (value !== null && isFinite(value)) {
+      indexes.push(series.indexes[i]);
+      values.push(value);
+    }
+  }
+  return { indexes, values };
+};
+
+export const DERIVED_FUNCTIONS: Record<string, DerivedFunction> = {
+  rate: {
+    signature: "rate(x)",
+    description: "Per-second increase of a counter; a drop counts as a counter reset",
+    params: [],
+    apply: (series, _, timestamps) => mapPairs(series, (value, previous, index, previousIndex) => {
+      const seconds = (timestamps[index] - timestamps[previousIndex]) / 1000;
+      if (seconds <= 0) return null;
+      return (value >= previous ? value - previous : value) / seconds;
+    })
+  },
+  delta: {
+    signature: "delta(x)",
+    description: "Change since the previous value",
+    params: [],
+    apply: (series) => mapPairs(series, (value, previous) => value - previous)
+  },
+  movingAvg: {
+    signature: "movingAvg(x, n)",
+    description: "Average of the last n values",
+    params: ["n"],
+    apply: (series, [n]) => {
+      const size = Math.max(1, Math.round(n));
+      let sum = 0;
+      const values = series.values.map((value, i) => {
+        sum += value;
+        if (i >= size) sum -= series.values[i - size];
+        return sum / Math.min(i + 1, size);
+      });
+      return { indexes: series.indexes, values };
+    }
+  },
+  ewma: {
+    signature: "ewma(x, alpha)",
+    description: "Exponentially weighted moving average; alpha between 0 and 1 weights the newest value",
+    params: ["alpha"],
+    apply: (series, [alpha]) => {
+      const weight = Math.min(1, Math.max(0, alpha));
+      let average = 0;
+      const values = series.values.map((value, i) => {
+        average = i === 0 ? value : weight * value + (1 - weight) * average;
+        return average;
+      });
+      return { indexes: series.indexes, values };
+    }
+  },
+  clamp: {
+    signature: "clamp(x, min, max)",
+    description: "Limits values to a range",
+    params: ["min", "max"],
+    apply: (series, [min, max]) => ({
+      indexes: series.indexes,
+      values: series.values.map(value => Math.min(max, Math.max(min, value)))
+    })
+  }
+};
+
+// Numbers, bare names like cpu.user, quoted names like "HTTP Status", operators
+const TOKEN_REGEX = /\s*(?:(\d+\.?\d*(?:e[-+]?\d+)?|\.\d+)|([A-Za-z_][\w.]*)|"([^"]*)"|([-+*/(),]))/y;
+
+type Token =
+  | { kind: 'number'; value: number }
+  | { kind: 'name'; value: string; quoted: boolean }
+  | { kind: 'symbol'; value: string };
+
+const tokenize = (expression: string): Token[] => {
+  const tokens: Token[] = [];
+  TOKEN_REGEX.lastIndex = 0;
+  while (TOKEN_REGEX.lastIndex < expression.length) {
+    const start = TOKEN_REGEX.lastIndex;
+    if (expression.slice(start).trim() === "") break;
+
+    const match = TOKEN_REGEX.exec(expression);
+    if (!match) {
+      throw new Error(`Unexpected character "${expression.slice(start).trim()[0]}"`);
+    }
+    if (match[1] !== undefined) tokens.push({ kind: 'number', value: Number(match[1]) });
+    else if (match[2] !== undefined) tokens.push({ kind: 'name', value: match[2], quoted: false });
+    else if (match[3] !== undefined) tokens.push({ kind: 'name', value: match[3], quoted: true });
+    else tokens.push({ kind: 'symbol', value: match[4] });
+  }
+  return tokens;
+};
+
+/**
+ * Parses an expression, throwing an error that describes the first problem
+ */
+export const parseExpression = (expression: string): ExpressionNode => {
+  const tokens = tokenize(expression);
+  let position = 0;
+
+  const peek = (): Token | undefined => tokens[position];
+  const isSymbol = (symbol: string) => peek()?.kind === 'symbol' && peek()!.value === symbol;
+  const expect = (symbol: string) => {
+    if (!isSymbol(symbol)) throw new Error(`Expected "${symbol}"`);
+    position++;
+  };
+
+  const parseSum = (): ExpressionNode => {
+    let node = parseProduct();
+    while (isSymbol('+') || isSymbol('-')) {
+      const operator = tokens[position++].value as BinaryOperator;
+      node = { type: 'binary', operator, left: node, right: parseProduct() };
+    }
+    return node;
+  };
+
+  const parseProduct = (): ExpressionNode => {
+    let node = parseUnary();
+    while (isSymbol('*') || isSymbol('/')) {
+      const operator = tokens[position++].value as BinaryOperator;
+      node = { type: 'binary', operator, left: node, right: parseUnary() };
+    }
+    return node;
+  };
+
+  const parseUnary = (): ExpressionNode => {
+    if (isSymbol('-')) {
+      position++;
+      const operand = parseUnary();
+      return operand.type === 'number' ? { type: 'number', value: -operand.value } : { type: 'negate', operand };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): ExpressionNode => {
+    const token = peek();
+    if (!token) throw new Error("Unexpected end of expression");
+    position++;
+
+    if (token.kind === 'number') return { type: 'number', value: token.value };
+
+    if (token.kind === 'symbol') {
+      if (token.value !== '(') throw new Error(`Unexpected "${token.value}"`);
+      const node = parseSum();
+      expect(')');
+      return node;
+    }
+
+    if (token.quoted || !isSymbol('(')) return { type: 'signal', name: token.value };
+
+    // Function call
+    const fn = Object.prototype.hasOwnProperty.call(DERIVED_FUNCTIONS, token.value) ? DERIVED_FUNCTIONS[token.value] : undefined;
+    if (!fn) throw new Error(`Unknown function "${token.value}"`);
+    position++;
+    const args: ExpressionNode[] = [];
+    if (!isSymbol(')')) {
+      args.push(parseSum());
+      while (isSymbol(',')) {
+        position++;
+        args.push(parseSum());
+      }
+    }
+    expect(')');
+
+    if (args.length !== fn.params.length + 1) {
+      throw new Error(`${token.value} takes ${fn.params.length + 1} argument${fn.params.length > 0 ? 's' : ''}: ${fn.signature}`);
+    }
+    if (args.slice(1).some(arg => arg.type !== 'number')) {
+      throw new Error(`${fn.params.join(" and ")} of ${token.value} must be a number: ${fn.signature}`);
+    }
+    return { type: 'call', fn: token.value, args };
+  };
+
+  if (tokens.length === 0) throw new Error("Expression is empty");
+  const node = parseSum();
+  if (position < tokens.length) {
+    throw new Error(`Unexpected "${tokens[position].value}"`);
+  }
+  return node;
+};
+
+/**
+ * Names of the signals an expression reads
+ */
+export const getReferencedSignals = (node: ExpressionNode): string[] => {
+  switch (node.type) {
+    case 'signal':
+      return [node.name];
+    case 'negate':
+      return getReferencedSignals(node.operand);
+    case 'binary':
+      return Array.from(new Set([...getReferencedSignals(node.left), ...getReferencedSignals(node.right)]));
+    case 'call':
+      return getReferencedSignals(node.args[0]);
+    default:
+      return [];
+  }
+};
+
+// Names are written bare when the expression syntax allows it, quoted otherwise
+export const toSignalReference = (name: string): string => {
+  return /^[A-Za-z_][\w.]*$/.test(name) ? name : `"${name}"`;
+};
+
+/**
+ * Points the references to a renamed signal at its new name, leaving the rest
+ * of the expression as written
+ */
+export const renameSignalReferences = (expression: string, from: string, to: string): string => {
+  let result = "";
+  let copied = 0;
+  TOKEN_REGEX.lastIndex = 0;
+
+  for (let match = TOKEN_REGEX.exec(expression); match; match = TOKEN_REGEX.exec(expression)) {
+    const end = TOKEN_REGEX.lastIndex;
+    const name = match[2] ?? match[3];
+    // A bare name followed by "(" calls a function
+    const isCall = match[2] !== undefined && /^\s*\(/.test(expression.slice(end));
+    if (name !== from || isCall) continue;
+
+    const start = end - match[0].trimStart().length;
+    result += expression.slice(copied, start) + toSignalReference(to);
+    copied = end;
+  }
+  return result + expression.slice(copied);
+};
+
+/**
+ * Derived signals that can still be computed: every signal they read is one of
+ * the given names or a derived signal kept before them
+ */
+export const keepDerivedSignals = (signals: Signal[], names: string[]): Signal[] => {
+  const available = new Set(names);
+  return signals.filter(signal => {
+    if (!signal.expression) return false;
+    try {
+      if (!getReferencedSignals(parseExpression(signal.expression)).every(name => available.has(name))) return false;
+    } catch (error) {
+      return false;
+    }
+    available.add(signal.name);
+    return true;
+  });
+};
+
+const applyOperator = (operator: BinaryOperator, left: number, right: number): number => {
+  switch (operator) {
+    case '+': return left + right;
+    case '-': return left - right;
+    case '*': return left * right;
+    default: return left / right;
+  }
+};
+
+/**
+ * Combines two series at every point where either has a value, using the
+ * latest value of the other side. Points before both sides have a value are skipped.
+ */
+const combine = (operator: BinaryOperator, left: Series, right: Series): Series => {
+  if (typeof left === 'number' && typeof right === 'number') return applyOperator(operator, left, right);
+
+  const leftSeries = typeof left === 'number' ? null : left;
+  const rightSeries = typeof right === 'number' ? null : right;
+  let leftValue = typeof left === 'number' ? left : undefined;
+  let rightValue = typeof right === 'number' ? right : undefined;
+
+  const indexes: number[] = [];
+  const values: number[] = [];
+  let l = 0;
+  let r = 0;
+  while ((leftSeries && l < leftSeries.indexes.length) || (rightSeries && r < rightSeries.indexes.length)) {
+    const nextLeft = leftSeries && l < leftSeries.indexes.length ? leftSeries.indexes[l] : Infinity;
+    const nextRight = rightSeries && r < rightSeries.indexes.length ? rightSeries.indexes[r] : Infinity;
+    const index = Math.min(nextLeft, nextRight);
+    if (nextLeft === index) leftValue = leftSeries!.values[l++];
+    if (nextRight === index) rightValue = rightSeries!.values[r++];
+
+    if (leftValue === undefined || rightValue === undefined) continue;
+    const value = applyOperator(operator, leftValue, rightValue);
+    if (isFinite(value)) {
+      indexes.push(index);
+      values.push(value);
+    }
+  }
+  return { indexes, values };
+};
+
+const evaluate = (
+  node: ExpressionNode,
+  getSignal: (name: string) => PointSeries,
+  timestamps: number[]
+): Series => {
+  switch (node.type) {
+    case 'number':
+      return node.value;
+    case 'signal':
+      return getSignal(node.name);
+    case 'negate':
+      return combine('-', 0, evaluate(node.operand, getSignal, timestamps));
+    case 'binary':
+      return combine(node.operator, evaluate(node.left, getSignal, timestamps), evaluate(node.right, getSignal, timestamps));
+    case 'call': {
+      const series = evaluate(node.args[0], getSignal, timestamps);
+      const params = node.args.slice(1).map(arg => (arg as { value: number }).value);
+      // Functions of a constant have no points to work on
+      const input = typeof series === 'number' ? { indexes: [], values: [] } : series;
+      return DERIVED_FUNCTIONS[node.fn].apply(input, params, timestamps);
+    }
+  }
+};
+
+/**
+ * Adds the values of derived signals to chart points, in definition order so a
+ * derived signal can read the ones defined before it. Points that receive a
+ * value are copied; the input is left untouched.
+ */
+export const applyDerivedSignals = <T extends Record<string, number | string>>(
+  data: T[],
+  definitions: DerivedDefinition[]
+): T[] => {
+  if (definitions.length === 0 || data.length === 0) return data;
+
+  const result = data.slice();
+  const copied = new Set<number>();
+  const timestamps = data.map(point => Number(point.timestamp));
+
+  const getSignal = (name: string): PointSeries => {
+    const indexes: number[] = [];
+    const values: number[] = [];
+    result.forEach((point, index) => {
+      const value = point[name];
+      // Categorical values are mapped to numbers but have no arithmetic meaning
+      if (typeof value === 'number' && isFinite(value) && point[`${name}_original`] === undefined) {
+        indexes.push(index);
+        values.push(value);
+      }
+    });
+    return { indexes, values };
+  };
+
+  definitions.forEach(({ name, expression }) => {
+    try {
+      const series = evaluate(parseExpression(expression), getSignal, timestamps);
+      if (typeof series === 'number') return;
+
+      series.indexes.forEach((index, i) => {
+        if (!copied.has(index)) {
+          result[index] = { ...result[index] };
+          copied.add(index);
+        }
+        (result[index] as Record<string, number | string>)[name] = series.values[i];
+      });
+    } catch (error) {
+      console.error(`Error evaluating derived signal ${name}:`, error);
+    }
+  });
+
+  return result;
+};
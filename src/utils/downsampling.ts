@@ -0,0 +1,120 @@
+/**
+ * Shape-preserving downsampling of chart points with Largest-Triangle-Three-Buckets
+ * (LTTB), so spikes and dips survive when a series has more points than can be drawn
+ */
+import { LINE_COUNT_KEY, LINE_KEY } from "@/types/chartTypes";
+
+export const DOWNSAMPLING_ALGORITHM = {
+  name: "LTTB",
+  description: "Largest-Triangle-Three-Buckets: keeps the points that shape each series, including peaks and troughs"
+};
+
+/**
+ * Picks `threshold` positions from a series: the first and last point, and from
+ * every bucket in between the point forming the largest triangle with the point
+ * kept before it and the average of the next bucket
+ */
+const selectLttb = (xs: number[], ys: number[], threshold: number): number[] => {
+  const length = xs.length;
+  if (threshold >= length) return xs.map((_, i) => i);
+
+  const selected = [0];
+  const bucketSize = (length - 2) / (threshold - 2);
+  let previous = 0;
+
+  for (let bucket = 0; bucket < threshold - 2; bucket++) {
+    const start = Math.floor(bucket * bucketSize) + 1;
+    const end = Math.floor((bucket + 1) * bucketSize) + 1;
+
+    // Average of the next bucket; the last point for the final bucket
+    const nextStart = end;
+    const nextEnd = Math.min(Math.floor((bucket + 2) * bucketSize) + 1, length);
+    let avgX = 0;
+    let avgY = 0;
+    for (let i = nextStart; i < nextEnd; i++) {
+      avgX += xs[i];
+      avgY += ys[i];
+    }
+    const nextCount = nextEnd - nextStart;
+    if (nextCount > 0) {
+      avgX /= nextCount;
+      avgY /= nextCount;
+    } else {
+      avgX = xs[length - 1];
+      avgY = ys[length - 1];
+    }
+
+    let largestArea = -1;
+    let chosen = start;
+    for (let i = start; i < end; i++) {
+      const area = Math.abs(
+        (xs[previous] - avgX) * (ys[i] - ys[previous]) -
+        (xs[previous] - xs[i]) * (avgY - ys[previous])
+      );
+      if (area > largestArea) {
+        largestArea = area;
+        chosen = i;
+      }
+    }
+
+    selected.push(chosen);
+    previous = chosen;
+  }
+
+  selected.push(length - 1);
+  return selected;
+};
+
+// Numeric keys of chart points that are not series
+const NON_SERIES_KEYS = ['timestamp', LINE_KEY, LINE_COUNT_KEY];
+
+/**
+ * Names of the numeric series in the data
+ */
+const getSeriesNames = (data: Record<string, number | string>[]): string[] => {
+  const names = new Set<string>();
+  data.forEach(point => {
+    Object.keys(point).forEach(key => {
+      if (!NON_SERIES_KEYS.includes(key) && typeof point[key] === 'number') names.add(key);
+    });
+  });
+  return Array.from(names);
+};
+
+/**
+ * Reduces chart points to about `maxPoints` without losing the shape of any
+ * series. Points only carry the series logged on their line, so every series
+ * gets its share of the budget and is downsampled on its own points; the chart
+ * keeps every point chosen for at least one series, and every point without
+ * values, in time order.
+ */
+export const downsample = <T extends Record<string, number | string>>(data: T[], maxPoints: number): T[] => {
+  if (data.length <= maxPoints) return data;
+
+  const seriesNames = getSeriesNames(data);
+  const threshold = Math.max(3, Math.floor(maxPoints / Math.max(seriesNames.length, 1)));
+  const kept = new Set<number>([0, data.length - 1]);
+  // Points without any value mark where gap filling breaks a line
+  data.forEach((point, index) => {
+    if (!seriesNames.some(name => typeof point[name] === 'number')) kept.add(index);
+  });
+  if (seriesNames.length === 0) {
+    selectLttb(data.map(point => Number(point.timestamp)), data.map(() => 0), threshold).forEach(index => kept.add(index));
+  }
+
+  seriesNames.forEach(name => {
+    const indexes: number[] = [];
+    const xs: number[] = [];
+    const ys: number[] = [];
+    data.forEach((point, index) => {
+      const value = point[name];
+      if (typeof value !== 'number' || !isFinite(value)) return;
+      indexes.push(index);
+      xs.push(Number(point.timestamp));
+      ys.push(value);
+    });
+    selectLttb(xs, ys, threshold).forEach(position => kept.add(indexes[position]));
+  });
+
+  return Array.from(kept).sort((a, b) => a - b).map(index => data[index]);
+};
@@ -0,0 +1,185 @@
+/**
+ * Character encodings supported for log files, with BOM and heuristic detection
+ */
+
+export interface LogEncoding {
+  id: string; // TextDecoder label
+  label: string;
+}
+
+export const AUTO_ENCODING = "auto";
+export const DEFAULT_ENCODING = "utf-8";
+
+export const LOG_ENCODINGS: LogEncoding[] = [
+  { id: "utf-8", label: "UTF-8" },
+  { id: "utf-16le", label: "UTF-16 LE" },
+  { id: "utf-16be", label: "UTF-16 BE" },
+  { id: "windows-1252", label: "Western (Latin-1 / Windows-1252)" },
+  { id: "iso-8859-2", label: "Central European (ISO-8859-2)" },
+  { id: "windows-1251", label: "Cyrillic (Windows-1251)" },
+  { id: "koi8-r", label: "Cyrillic (KOI8-R)" },
+  { id: "shift_jis", label: "Japanese (Shift_JIS)" },
+  { id: "euc-jp", label: "Japanese (EUC-JP)" },
+  { id: "gb18030", label: "Chinese Simplified (GB18030)" },
+  { id: "big5", label: "Chinese Traditional (Big5)" },
+  { id: "euc-kr", label: "Korean (EUC-KR)" },
+];
+
+// Frequent characters of the languages written in each multi-byte encoding,
+// including common words of log messages. Decoding with the wrong encoding
+// mostly yields rare characters, so their share tells the candidates apart.
+const COMMON_SIMPLIFIED = new Set(
+  "的一是不了在人有我他这个们中来上大为和国地到以说时要就出会可也你对生能而子那得于着下自之年过发后作里用道行所然家种事成方多经么去法学如都同现当没动面起看定天分还进好小部其些主样理心本前开但因只从想实日者意无力与长把机十民第公此已工使情明性知全三又关点正业外将两高间由问很最重并物手应向头文体政相见被利什二等产或新己制身果加月话合回特代内信表化老给世位次度门任常先海通教原东声提立及比员解水名真论处走义各入几口认条平系气题活更别打女变四总何电数安少报才结反受目太量再感建务做接必场件计管期市直资命山金指许统区保至队形社便空决治展科司五基书非则听白界达光放强即难且权思完设式色路记南品住告类求据程北边张该交规万取格望觉术领共确传师观清今切让识候带导争运改收根造言联持组每车极服快办议往元证近失转准始存未单影具字流备连调深商算质团集百需价花华城级整离况请技际约示复息究线似断精满支视消器容照须增研写称功包片查易早除找装广显标图念引历首局突专费号尽另周较注语仅考随选列响虽推势参希众构半节投某案维划致律足态护兴验责营星够章跟志底站例防供效续施留讲型料终答紧绝察段依批群项故按围织害双境客采举攻密低友止细愿值仍破网热助属限职速刻否状率独般普校创假久错承印试预益若微继送急险待述置居环排获模充负停层略范句室判担静退既宗积余检差富协角占配征修降阶审善免压银买执副乱抗追帮宣优控左右份穿背概块顿守烈索款靠评版座释登货互付换闻危忙核介坏序升监临域误减编测败封救缺移智短恐遗固席秘遇虑均销藏损端探录附吸予额含顺输招脱补督旅材灭择寻授载启束练训私暴默握访弱典盘扩盖稳忘替途侵套毕库迹延震弃缓潜售针络抵折透购刷超耗件址端口户录志库器"
+);
+const COMMON_TRADITIONAL = new Set(
+  "的一是不了在人有我他這個們中來上大為和國地到以說時要就出會可也你對生能而子那得於著下自之年過發後作裡用道行所然家種事成方多經麼去法學如都同現當沒動面起看定天分還進好小部其些主樣理心本前開但因只從想實日者意無力與長把機十民第公此已工使情明性知全三又關點正業外將兩高間由問很最重並物手應向頭文體政相見被利什二等產或新己制身果加月話合回特代內信表化老給世位次度門任常先海通教原東聲提立及比員解水名真論處走義各入幾口認條平系氣題活更別打女變四總何電數安少報才結反受目太量再感建務做接必場件計管期市直資命山金指許統區保至隊形社便空決治展科司五基書非則聽白界達光放強即難且權思完設式色路記南品住告類求據程北邊張該交規萬取格望覺術領共確傳師觀清今切讓識候帶導爭運改收根造言聯持組每車極服快辦議往元證近失轉準始存未單影具字流備連調深商算質團集百需價花華城級整離況請技際約示復息究線似斷精滿支視消器容照須增研寫稱功包片查易早除找裝廣顯標圖念引歷首局突專費號盡另周較注語僅考隨選列響雖推勢參希眾構半節投某案維劃致律足態護興驗責營星夠章跟志底站例防供效續施留講型料終答緊絕察段依批群項故按圍織害雙境客採舉攻密低友止細願值仍破網熱助屬限職速刻否狀率獨般普校創假久錯承印試預益若微繼送急險待述置居環排獲模充負停層略範句室判擔靜退既宗積餘檢差富協角佔配徵修降階審善免壓銀買執副亂抗追幫宣優控左右份穿背概塊頓守烈索款靠評版座釋登貨互付換聞危忙核介壞序升監臨域誤減編測敗封救缺移智短恐遺固席祕遇慮均銷藏損端探錄附吸予額含順輸招脫補督旅材滅擇尋授載啟束練訓私暴默握訪弱典盤擴蓋穩忘替途侵套畢庫跡延震棄緩潛售針絡抵折透購刷檔案線逾訊偵誌網路埠程序伺耗址戶"
+);
+const COMMON_KANJI = new Set(
+  "日一国人年大十二本中長出三同時政事自行社見月分議後前民生連五発間対上部東者党地合市業内相方四定今回新場金員九入選立開手米力学問高代明実円関決子動京全目表戦経通外最言氏現理調体化田当八六約主題下首意法不来作性的要用制治度務強気小七成期公持野協取都和統以機平総加山思家話世受区領多県続進正安設保改数記院女初北午指権心界支第産結百派点教報済書府活原先共得解名交資予川向際査勝面委告軍文反元重近千考判認画海参売利組知案道信策集在件団別物側任引使求所次水半品昨論計死官増係感特情投示変打男基私各始島直両朝革価式確村提運終挙果西勢減台広容必応演電歳住争談能無再位置企真流格有疑口過局少放税検藤町常校料沢裁状工建語球営空職証土与急止送援供可役構木割聞身費付施切由説転食比難防補車優夫研収断井何南石足違消境神番規術護展態導鮮備宅害配副算視条幹独警宮究育席輸訪楽起万着乗店述残想線率病農州武声質念待試族象銀域助労例衛然早張映限親額監環験追審商葉義伝働形景落欧担好退準賞訴辺造英被株頭技低毎医復仕去姿味負閣韓渡失移差衆個門写評課末守若脳極種美岡影命含福蔵量望松非撃佐核観察整段横融型白深字答夜製票況音申様財港識注呼渉達良響阪帰針専推接処了異功録値件込読索完削除"
+);
+const COMMON_HANGUL = new Set(
+  "이다는의에가을를하고한지로서기사도수대자해나으것들적인그어리게있였부정시되아만보여원주상요일전중내없라면제위성니발했과경개우학관문생말동장거구실까오때연무세계신당회소화방터마을공후분물결른각더유데국러호미입모재저합선점속안파용청설패초과터작예외고보디버그네트워크포트프로세스서버결완료처리건간찾스트불왔습값번록삭변경확인명령템응답접근권쓰읽저장"
+);
+
+// Japanese text is mostly kana, which no other candidate decodes to in bulk
+const isKana = (code: number): boolean => code >= 0x3041 && code <= 0x30FF;
+const isHalfwidthKatakana = (code: number): boolean => code >= 0xFF61 && code <= 0xFF9F;
+// CJK punctuation and full-width ASCII decode alike in every candidate, so they say nothing
+const isNeutral = (code: number): boolean => (code >= 0x3000 && code <= 0x303F) || (code >= 0xFF01 && code <= 0xFF60);
+
+// Half-width katakana are legitimate in Shift_JIS, but EUC-JP read as Shift_JIS is full of them
+const scoreJapanese = (char: string, code: number): number => {
+  if (isKana(code) || COMMON_KANJI.has(char)) return 1;
+  return isHalfwidthKatakana(code) ? 0.5 : 0;
+};
+
+// Multi-byte legacy encodings scored when text is not valid UTF-8; ties go to the first
+const MULTIBYTE_CANDIDATES: { id: string; scoreChar: (char: string, code: number) => number }[] = [
+  { id: "shift_jis", scoreChar: scoreJapanese },
+  { id: "euc-jp", scoreChar: scoreJapanese },
+  { id: "gb18030", scoreChar: char => COMMON_SIMPLIFIED.has(char) ? 1 : 0 },
+  { id: "big5", scoreChar: char => COMMON_TRADITIONAL.has(char) ? 1 : 0 },
+  { id: "euc-kr", scoreChar: char => COMMON_HANGUL.has(char) ? 1 : 0 },
+];
+
+// Real text scores well above this; wrong decodings and single-byte text stay far below
+const MIN_MULTIBYTE_SCORE = 0.3;
+
+/**
+ * Looks up an encoding by id
+ */
+export const getEncoding = (id: string): LogEncoding | undefined => {
+  return LOG_ENCODINGS.find(encoding => encoding.id === id);
+};
+
+const detectBom = (bytes: Uint8Array): string | null => {
+  if (bytes[0] === 0xEF && bytes[1] === 0xBB && bytes[2] === 0xBF) return "utf-8";
+  if (bytes[0] === 0xFF && bytes[1] === 0xFE) return "utf-16le";
+  if (bytes[0] === 0xFE && bytes[1] === 0xFF) return "utf-16be";
+  return null;
+};
+
+/**
+ * UTF-16 without BOM shows up as ASCII interleaved with null bytes
+ */
+const detectUtf16 = (bytes: Uint8Array): string | null => {
+  const length = bytes.length - (bytes.length % 2);
+  if (length < 4) return null;
+
+  let evenNulls = 0;
+  let oddNulls = 0;
+  for (let i = 0; i < length; i += 2) {
+    if (bytes[i] === 0) evenNulls++;
+    if (bytes[i + 1] === 0) oddNulls++;
+  }
+
+  const pairs = length / 2;
+  if (oddNulls > pairs * 0.3 && evenNulls < pairs * 0.05) return "utf-16le";
+  if (evenNulls > pairs * 0.3 && oddNulls < pairs * 0.05) return "utf-16be";
+  return null;
+};
+
+const decodesWithoutErrors = (bytes: Uint8Array, encoding: string): boolean => {
+  try {
+    // Streaming mode tolerates a multi-byte sequence cut off at the end of the sample
+    new TextDecoder(encoding, { fatal: true }).decode(bytes, { stream: true });
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+/**
+ * Legacy single-byte text has isolated high bytes (accented letters between
+ * ASCII), while CJK encodings produce runs of two or more high bytes
+ */
+const hasMostlyIsolatedHighBytes = (bytes: Uint8Array): boolean => {
+  let isolated = 0;
+  let runs = 0;
+
+  for (let i = 0; i < bytes.length; i++) {
+    if (bytes[i] < 0x80) continue;
+    let end = i;
+    while (end + 1 < bytes.length && bytes[end + 1] >= 0x80) end++;
+    if (end === i) isolated++;
+    else runs++;
+    i = end;
+  }
+
+  return isolated >= runs;
+};
+
+/**
+ * Share of common characters among the non-ASCII characters a candidate
+ * decodes the bytes to, or 0 when the bytes are invalid in the candidate
+ */
+const scoreMultibyteCandidate = (bytes: Uint8Array, candidate: typeof MULTIBYTE_CANDIDATES[number]): number => {
+  let text: string;
+  try {
+    text = new TextDecoder(candidate.id, { fatal: true }).decode(bytes, { stream: true });
+  } catch (error) {
+    return 0;
+  }
+
+  let scored = 0;
+  let total = 0;
+  for (const char of text) {
+    const code = char.codePointAt(0) ?? 0;
+    if (code < 0x80 || isNeutral(code)) continue;
+    total++;
+    scored += candidate.scoreChar(char, code);
+  }
+  return total > 0 ? scored / total : 0;
+};
+
+/**
+ * Detects the encoding of the first bytes of a (decompressed) log file
+ */
+export const detectEncoding = (bytes: Uint8Array): string => {
+  const bomEncoding = detectBom(bytes) || detectUtf16(bytes);
+  if (bomEncoding) return bomEncoding;
+
+  if (!bytes.some(byte => byte >= 0x80) || decodesWithoutErrors(bytes, "utf-8")) {
+    return DEFAULT_ENCODING;
+  }
+
+  let best = { id: "", score: 0 };
+  for (const candidate of MULTIBYTE_CANDIDATES) {
+    const score = scoreMultibyteCandidate(bytes, candidate);
+    if (score > best.score) best = { id: candidate.id, score };
+  }
+  if (best.score >= MIN_MULTIBYTE_SCORE) return best.id;
+
+  // Whole words of high bytes that are not CJK are most likely Cyrillic
+  return hasMostlyIsolatedHighBytes(bytes) ? "windows-1252" : "windows-1251";
+};
+
+/**
+ * Resolves a selected encoding id, detecting it from the sample when set to auto
+ */
+export const resolveEncoding = (encodingId: string, bytes: Uint8Array): string => {
+  if (encodingId !== AUTO_ENCODING && getEncoding(encodingId)) {
+    return encodingId;
+  }
+  return detectEncoding(bytes);
+};
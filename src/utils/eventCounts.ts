@@ -0,0 +1,28 @@
+/**
+ * Count and rate patterns: instead of charting a captured value, they count how
+ * often a pattern matched within fixed time buckets
+ */
+import { RegexPattern } from "@/components/regex/RegexManager";
+
+export const DEFAULT_BUCKET_SECONDS = 60;
+
+export const BUCKET_SIZES: { seconds: number; label: string }[] = [
+  { seconds: 1, label: "1s" },
+  { seconds: 10, label: "10s" },
+  { seconds: 60, label: "1m" },
+  { seconds: 300, label: "5m" },
+  { seconds: 900, label: "15m" },
+  { seconds: 3600, label: "1h" },
+  { seconds: 86400, label: "1d" }
+];
+
+/**
+ * Whether a pattern counts matches rather than extracting a value
+ */
+export const isCountingPattern = (pattern: RegexPattern): boolean => {
+  return pattern.kind === 'count' || pattern.kind === 'rate';
+};
+
+export const getBucketSeconds = (pattern: RegexPattern): number => {
+  return pattern.bucketSeconds && pattern.bucketSeconds > 0 ? pattern.bucketSeconds : DEFAULT_BUCKET_SECONDS;
+};
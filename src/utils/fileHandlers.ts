@@ -3,18 +3,39 @@
  * Utility functions for file handling and decompression
  */
 import JSZip from "jszip";
-import * as pako from "pako";
+import { LogCompression, LogSource } from "@/types/sourceTypes";
+import { createSequentialReader, readSourceHead, streamSourceBytes } from "@/utils/logStream";
+import { DEFAULT_ENCODING, resolveEncoding } from "@/utils/encodings";
+import { TarEntry, readTarEntries } from "@/utils/tarReader";
+import { readSevenZipEntries } from "@/utils/sevenZip";
+import { readZipEntrySizes } from "@/utils/zipDirectory";
+
+export type ArchiveType = 'zip' | 'tar' | '7z';
 
 /**
- * Reads a file as text
+ * Wraps a blob in a log source descriptor that can be streamed later
  */
-export const readAsText = (file: File): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = () => resolve(reader.result as string);
-    reader.onerror = reject;
-    reader.readAsText(file);
-  });
+export const createLogSource = (
+  name: string,
+  blob: Blob,
+  compression: LogCompression = 'none',
+  encoding: string = DEFAULT_ENCODING
+): LogSource => {
+  return {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    name,
+    blob,
+    compression,
+    encoding,
+    size: blob.size
+  };
+};
+
+/**
+ * Applies the selected encoding to a source, detecting it from the head of the file when set to auto
+ */
+export const applySourceEncoding = async (source: LogSource, encodingId: string): Promise<LogSource> => {
+  return { ...source, encoding: resolveEncoding(encodingId, await readSourceHead(source)) };
 };
 
 /**
@@ -29,59 +50,262 @@ export const readAsArrayBuffer = (file: File): Promise<ArrayBuffer> => {
   });
 };
 
+// A file inside an archive, loaded lazily when previewed or selected
+export interface ArchiveEntry {
+  path: string;
+  size: number | null; // Uncompressed size when known
+  compression: LogCompression;
+  load: () => Promise<Blob>;
+  unsupported?: string; // Why the entry cannot be loaded, e.g. an unsupported 7z method
+}
+
+/**
+ * Determines the archive format of a file from its name
+ */
+export const getArchiveType = (fileName: string): ArchiveType | null => {
+  const lowerName = fileName.toLowerCase();
+  if (lowerName.endsWith('.zip')) return 'zip';
+  if (lowerName.endsWith('.7z')) return '7z';
+  if (/\.(tar|tgz|tbz2?|txz)$|\.tar\.(gz|bz2|xz)$/.test(lowerName)) return 'tar';
+  return null;
+};
+
+/**
+ * Determines the compression of a single file (or tarball) from its name
+ */
+export const getFileCompression = (fileName: string): LogCompression => {
+  const lowerName = fileName.toLowerCase();
+  if (/\.(gz|tgz)$/.test(lowerName)) return 'gzip';
+  if (/\.(bz2|tbz2?)$/.test(lowerName)) return 'bzip2';
+  if (/\.(xz|txz)$/.test(lowerName)) return 'xz';
+  return 'none';
+};
+
+const readBlobBytes = async (blob: Blob, offset: number, length: number): Promise<Uint8Array> => {
+  return new Uint8Array(await blob.slice(offset, offset + length).arrayBuffer());
+};
+
+const concatBytes = (chunks: Uint8Array[]): Uint8Array => {
+  if (chunks.length === 1) return chunks[0];
+  const joined = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    joined.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return joined;
+};
+
+/**
+ * Loads byte ranges of a compressed source. Ranges requested together, such
+ * as the entries of a tarball selected at once, share one decompression pass,
+ * which stops after the last of them.
+ */
+const createRangeLoader = (source: LogSource): ((offset: number, size: number) => Promise<Blob>) => {
+  let requests: { offset: number; size: number; resolve: (blob: Blob) => void; reject: (error: unknown) => void }[] = [];
+
+  const extract = async (batch: typeof requests) => {
+    const reader = createSequentialReader(streamSourceBytes(source));
+    try {
+      let previous: { offset: number; blob: Blob } | null = null;
+      for (const request of batch.sort((a, b) => a.offset - b.offset)) {
+        // The same entry requested twice is read once
+        if (previous?.offset === request.offset) {
+          request.resolve(previous.blob);
+          continue;
+        }
+        const blob = new Blob(await reader.read(request.offset, request.size));
+        request.resolve(blob);
+        previous = { offset: request.offset, blob };
+      }
+    } finally {
+      await reader.close();
+    }
+  };
+
+  return (offset, size) => new Promise<Blob>((resolve, reject) => {
+    if (requests.length === 0) {
+      queueMicrotask(() => {
+        const batch = requests;
+        requests = [];
+        extract(batch).catch(error => batch.forEach(request => request.reject(error)));
+      });
+    }
+    requests.push({ offset, size, resolve, reject });
+  });
+};
+
+/**
+ * Reads the uncompressed size stored in a GZIP trailer (modulo 4 GB)
+ */
+const getGzipSize = async (blob: Blob): Promise<number | null> => {
+  if (blob.size < 18) return null;
+  const trailer = new DataView(await blob.slice(blob.size - 4).arrayBuffer());
+  return trailer.getUint32(0, true);
+};
+
+/**
+ * Turns a file found inside an archive into entries. Nested archives are
+ * expanded recursively; one that cannot be read is listed as unsupported
+ * instead of failing the whole listing. Compressed files are decompressed
+ * while streaming. `cheapLoad` is false when loading a file means
+ * decompressing the archive around it, so GZIP sizes are not read up front.
+ */
+const toArchiveEntries = async (
+  path: string,
+  size: number | null,
+  load: () => Promise<Blob>,
+  cheapLoad: boolean = true
+): Promise<ArchiveEntry[]> => {
+  if (getArchiveType(path)) {
+    try {
+      return await listArchiveEntries(await load(), path);
+    } catch (error) {
+      const unsupported = error instanceof Error ? error.message : `Failed to read ${path}`;
+      return [{ path, size, compression: 'none', load, unsupported }];
+    }
+  }
+
+  const compression = getFileCompression(path);
+
+  if (compression === 'gzip' && cheapLoad) {
+    const blob = await load();
+    return [{ path, size: await getGzipSize(blob), compression, load: async () => blob }];
+  }
+
+  return [{ path, size: compression === 'none' ? size : null, compression, load }];
+};
+
 /**
- * Decompresses a ZIP file and returns the content of the first log file
+ * Lists every file of a ZIP archive
  */
-export const decompressZip = async (file: File): Promise<string> => {
+export const listZipEntries = async (archive: Blob, archivePath: string): Promise<ArchiveEntry[]> => {
   try {
-    const arrayBuffer = await readAsArrayBuffer(file);
+    const buffer = await archive.arrayBuffer();
     const zip = new JSZip();
-    const zipContents = await zip.loadAsync(arrayBuffer);
-    
-    // Find the first .log or .txt file in the zip
-    const logFiles = Object.keys(zipContents.files).filter(
-      filename => filename.endsWith('.log') || filename.endsWith('.txt')
-    );
+    const zipContents = await zip.loadAsync(buffer);
+    // JSZip does not expose entry sizes, so they are read from the central directory
+    const sizes = readZipEntrySizes(buffer);
+    const entries: ArchiveEntry[] = [];
     
-    if (logFiles.length === 0) {
-      throw new Error("No log files found in the ZIP archive");
+    for (const entry of Object.values(zipContents.files)) {
+      if (entry.dir) continue;
+      entries.push(...await toArchiveEntries(`${archivePath}/${entry.name}`, sizes.get(entry.name) ?? null, () => entry.async("blob")));
     }
     
-    // Use the first log file found
-    const logFile = zipContents.files[logFiles[0]];
-    const content = await logFile.async("string");
-    
-    return content;
+    return entries;
   } catch (error) {
-    console.error("Failed to decompress ZIP file:", error);
-    throw new Error("Failed to extract log file from the ZIP archive. It may be corrupted or not a valid ZIP file.");
+    console.error("Failed to read ZIP archive:", error);
+    throw new Error(`Failed to read ${archivePath}. It may be corrupted or not a valid ZIP file.`);
   }
 };
 
 /**
- * Decompresses a GZIP file and returns its content
+ * Lists every file of a tar archive. Plain tarballs are read by slicing the
+ * file; a .tar.gz, .tar.bz2 or .tar.xz is scanned while it is decompressed,
+ * and the entries chosen later are extracted in another pass.
  */
-export const decompressGzip = async (file: File): Promise<string> => {
+export const listTarEntries = async (archive: Blob, archivePath: string): Promise<ArchiveEntry[]> => {
   try {
-    const arrayBuffer = await readAsArrayBuffer(file);
-    const compressed = new Uint8Array(arrayBuffer);
-    const decompressed = pako.ungzip(compressed);
-    
-    // Convert Uint8Array to string
-    const textDecoder = new TextDecoder('utf-8');
-    return textDecoder.decode(decompressed);
+    const compression = getFileCompression(archivePath);
+    const entries: ArchiveEntry[] = [];
+
+    if (compression === 'none') {
+      for (const entry of await readTarEntries((offset, length) => readBlobBytes(archive, offset, length))) {
+        const blob = archive.slice(entry.offset, entry.offset + entry.size);
+        entries.push(...await toArchiveEntries(`${archivePath}/${entry.path}`, entry.size, async () => blob));
+      }
+      return entries;
+    }
+
+    const tarball = createLogSource(archivePath, archive, compression);
+    const reader = createSequentialReader(streamSourceBytes(tarball));
+    let tarEntries: TarEntry[];
+    try {
+      tarEntries = await readTarEntries(async (offset, length) => concatBytes(await reader.read(offset, length)));
+    } finally {
+      await reader.close();
+    }
+
+    const loadRange = createRangeLoader(tarball);
+    for (const entry of tarEntries) {
+      const load = () => loadRange(entry.offset, entry.size);
+      entries.push(...await toArchiveEntries(`${archivePath}/${entry.path}`, entry.size, load, false));
+    }
+    return entries;
   } catch (error) {
-    console.error("Failed to decompress GZIP file:", error);
-    throw new Error("Failed to decompress GZIP file. It may be corrupted or not a valid GZIP file.");
+    console.error("Failed to read tar archive:", error);
+    throw new Error(`Failed to read ${archivePath}: ${error instanceof Error ? error.message : "invalid tar archive"}`);
   }
 };
 
+/**
+ * Lists every file of a 7z archive. Solid blocks are only decompressed
+ * when one of their files is previewed or loaded.
+ */
+export const listSevenZipEntries = async (archive: Blob, archivePath: string): Promise<ArchiveEntry[]> => {
+  try {
+    const entries: ArchiveEntry[] = [];
+
+    for (const entry of await readSevenZipEntries(archive)) {
+      const path = `${archivePath}/${entry.path}`;
+      if (entry.unsupported) {
+        entries.push({ path, size: entry.size, compression: 'none', load: entry.load, unsupported: entry.unsupported });
+        continue;
+      }
+      entries.push(...await toArchiveEntries(path, entry.size, entry.load));
+    }
+
+    return entries;
+  } catch (error) {
+    console.error("Failed to read 7z archive:", error);
+    throw new Error(`Failed to read ${archivePath}: ${error instanceof Error ? error.message : "invalid 7z archive"}`);
+  }
+};
+
+/**
+ * Lists the files of any supported archive
+ */
+export const listArchiveEntries = async (archive: Blob, archivePath: string): Promise<ArchiveEntry[]> => {
+  switch (getArchiveType(archivePath)) {
+    case 'zip':
+      return listZipEntries(archive, archivePath);
+    case 'tar':
+      return listTarEntries(archive, archivePath);
+    case '7z':
+      return listSevenZipEntries(archive, archivePath);
+    default:
+      throw new Error(`${archivePath} is not a supported archive`);
+  }
+};
+
+/**
+ * Determines if an archive entry is likely a log file and should be preselected
+ */
+export const isLogArchiveEntry = (entry: ArchiveEntry): boolean => {
+  return !entry.unsupported && isLogFileName(entry.path.replace(/\.(gz|bz2|xz)$/i, ""));
+};
+
+/**
+ * Turns selected archive entries into streamable sources
+ */
+export const loadArchiveEntries = async (entries: ArchiveEntry[]): Promise<LogSource[]> => {
+  return Promise.all(entries.map(async (entry) => {
+    return createLogSource(entry.path, await entry.load(), entry.compression);
+  }));
+};
+
+/**
+ * Determines if a name looks like a plain log file, including rotated
+ * files such as app.log.1
+ */
+export const isLogFileName = (fileName: string): boolean => {
+  return /\.(log|txt)(\.\d+)?$/i.test(fileName);
+};
+
 /**
  * Determines if a file is a valid type for processing
  */
 export const isValidFileType = (fileName: string): boolean => {
-  const supportedExtensions = [".log", ".txt", ".zip", ".gz"];
-  return supportedExtensions.some(ext => 
-    fileName.toLowerCase().endsWith(ext)
-  );
+  return isLogFileName(fileName) || getArchiveType(fileName) !== null || getFileCompression(fileName) !== 'none';
 };
@@ -0,0 +1,221 @@
+/**
+ * Built-in presets for common log formats. Each preset supplies the ingestion
+ * settings, the timestamp format and a curated set of ready-made signals.
+ */
+import { RegexPattern } from "@/components/regex/RegexManager";
+import { IngestionConfig, DEFAULT_INGESTION_CONFIG } from "@/types/sourceTypes";
+
+export interface FormatPreset {
+  id: string;
+  label: string;
+  example: string;
+  ingestion: IngestionConfig;
+  timestampFormat: string; // Timestamp format id
+  detect: RegExp; // Matches lines written in this format
+  patterns: RegexPattern[];
+}
+
+// Number of non-empty lines inspected when detecting a preset
+const DETECTION_SAMPLE_SIZE = 50;
+
+// Severity keywords written by most application loggers
+const SEVERITY_REGEX = "\\b(TRACE|DEBUG|INFO|NOTICE|WARN|WARNING|ERROR|CRITICAL|FATAL)\\b";
+
+// Everything before the quoted request of a combined access log line
+const ACCESS_PREFIX = '^\\S+ \\S+ \\S+ \\[[^\\]]+\\] ';
+
+const syslogPatterns = (presetId: string): RegexPattern[] => [
+  {
+    id: `preset-${presetId}-severity`,
+    name: "Severity",
+    pattern: "severity",
+    description: "Syslog severity, taken from the <PRI> prefix",
+    extractor: 'syslog'
+  },
+  {
+    id: `preset-${presetId}-facility`,
+    name: "Facility",
+    pattern: "facility",
+    description: "Syslog facility, taken from the <PRI> prefix",
+    extractor: 'syslog'
+  },
+  {
+    id: `preset-${presetId}-hostname`,
+    name: "Host",
+    pattern: "hostname",
+    description: "Host that sent the message",
+    extractor: 'syslog'
+  },
+  {
+    id: `preset-${presetId}-app`,
+    name: "Application",
+    pattern: "app",
+    description: "Program name (TAG or APP-NAME)",
+    extractor: 'syslog'
+  }
+];
+
+export const FORMAT_PRESETS: FormatPreset[] = [
+  {
+    id: "syslog-rfc3164",
+    label: "Syslog (RFC 3164)",
+    example: "<34>Oct 19 14:02:11 web01 sshd[4123]: Accepted publickey for deploy",
+    ingestion: DEFAULT_INGESTION_CONFIG,
+    timestampFormat: "syslog",
+    detect: /^(?:<\d{1,3}>)?(?:Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec) {1,2}\d{1,2} \d{2}:\d{2}:\d{2} \S+ [^\s:]+:/,
+    patterns: syslogPatterns("syslog-rfc3164")
+  },
+  {
+    id: "syslog-rfc5424",
+    label: "Syslog (RFC 5424)",
+    example: "<165>1 2026-10-19T14:02:11.003Z web01 nginx 4123 - - Upstream timed out",
+    ingestion: DEFAULT_INGESTION_CONFIG,
+    timestampFormat: "rfc5424",
+    detect: /^<\d{1,3}>1 \S+ \S+ \S+ \S+ \S+/,
+    patterns: syslogPatterns("syslog-rfc5424")
+  },
+  {
+    id: "access-combined",
+    label: "Apache/Nginx access log (combined)",
+    example: '10.0.0.7 - - [19/Oct/2026:14:02:11 +0000] "GET /api/orders HTTP/1.1" 200 5120 "-" "curl/8.4.0" rt=0.042 urt="0.040"',
+    ingestion: DEFAULT_INGESTION_CONFIG,
+    timestampFormat: "apache",
+    detect: /^\S+ \S+ \S+ \[\d{2}\/\w{3}\/\d{4}:\d{2}:\d{2}:\d{2} [+-]\d{4}\] "/,
+    patterns: [
+      {
+        id: "preset-access-status",
+        name: "HTTP Status",
+        pattern: `${ACCESS_PREFIX}"[^"]*" (\\d{3}) `,
+        description: "Response status code"
+      },
+      {
+        id: "preset-access-bytes",
+        name: "Response Bytes",
+        pattern: `${ACCESS_PREFIX}"[^"]*" \\d{3} (\\d+)`,
+        description: "Response body size in bytes",
+        unit: 'bytes'
+      },
+      {
+        id: "preset-access-method",
+        name: "HTTP Method",
+        pattern: `${ACCESS_PREFIX}"([A-Z]+) `,
+        description: "Request method"
+      },
+      {
+        id: "preset-access-response-time",
+        name: "Response Time",
+        pattern: "\\b(?:rt|request_time)=\"?(\\d+(?:\\.\\d+)?)",
+        description: "Request time in seconds; needs rt=$request_time in the nginx log_format"
+      },
+      {
+        id: "preset-access-upstream-time",
+        name: "Upstream Time",
+        pattern: "\\b(?:urt|upstream_response_time)=\"?(\\d+(?:\\.\\d+)?)",
+        description: "Upstream response time in seconds; needs urt=\"$upstream_response_time\" in the nginx log_format"
+      }
+    ]
+  },
+  {
+    id: "docker-json",
+    label: "Docker json-file",
+    example: '{"log":"GET /healthz 200\\n","stream":"stdout","time":"2026-10-19T14:02:11.123456789Z"}',
+    ingestion: { ...DEFAULT_INGESTION_CONFIG, format: 'jsonl', timestampField: "time" },
+    timestampFormat: "iso8601",
+    detect: /^\{"log":".*","stream":"(?:stdout|stderr)",.*"time":"/,
+    patterns: [
+      {
+        id: "preset-docker-container",
+        name: "Container",
+        pattern: "([0-9a-f]{12})[0-9a-f]{52}-json\\.log$",
+        description: "Short container id, taken from the file name",
+        extractor: 'source'
+      },
+      {
+        id: "preset-docker-stream",
+        name: "Stream",
+        pattern: "stream",
+        description: "stdout or stderr",
+        extractor: 'json'
+      },
+      {
+        id: "preset-docker-severity",
+        name: "Severity",
+        pattern: SEVERITY_REGEX,
+        description: "Severity keyword in the log message"
+      }
+    ]
+  },
+  {
+    id: "kubernetes-cri",
+    label: "Kubernetes (CRI)",
+    example: "2026-10-19T14:02:11.123456789Z stderr F level=ERROR msg=\"connection refused\"",
+    ingestion: DEFAULT_INGESTION_CONFIG,
+    timestampFormat: "iso8601",
+    detect: /^\d{4}-\d{2}-\d{2}T\S+ (?:stdout|stderr) [FP] /,
+    // Files are named /var/log/containers/<pod>_<namespace>_<container>-<id>.log or
+    // /var/log/pods/<namespace>_<pod>_<uid>/<container>/<n>.log; each source pattern
+    // has one alternative per layout
+    patterns: [
+      {
+        id: "preset-k8s-pod",
+        name: "Pod",
+        pattern: "pods/[^/_]+_([^/_]+)_[^/]+/[^/]+/\\d+\\.log$|([^/_]+)_[^/_]+_[^/]+-[0-9a-f]{64}\\.log$",
+        description: "Pod name, taken from the file name",
+        extractor: 'source'
+      },
+      {
+        id: "preset-k8s-namespace",
+        name: "Namespace",
+        pattern: "pods/([^/_]+)_[^/]+/[^/]+/\\d+\\.log$|[^/_]+_([^/_]+)_[^/]+-[0-9a-f]{64}\\.log$",
+        description: "Namespace, taken from the file name",
+        extractor: 'source'
+      },
+      {
+        id: "preset-k8s-container",
+        name: "Container",
+        pattern: "pods/[^/]+/([^/]+)/\\d+\\.log$|[^/_]+_[^/_]+_([^/]+)-[0-9a-f]{64}\\.log$",
+        description: "Container name, taken from the file name",
+        extractor: 'source'
+      },
+      {
+        id: "preset-k8s-stream",
+        name: "Stream",
+        pattern: "^\\S+ (stdout|stderr) ",
+        description: "stdout or stderr"
+      },
+      {
+        id: "preset-k8s-severity",
+        name: "Severity",
+        pattern: SEVERITY_REGEX,
+        description: "Severity keyword in the log message"
+      }
+    ]
+  }
+];
+
+/**
+ * Looks up a preset by id
+ */
+export const getFormatPreset = (id: string): FormatPreset | undefined => {
+  return FORMAT_PRESETS.find(preset => preset.id === id);
+};
+
+/**
+ * Picks the preset matching most of the first non-empty lines, if any
+ */
+export const detectFormatPreset = (lines: string[]): FormatPreset | null => {
+  const sample = lines.filter(line => line.trim()).slice(0, DETECTION_SAMPLE_SIZE);
+
+  let best: FormatPreset | null = null;
+  let bestCount = 0;
+
+  FORMAT_PRESETS.forEach(preset => {
+    const count = sample.filter(line => preset.detect.test(line)).length;
+    if (count > bestCount) {
+      best = preset;
+      bestCount = count;
+    }
+  });
+
+  return bestCount > sample.length / 2 ? best : null;
+};
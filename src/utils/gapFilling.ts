@@ -0,0 +1,190 @@
+/**
+ * Gap filling of raw signals for display. Parsed points only hold the values
+ * found on their own line; each signal decides how the chart bridges the time
+ * between two of its values, so a metric that stops being logged shows a break.
+ */
+import { FillMode, Signal, SignalFill } from "@/types/chartTypes";
+import { isAggregated } from "@/utils/aggregation";
+import { getBucketSeconds, isCountingPattern } from "@/utils/eventCounts";
+
+export const FILL_MODES: { value: FillMode; label: string }[] = [
+  { value: 'gap', label: "Break at gaps" },
+  { value: 'linear', label: "Linear interpolation" },
+  { value: 'carry', label: "Carry last value forward" },
+  { value: 'carry-max-age', label: "Carry forward up to max age" },
+  { value: 'zero', label: "Zero when missing" }
+];
+
+export const FILL_GAP_SIZES: { value: number; label: string }[] = [
+  { value: 1000, label: "1s" },
+  { value: 10 * 1000, label: "10s" },
+  { value: 60 * 1000, label: "1m" },
+  { value: 5 * 60 * 1000, label: "5m" },
+  { value: 15 * 60 * 1000, label: "15m" },
+  { value: 60 * 60 * 1000, label: "1h" },
+  { value: 24 * 60 * 60 * 1000, label: "1d" }
+];
+
+// Values carry forward unless a signal says otherwise, as they did before fill modes existed
+export const DEFAULT_FILL: SignalFill = { mode: 'carry', maxGapMs: 'auto' };
+
+// An automatic max gap is this many times the median interval between values
+const AUTO_GAP_FACTOR = 5;
+
+/**
+ * Whether a fill mode breaks the line after a maximum gap or age
+ */
+export const usesMaxGap = (mode: FillMode): boolean => {
+  return mode === 'gap' || mode === 'carry-max-age';
+};
+
+// Median interval between consecutive values, ignoring values logged at the same time
+const getMedianInterval = (timestamps: number[]): number | undefined => {
+  const intervals: number[] = [];
+  for (let i = 1; i < timestamps.length; i++) {
+    const interval = timestamps[i] - timestamps[i - 1];
+    if (interval > 0) intervals.push(interval);
+  }
+  if (intervals.length === 0) return undefined;
+
+  intervals.sort((a, b) => a - b);
+  return intervals[Math.floor(intervals.length / 2)];
+};
+
+/**
+ * Longest gap a signal bridges, or Infinity when there are too few values to tell
+ */
+export const getMaxGapMs = (fill: SignalFill, timestamps: number[]): number => {
+  if (fill.maxGapMs !== 'auto') return fill.maxGapMs;
+  const median = getMedianInterval(timestamps);
+  return median === undefined ? Infinity : median * AUTO_GAP_FACTOR;
+};
+
+/**
+ * Bucket size of a count or rate signal, whose values hold for their whole bucket
+ */
+export const getCountBucketMs = (signal: Signal): number | undefined => {
+  return isCountingPattern(signal.pattern) ? getBucketSeconds(signal.pattern) * 1000 : undefined;
+};
+
+interface FillColumn {
+  key: string;
+  fill: SignalFill;
+  maxGapMs: number;
+  bucketMs?: number; // Set for count and rate signals, which are filled per bucket
+}
+
+const isValue = (value: number | string | undefined): value is number => {
+  return typeof value === 'number' && isFinite(value);
+};
+
+/**
+ * Fills the missing values of every raw signal according to its fill mode.
+ * Count and rate signals take the value of the bucket a point falls in.
+ * Empty points are added where a line must break but no other point exists,
+ * since the chart would otherwise connect the values on either side.
+ */
+export const fillChartData = (
+  data: Record<string, number | string>[],
+  signals: Signal[]
+): Record<string, number | string>[] => {
+  const rawSignals = signals.filter(signal => !isAggregated(signal));
+  if (rawSignals.length === 0 || data.length === 0) return data;
+
+  const columns: FillColumn[] = rawSignals.map(signal => {
+    const fill = signal.fill || DEFAULT_FILL;
+    const timestamps = data
+      .filter(point => isValue(point[signal.name]))
+      .map(point => Number(point.timestamp));
+    return { key: signal.name, fill, maxGapMs: getMaxGapMs(fill, timestamps), bucketMs: getCountBucketMs(signal) };
+  });
+
+  // First pass: timestamps right after which a line has to break
+  const breaks = new Set<number>();
+  columns.forEach(({ key, fill, maxGapMs, bucketMs }) => {
+    if (bucketMs || !usesMaxGap(fill.mode) || !isFinite(maxGapMs)) return;
+
+    let previous: number | undefined;
+    data.forEach(point => {
+      if (!isValue(point[key])) return;
+      const timestamp = Number(point.timestamp);
+      if (previous !== undefined && timestamp - previous > maxGapMs) {
+        breaks.add(previous + maxGapMs);
+        // A value carried up to its max age ends on its own point, so the break needs one more
+        if (fill.mode === 'carry-max-age') breaks.add(previous + maxGapMs + 1);
+      }
+      previous = timestamp;
+    });
+  });
+
+  const points = data.map(point => ({ ...point }));
+  breaks.forEach(timestamp => points.push({ timestamp }));
+  if (breaks.size > 0) {
+    points.sort((a, b) => Number(a.timestamp) - Number(b.timestamp));
+  }
+
+  // Second pass: fill each column between the points that hold its values
+  columns.forEach(({ key, fill, maxGapMs, bucketMs }) => {
+    const originalKey = `${key}_original`;
+    const valueIndexes: number[] = [];
+    points.forEach((point, index) => {
+      if (isValue(point[key])) valueIndexes.push(index);
+    });
+
+    let next = 0;
+    points.forEach((point, index) => {
+      if (next < valueIndexes.length && valueIndexes[next] === index) {
+        next++;
+        return;
+      }
+
+      if (fill.mode === 'zero') {
+        point[key] = 0;
+        return;
+      }
+
+      const before = next > 0 ? points[valueIndexes[next - 1]] : undefined;
+      const after = next < valueIndexes.length ? points[valueIndexes[next]] : undefined;
+      if (!before) return;
+
+      const timestamp = Number(point.timestamp);
+      const beforeTimestamp = Number(before.timestamp);
+
+      // Counts sit at the start of their bucket; buckets without a point had no matches
+      if (bucketMs) {
+        point[key] = timestamp - beforeTimestamp < bucketMs ? before[key] : 0;
+        return;
+      }
+
+      const carry = () => {
+        point[key] = before[key];
+        if (before[originalKey] !== undefined) point[originalKey] = before[originalKey];
+      };
+
+      switch (fill.mode) {
+        case 'carry':
+          carry();
+          return;
+        case 'carry-max-age':
+          if (timestamp - beforeTimestamp <= maxGapMs) carry();
+          return;
+        default: {
+          if (!after) return;
+          const afterTimestamp = Number(after.timestamp);
+          if (fill.mode === 'gap' && afterTimestamp - beforeTimestamp > maxGapMs) return;
+
+          // Categorical values step instead of being interpolated
+          if (before[originalKey] !== undefined || afterTimestamp === beforeTimestamp) {
+            carry();
+            return;
+          }
+          const ratio = (timestamp - beforeTimestamp) / (afterTimestamp - beforeTimestamp);
+          const from = Number(before[key]);
+          point[key] = from + (Number(after[key]) - from) * ratio;
+        }
+      }
+    });
+  });
+
+  return points;
+};
@@ -0,0 +1,148 @@
+/**
+ * Helpers for JSON-lines logs: one JSON object per line, with timestamps and
+ * signal values addressed by field path (e.g. `http.response.status`)
+ */
+import { IngestionConfig, DEFAULT_INGESTION_CONFIG } from "@/types/sourceTypes";
+
+export type JsonRecord = Record<string, unknown>;
+
+// Number of non-empty lines inspected for field discovery and format detection
+const DISCOVERY_SAMPLE_SIZE = 200;
+
+// Common names of timestamp fields, in order of preference
+const TIMESTAMP_FIELD_NAMES = ["@timestamp", "timestamp", "time", "ts", "datetime", "date", "eventtime", "logtime"];
+
+/**
+ * Parses a line as a JSON object, returning null for anything else
+ */
+export const parseJsonLine = (line: string): JsonRecord | null => {
+  const trimmed = line.trim();
+  if (!trimmed.startsWith("{")) return null;
+
+  try {
+    const value: unknown = JSON.parse(trimmed);
+    return value && typeof value === "object" && !Array.isArray(value) ? value as JsonRecord : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * Splits a field path such as `spans[0].duration` into its segments
+ */
+export const splitFieldPath = (path: string): string[] => {
+  return path.replace(/\[(\d+)\]/g, ".$1").split(".").filter(Boolean);
+};
+
+/**
+ * Resolves a field path against a record. Keys that contain dots themselves
+ * (flattened exports such as `"http.status": 200`) are matched as well.
+ */
+export const getFieldValue = (record: unknown, path: string[]): unknown => {
+  let current = record;
+
+  for (let i = 0; i < path.length; i++) {
+    if (!current || typeof current !== "object") return undefined;
+
+    const object = current as Record<string, unknown>;
+    const remaining = path.slice(i).join(".");
+    if (i < path.length - 1 && remaining in object) {
+      return object[remaining];
+    }
+    current = object[path[i]];
+  }
+
+  return current;
+};
+
+/**
+ * Converts a JSON value into a signal value, or undefined when it cannot be plotted
+ */
+export const toSignalValue = (value: unknown): number | string | undefined => {
+  if (typeof value === "number") return isFinite(value) ? value : undefined;
+  if (typeof value === "boolean") return value ? 1 : 0;
+  if (typeof value === "string") {
+    return value.trim() !== "" && !isNaN(Number(value)) ? Number(value) : value;
+  }
+  return undefined;
+};
+
+/**
+ * Returns the text the timestamp format is applied to: the whole line in
+ * text mode, or the timestamp field in JSON-lines mode
+ */
+export const getTimestampText = (line: string, record: JsonRecord | null, config: IngestionConfig): string | null => {
+  if (config.format !== "jsonl") return line;
+  if (!record) return null;
+
+  const value = getFieldValue(record, splitFieldPath(config.timestampField));
+  return typeof value === "string" || typeof value === "number" ? String(value) : null;
+};
+
+const getSampleRecords = (lines: string[]): JsonRecord[] => {
+  const records: JsonRecord[] = [];
+  for (const line of lines) {
+    if (!line.trim()) continue;
+    const record = parseJsonLine(line);
+    if (record) records.push(record);
+    if (records.length >= DISCOVERY_SAMPLE_SIZE) break;
+  }
+  return records;
+};
+
+const collectLeafPaths = (value: unknown, prefix: string, counts: Map<string, number>) => {
+  if (value && typeof value === "object" && !Array.isArray(value)) {
+    Object.entries(value as JsonRecord).forEach(([key, child]) => {
+      collectLeafPaths(child, prefix ? `${prefix}.${key}` : key, counts);
+    });
+  } else if (prefix && !Array.isArray(value) && value !== null) {
+    counts.set(prefix, (counts.get(prefix) || 0) + 1);
+  }
+};
+
+/**
+ * Lists the leaf field paths found in a sample, most frequent first
+ */
+export const discoverFieldPaths = (lines: string[]): string[] => {
+  const counts = new Map<string, number>();
+  getSampleRecords(lines).forEach(record => collectLeafPaths(record, "", counts));
+
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([path]) => path);
+};
+
+/**
+ * Determines whether most non-empty lines of a sample are JSON objects
+ */
+export const looksLikeJsonLines = (lines: string[]): boolean => {
+  const nonEmpty = lines.filter(line => line.trim()).slice(0, DISCOVERY_SAMPLE_SIZE);
+  if (nonEmpty.length === 0) return false;
+  return getSampleRecords(nonEmpty).length > nonEmpty.length / 2;
+};
+
+/**
+ * Picks the most likely timestamp field among discovered paths
+ */
+export const guessTimestampField = (paths: string[]): string | null => {
+  for (const name of TIMESTAMP_FIELD_NAMES) {
+    const match = paths.find(path => path.toLowerCase() === name)
+      || paths.find(path => path.toLowerCase().split(".").pop() === name);
+    if (match) return match;
+  }
+  return null;
+};
+
+/**
+ * Suggests an ingestion config for a freshly uploaded sample
+ */
+export const detectIngestionConfig = (sample: string): IngestionConfig => {
+  const lines = sample.split("\n");
+  if (!looksLikeJsonLines(lines)) return DEFAULT_INGESTION_CONFIG;
+
+  return {
+    ...DEFAULT_INGESTION_CONFIG,
+    format: "jsonl",
+    timestampField: guessTimestampField(discoverFieldPaths(lines)) || DEFAULT_INGESTION_CONFIG.timestampField
+  };
+};
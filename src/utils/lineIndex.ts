@@ -0,0 +1,138 @@
+/**
+ * Random access to the lines of a log source for the raw log viewer. One pass
+ * counts the lines; uncompressed sources in an ASCII-compatible encoding also
+ * remember where every block of lines starts, so later reads can seek to it.
+ * Other sources keep one reader open between reads, which moves forward and
+ * only starts over from the beginning when an earlier line is asked for.
+ */
+import { LogSource } from "@/types/sourceTypes";
+import { streamLogLines, streamSourceBytes } from "@/utils/logStream";
+
+const CHECKPOINT_LINES = 1000;
+const NEWLINE = 0x0A;
+
+export interface LineIndex {
+  source: LogSource;
+  lineCount: number;
+  checkpoints: number[]; // Byte offset of line 1 + i * CHECKPOINT_LINES; empty when the source cannot seek
+}
+
+// Where reads of a source without checkpoints left off
+interface LineCursor {
+  lines: AsyncGenerator<string[]>;
+  batch: string[];
+  batchPos: number;
+  lineNumber: number; // Lines consumed so far
+}
+
+const cursors = new WeakMap<LineIndex, LineCursor>();
+// Reads sharing a cursor run one after another
+const cursorReads = new WeakMap<LineIndex, Promise<unknown>>();
+
+// In UTF-16 a newline byte may be half of another character
+const isByteScannable = (source: LogSource): boolean => !source.encoding.toLowerCase().startsWith('utf-16');
+
+/**
+ * Counts the lines of a source the way the parser numbers them, recording
+ * checkpoints when the source can seek
+ */
+export const buildLineIndex = async (
+  source: LogSource,
+  onProgress?: (bytesRead: number) => void
+): Promise<LineIndex> => {
+  if (!isByteScannable(source)) {
+    let lineCount = 0;
+    for await (const lines of streamLogLines(source, onProgress)) {
+      lineCount += lines.length;
+    }
+    return { source, lineCount, checkpoints: [] };
+  }
+
+  const seekable = source.compression === 'none';
+  const checkpoints: number[] = seekable ? [0] : [];
+  let newlines = 0;
+  let offset = 0;
+  let trailingText = false; // Bytes after the last newline form one more line
+
+  for await (const chunks of streamSourceBytes(source, onProgress)) {
+    for (const chunk of chunks) {
+      if (chunk.length === 0) continue;
+      for (let i = chunk.indexOf(NEWLINE); i !== -1; i = chunk.indexOf(NEWLINE, i + 1)) {
+        newlines++;
+        if (seekable && newlines % CHECKPOINT_LINES === 0) checkpoints.push(offset + i + 1);
+      }
+      trailingText = chunk[chunk.length - 1] !== NEWLINE;
+      offset += chunk.length;
+    }
+  }
+
+  return { source, lineCount: newlines + (trailingText ? 1 : 0), checkpoints };
+};
+
+const readFromCursor = async (index: LineIndex, firstLine: number, count: number): Promise<string[]> => {
+  const lines: string[] = [];
+  if (count <= 0) return lines;
+
+  let cursor = cursors.get(index);
+  if (!cursor || cursor.lineNumber >= firstLine) {
+    await cursor?.lines.return(undefined);
+    cursor = { lines: streamLogLines(index.source), batch: [], batchPos: 0, lineNumber: 0 };
+    cursors.set(index, cursor);
+  }
+
+  try {
+    while (lines.length < count) {
+      if (cursor.batchPos >= cursor.batch.length) {
+        const next = await cursor.lines.next();
+        if (next.done) break;
+        cursor.batch = next.value;
+        cursor.batchPos = 0;
+        continue;
+      }
+
+      const line = cursor.batch[cursor.batchPos++];
+      cursor.lineNumber++;
+      if (cursor.lineNumber >= firstLine) lines.push(line);
+    }
+  } catch (error) {
+    cursors.delete(index);
+    throw error;
+  }
+  return lines;
+};
+
+/**
+ * Reads up to `count` lines starting at a 1-based line number
+ */
+export const readLines = async (index: LineIndex, firstLine: number, count: number): Promise<string[]> => {
+  const { source, checkpoints } = index;
+  if (checkpoints.length === 0) {
+    const read = (cursorReads.get(index) ?? Promise.resolve())
+      .catch(() => undefined)
+      .then(() => readFromCursor(index, firstLine, count));
+    cursorReads.set(index, read);
+    return read;
+  }
+
+  const checkpoint = Math.min(Math.floor((firstLine - 1) / CHECKPOINT_LINES), checkpoints.length - 1);
+
+  let reader = source;
+  let lineNumber = 0;
+  if (checkpoint > 0) {
+    const blob = source.blob.slice(checkpoints[checkpoint]);
+    reader = { ...source, blob, size: blob.size };
+    lineNumber = checkpoint * CHECKPOINT_LINES;
+  }
+
+  const lines: string[] = [];
+  if (count <= 0) return lines;
+  for await (const batch of streamLogLines(reader)) {
+    for (const line of batch) {
+      lineNumber++;
+      if (lineNumber < firstLine) continue;
+      lines.push(line);
+      if (lines.length >= count) return lines;
+    }
+  }
+  return lines;
+};
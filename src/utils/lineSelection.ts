@@ -0,0 +1,152 @@
+/**
+ * Links between chart points and the log lines they were extracted from, in
+ * both directions: points to the lines to show, and lines to the time to mark
+ */
+import { LINE_COUNT_KEY, LINE_KEY, SOURCE_KEY } from "@/types/chartTypes";
+
+type ChartPoint = Record<string, number | string>;
+
+export interface LineRange {
+  start: number;
+  end: number; // Inclusive; later than start for multi-line events
+}
+
+export interface LineSelection {
+  source: string;
+  ranges: LineRange[]; // Ascending and not overlapping
+}
+
+export interface LineTimeLookup {
+  lines: number[]; // Ascending
+  timestamps: number[];
+}
+
+// Brushing a long range only highlights this many events
+const MAX_SELECTED_RANGES = 10000;
+
+const getLineRange = (point: ChartPoint): LineRange => {
+  const start = Number(point[LINE_KEY]);
+  return { start, end: start + Math.max(Number(point[LINE_COUNT_KEY] || 1), 1) - 1 };
+};
+
+const hasLine = (point: ChartPoint | undefined): point is ChartPoint => {
+  return !!point && typeof point[LINE_KEY] === 'number' && typeof point[SOURCE_KEY] === 'string';
+};
+
+// Index of the first point at or after a time, in points sorted by time
+const lowerBound = (points: ChartPoint[], timestamp: number): number => {
+  let low = 0;
+  let high = points.length;
+  while (low < high) {
+    const middle = (low + high) >>> 1;
+    if (Number(points[middle].timestamp) < timestamp) low = middle + 1;
+    else high = middle;
+  }
+  return low;
+};
+
+/**
+ * Lines of the point with a line nearest to a time
+ */
+export const selectLinesAt = (points: ChartPoint[], timestamp: number): LineSelection | null => {
+  const index = lowerBound(points, timestamp);
+  let before = index - 1;
+  let after = index;
+  while (before >= 0 && !hasLine(points[before])) before--;
+  while (after < points.length && !hasLine(points[after])) after++;
+
+  const candidates = [points[before], points[after]].filter(hasLine);
+  if (candidates.length === 0) return null;
+  const nearest = candidates.reduce((best, point) =>
+    Math.abs(Number(point.timestamp) - timestamp) < Math.abs(Number(best.timestamp) - timestamp) ? point : best
+  );
+  return { source: String(nearest[SOURCE_KEY]), ranges: [getLineRange(nearest)] };
+};
+
+/**
+ * Lines of every point within a time range. Points of several sources are
+ * narrowed to the source of the first one.
+ */
+export const selectLinesInRange = (points: ChartPoint[], start: number, end: number): LineSelection | null => {
+  let source: string | undefined;
+  const ranges: LineRange[] = [];
+
+  for (let i = lowerBound(points, start); i < points.length && Number(points[i].timestamp) <= end; i++) {
+    const point = points[i];
+    if (!hasLine(point)) continue;
+    if (source === undefined) source = String(point[SOURCE_KEY]);
+    if (point[SOURCE_KEY] !== source) continue;
+    ranges.push(getLineRange(point));
+    if (ranges.length >= MAX_SELECTED_RANGES) break;
+  }
+  if (source === undefined) return null;
+
+  // Points are in time order, which need not be line order
+  ranges.sort((a, b) => a.start - b.start);
+  const merged: LineRange[] = [];
+  ranges.forEach(range => {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end + 1) last.end = Math.max(last.end, range.end);
+    else merged.push({ ...range });
+  });
+  return { source, ranges: merged };
+};
+
+export const isLineSelected = (selection: LineSelection | null, source: string, line: number): boolean => {
+  if (!selection || selection.source !== source) return false;
+  let low = 0;
+  let high = selection.ranges.length - 1;
+  while (low <= high) {
+    const middle = (low + high) >>> 1;
+    const range = selection.ranges[middle];
+    if (line < range.start) high = middle - 1;
+    else if (line > range.end) low = middle + 1;
+    else return true;
+  }
+  return false;
+};
+
+/**
+ * Time of every line that produced a point, per source
+ */
+export const createLineTimeLookup = (points: ChartPoint[]): Map<string, LineTimeLookup> => {
+  const bySource = new Map<string, { line: number; timestamp: number }[]>();
+  points.forEach(point => {
+    if (!hasLine(point)) return;
+    const source = String(point[SOURCE_KEY]);
+    const entries = bySource.get(source) || [];
+    if (entries.length === 0) bySource.set(source, entries);
+    entries.push({ line: Number(point[LINE_KEY]), timestamp: Number(point.timestamp) });
+  });
+
+  const lookups = new Map<string, LineTimeLookup>();
+  bySource.forEach((entries, source) => {
+    entries.sort((a, b) => a.line - b.line);
+    lookups.set(source, {
+      lines: entries.map(entry => entry.line),
+      timestamps: entries.map(entry => entry.timestamp)
+    });
+  });
+  return lookups;
+};
+
+/**
+ * Time of a line: that of the nearest earlier line with a point, as lines
+ * without values are logged between the points around them
+ */
+export const findLineTimestamp = (lookup: LineTimeLookup | undefined, line: number): number | undefined => {
+  if (!lookup || lookup.lines.length === 0) return undefined;
+  let low = 0;
+  let high = lookup.lines.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const middle = (low + high) >>> 1;
+    if (lookup.lines[middle] <= line) {
+      found = middle;
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return found >= 0 ? lookup.timestamps[found] : undefined;
+};
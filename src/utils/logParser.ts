@@ -0,0 +1,490 @@
+import { RegexPattern } from "@/components/regex/RegexManager";
+import { LINE_COUNT_KEY, LINE_KEY, LogData, SOURCE_KEY } from "@/types/chartTypes";
+import { IngestionConfig } from "@/types/sourceTypes";
+import { TimestampFormat, parseTimestamp } from "@/utils/timestampFormats";
+import {
+  JsonRecord,
+  parseJsonLine,
+  splitFieldPath,
+  getFieldValue,
+  toSignalValue,
+  getTimestampText
+} from "@/utils/jsonLines";
+import { parseLogfmt, toLogfmtSignalValue } from "@/utils/logfmt";
+import { SyslogField, SyslogHeader, parseSyslogHeader } from "@/utils/syslog";
+import { expandNamedGroups, getNamedGroups, normalizeNamedGroups } from "@/utils/regexGroups";
+import { getBucketSeconds, isCountingPattern } from "@/utils/eventCounts";
+import { parseUnitValue } from "@/utils/units";
+import { SeverityCollector, createSeverityCollector, detectSeverity, isErrorLevel, recordSeverity } from "@/utils/severity";
+import { TemplateMiner, addTemplateMessage, createTemplateMiner, getEventMessage } from "@/utils/templateMining";
+
+/**
+ * Pure line parsing helpers shared by the parser worker
+ */
+
+// Parsed representations of a line, each computed at most once per line
+interface LineContext {
+  line: string;
+  record: JsonRecord | null;
+  source?: string; // Name of the file the line comes from
+  logfmtFields?: Record<string, string>;
+  syslogHeader?: SyslogHeader | null;
+}
+
+// Pulls a pattern's raw value out of a line
+type ValueExtractor = (context: LineContext) => number | string | undefined;
+
+const getLogfmtFields = (context: LineContext): Record<string, string> => {
+  if (!context.logfmtFields) context.logfmtFields = parseLogfmt(context.line);
+  return context.logfmtFields;
+};
+
+const getSyslogHeader = (context: LineContext): SyslogHeader | null => {
+  if (context.syslogHeader === undefined) context.syslogHeader = parseSyslogHeader(context.line);
+  return context.syslogHeader;
+};
+
+// Source names only change between files, so their matches are cached
+const createSourceExtractor = (regex: RegExp): ValueExtractor => {
+  const cache = new Map<string, number | string | undefined>();
+  return ({ source }) => {
+    if (source === undefined) return undefined;
+    if (!cache.has(source)) {
+      // Alternatives may capture in different groups; the first one that matched wins
+      const match = source.match(regex);
+      const value = match?.slice(1).find(group => group !== undefined);
+      cache.set(source, value === undefined || isNaN(Number(value)) ? value : Number(value));
+    }
+    return cache.get(source);
+  };
+};
+
+// Converts a captured string to a number when it is numeric
+const toCapturedValue = (value: string): number | string => {
+  return isNaN(Number(value)) ? value : Number(value);
+};
+
+/**
+ * Compiles a pattern with named groups into one entry per group. The groups
+ * share a single match per line.
+ */
+const compileNamedGroups = (pattern: RegexPattern, regex: RegExp, groups: string[]): CompiledPattern[] => {
+  let lastContext: LineContext | null = null;
+  let lastMatch: RegExpMatchArray | null = null;
+
+  const getMatch = (context: LineContext) => {
+    if (context !== lastContext) {
+      lastContext = context;
+      lastMatch = context.line.match(regex);
+    }
+    return lastMatch;
+  };
+
+  return expandNamedGroups(pattern).map((groupPattern, index) => ({
+    pattern: groupPattern,
+    extract: (context) => {
+      const value = getMatch(context)?.groups?.[groups[index]];
+      return value === undefined ? undefined : toCapturedValue(value);
+    }
+  }));
+};
+
+export interface CompiledPattern {
+  pattern: RegexPattern;
+  extract: ValueExtractor | null;
+  bucketMs?: number; // Set for count and rate patterns
+}
+
+export interface ParserState {
+  parsedData: LogData[];
+  stringValues: Record<string, Set<string>>;
+  counts: Record<string, Map<number, number>>; // Matches per bucket start of count patterns
+  firstTimestamp?: number;
+  lastTimestamp?: number;
+  source?: string;
+  severity: SeverityCollector; // Level of every event, whether or not patterns matched it
+  templates: TemplateMiner; // Message templates of error and fatal events
+}
+
+// Empty buckets are only filled in up to this many buckets per pattern
+const MAX_FILLED_BUCKETS = 100000;
+
+/**
+ * Compiles a count or rate pattern. Regexes count every match, whether or not
+ * they capture; other extractors count lines where their value is present.
+ */
+const compileCountingPattern = (pattern: RegexPattern): CompiledPattern => {
+  const bucketMs = getBucketSeconds(pattern) * 1000;
+
+  if (pattern.extractor && pattern.extractor !== 'regex') {
+    const [compiled] = compilePatterns([{ ...pattern, kind: 'value' }]);
+    return { pattern, extract: compiled.extract, bucketMs };
+  }
+
+  try {
+    const regex = new RegExp(normalizeNamedGroups(pattern.pattern));
+    return { pattern, extract: ({ line }) => regex.test(line) ? 1 : undefined, bucketMs };
+  } catch (error) {
+    return { pattern, extract: null, bucketMs };
+  }
+};
+
+/**
+ * Reads the values of a pattern with a unit in the unit's base, dropping values
+ * that are not a number in that unit
+ */
+const withUnit = (compiled: CompiledPattern): CompiledPattern => {
+  const { pattern, extract, bucketMs } = compiled;
+  if (!pattern.unit || !extract || bucketMs) return compiled;
+
+  const unit = pattern.unit;
+  return {
+    ...compiled,
+    extract: (context) => {
+      const value = extract(context);
+      return typeof value === 'string' ? parseUnitValue(value, unit, pattern.unitLabel) : value;
+    }
+  };
+};
+
+/**
+ * Compiles every pattern once up front; invalid expressions are kept with a null extractor.
+ * Patterns with named groups produce one entry per group.
+ */
+export const compilePatterns = (patterns: RegexPattern[]): CompiledPattern[] => {
+  return patterns.flatMap((pattern): CompiledPattern | CompiledPattern[] => {
+    if (isCountingPattern(pattern)) {
+      return compileCountingPattern(pattern);
+    }
+
+    if (pattern.extractor === 'json') {
+      const path = splitFieldPath(pattern.pattern);
+      return {
+        pattern,
+        extract: path.length > 0 ? ({ record }) => record ? toSignalValue(getFieldValue(record, path)) : undefined : null
+      };
+    }
+
+    if (pattern.extractor === 'logfmt') {
+      const key = pattern.pattern.trim();
+      return {
+        pattern,
+        extract: key ? (context) => {
+          const value = getLogfmtFields(context)[key];
+          // Values with a unit keep their suffix for the unit to interpret
+          if (value === undefined || pattern.unit) return value;
+          return toLogfmtSignalValue(value);
+        } : null
+      };
+    }
+
+    if (pattern.extractor === 'syslog') {
+      const field = pattern.pattern.trim() as SyslogField;
+      return {
+        pattern,
+        extract: (context) => getSyslogHeader(context)?.[field]
+      };
+    }
+
+    try {
+      const regex = new RegExp(normalizeNamedGroups(pattern.pattern));
+      if (pattern.extractor === 'source') {
+        return { pattern, extract: createSourceExtractor(regex) };
+      }
+
+      const groups = getNamedGroups(pattern.pattern);
+      if (groups.length > 0) {
+        return compileNamedGroups(pattern, regex, groups);
+      }
+
+      return {
+        pattern,
+        extract: ({ line }) => {
+          const match = line.match(regex);
+          if (!match || match[1] === undefined) return undefined;
+          return toCapturedValue(match[1]);
+        }
+      };
+    } catch (error) {
+      return { pattern, extract: null };
+    }
+  }).map(withUnit);
+};
+
+// Continuation lines kept per event; longer events are truncated so a file
+// without recognizable event starts cannot grow one event without bound
+const MAX_EVENT_LINES = 1000;
+
+export interface LogEvent {
+  text: string; // Physical lines joined with "\n"
+  lineNumber: number; // Line the event starts on
+  lineCount: number;
+}
+
+export interface EventAssembler {
+  push: (line: string, lineNumber: number) => void;
+  flush: () => void;
+}
+
+/**
+ * Builds the test deciding whether a line starts a new event. JSON lines are
+ * always single-line events. Throws for an invalid event start regex.
+ */
+export const createEventStartTest = (
+  ingestion: IngestionConfig,
+  timestampFormat: TimestampFormat
+): (line: string) => boolean => {
+  if (ingestion.format === 'jsonl' || ingestion.multiline === 'off') {
+    return () => true;
+  }
+
+  if (ingestion.multiline === 'pattern') {
+    let regex: RegExp;
+    try {
+      regex = new RegExp(ingestion.eventStartPattern);
+    } catch (error) {
+      throw new Error(`Invalid event start pattern: ${ingestion.eventStartPattern}`);
+    }
+    return (line) => regex.test(line);
+  }
+
+  return (line) => parseTimestamp(line, timestampFormat) !== null;
+};
+
+/**
+ * Groups physical lines into events: lines that do not start an event are
+ * attached to the previous one. Lines before the first event start form an
+ * event of their own.
+ */
+export const createEventAssembler = (
+  isEventStart: (line: string) => boolean,
+  onEvent: (event: LogEvent) => void
+): EventAssembler => {
+  let lines: string[] = [];
+  let lineNumber = 0;
+  let lineCount = 0;
+
+  const flush = () => {
+    if (lineCount === 0) return;
+    onEvent({ text: lines.join("\n"), lineNumber, lineCount });
+    lines = [];
+    lineCount = 0;
+  };
+
+  return {
+    push: (line, number) => {
+      if (lineCount > 0 && !isEventStart(line)) {
+        if (lines.length < MAX_EVENT_LINES) lines.push(line);
+        lineCount++;
+        return;
+      }
+
+      flush();
+      lines = [line];
+      lineNumber = number;
+      lineCount = 1;
+    },
+    flush
+  };
+};
+
+export const createParserState = (): ParserState => ({
+  parsedData: [],
+  stringValues: {},
+  counts: {},
+  severity: createSeverityCollector(),
+  templates: createTemplateMiner()
+});
+
+/**
+ * Starts a new source; its points are tagged with the source name
+ */
+export const beginSource = (state: ParserState, source: string): void => {
+  state.source = source;
+};
+
+/**
+ * Extracts pattern values from a single line (or a multi-line event spanning
+ * lineCount lines) and appends a data point to the state
+ */
+export const parseLine = (
+  line: string,
+  lineNumber: number,
+  compiledPatterns: CompiledPattern[],
+  timestampFormat: TimestampFormat,
+  state: ParserState,
+  ingestion: IngestionConfig,
+  lineCount = 1
+): void => {
+  if (!line.trim()) return;
+
+  // In JSON-lines mode lines that are not JSON objects are skipped
+  const record = ingestion.format === 'jsonl' ? parseJsonLine(line) : null;
+  const timestampText = getTimestampText(line, record, ingestion);
+  if (timestampText === null) return;
+
+  const timestamp = parseTimestamp(timestampText, timestampFormat);
+  if (!timestamp) return;
+
+  const time = timestamp.getTime();
+  if (state.firstTimestamp === undefined || time < state.firstTimestamp) state.firstTimestamp = time;
+  if (state.lastTimestamp === undefined || time > state.lastTimestamp) state.lastTimestamp = time;
+  const level = detectSeverity(line, record);
+  recordSeverity(state.severity, level, time, state.source ?? "", lineNumber);
+  if (level && isErrorLevel(level)) {
+    addTemplateMessage(state.templates, getEventMessage(line, record, timestampFormat), time);
+  }
+
+  const values: { [key: string]: number | string } = {};
+  const context: LineContext = { line, record, source: state.source };
+
+  compiledPatterns.forEach(({ pattern, extract, bucketMs }) => {
+    if (!extract) return;
+
+    const value = extract(context);
+    if (bucketMs) {
+      // Count patterns are turned into data points once all lines are parsed
+      if (value !== undefined) {
+        const counts = state.counts[pattern.name] || (state.counts[pattern.name] = new Map<number, number>());
+        const bucket = Math.floor(time / bucketMs) * bucketMs;
+        counts.set(bucket, (counts.get(bucket) || 0) + 1);
+      }
+      return;
+    }
+
+    if (value !== undefined) {
+      values[pattern.name] = value;
+
+      // Track string values for mapping
+      if (typeof value === 'string') {
+        if (!state.stringValues[pattern.name]) {
+          state.stringValues[pattern.name] = new Set<string>();
+        }
+        state.stringValues[pattern.name].add(value);
+      }
+    }
+  });
+
+  // Points only hold values found on this line; gaps are filled per signal for display
+  if (Object.keys(values).length > 0) {
+    const point: LogData = { timestamp, values, lineNumber, source: state.source };
+    if (lineCount > 1) point.lineCount = lineCount;
+    state.parsedData.push(point);
+  }
+};
+
+/**
+ * Appends one data point per time bucket for count and rate patterns. Buckets
+ * without matches between the first and last parsed line are reported as 0.
+ */
+export const appendCountPoints = (state: ParserState, compiledPatterns: CompiledPattern[]): void => {
+  if (state.firstTimestamp === undefined || state.lastTimestamp === undefined) return;
+
+  const points = new Map<number, LogData>();
+  const getPoint = (bucket: number) => {
+    let point = points.get(bucket);
+    if (!point) {
+      point = { timestamp: new Date(bucket), values: {} };
+      points.set(bucket, point);
+    }
+    return point;
+  };
+
+  compiledPatterns.forEach(({ pattern, bucketMs }) => {
+    if (!bucketMs) return;
+
+    const counts = state.counts[pattern.name] || new Map<number, number>();
+    const toValue = (count: number) => pattern.kind === 'rate' ? count / (bucketMs / 1000) : count;
+    const firstBucket = Math.floor(state.firstTimestamp / bucketMs) * bucketMs;
+    const bucketTotal = Math.floor((state.lastTimestamp - firstBucket) / bucketMs) + 1;
+
+    if (bucketTotal <= MAX_FILLED_BUCKETS) {
+      for (let i = 0; i < bucketTotal; i++) {
+        const bucket = firstBucket + i * bucketMs;
+        getPoint(bucket).values[pattern.name] = toValue(counts.get(bucket) || 0);
+      }
+    } else {
+      counts.forEach((count, bucket) => {
+        getPoint(bucket).values[pattern.name] = toValue(count);
+      });
+    }
+  });
+
+  points.forEach(point => state.parsedData.push(point));
+};
+
+/**
+ * Maps every distinct string value of a pattern to a sequential number. Values
+ * with a saved order keep their position; new values follow in sorted order.
+ */
+export const buildStringValueMap = (
+  stringValues: Record<string, Set<string>>,
+  categoryOrders: Record<string, string[]> = {}
+): Record<string, Record<string, number>> => {
+  const valueMap: Record<string, Record<string, number>> = {};
+
+  Object.entries(stringValues).forEach(([key, valueSet]) => {
+    const order = categoryOrders[key] || [];
+    const known = new Set(order);
+    const newValues = Array.from(valueSet).filter(value => !known.has(value)).sort();
+
+    valueMap[key] = {};
+    [...order, ...newValues].forEach((value, index) => {
+      valueMap[key][value] = index + 1;
+    });
+  });
+
+  return valueMap;
+};
+
+/**
+ * Name of the per-source series of a value, used when signals are split by source
+ */
+export const getSourceSeriesName = (name: string, source: string): string => {
+  return `${name} [${source}]`;
+};
+
+/**
+ * Converts a parsed data point into the flat shape consumed by the charts.
+ * With several sources every value is also written under its per-source name.
+ */
+export const formatDataPoint = (
+  item: LogData,
+  valueMap: Record<string, Record<string, number>>,
+  splitBySource = false
+): Record<string, number | string> => {
+  const dataPoint: Record<string, number | string> = {
+    timestamp: item.timestamp.getTime(),
+  };
+  
+  if (item.source) {
+    dataPoint[SOURCE_KEY] = item.source;
+  }
+  if (item.lineNumber !== undefined) {
+    dataPoint[LINE_KEY] = item.lineNumber;
+    if (item.lineCount) dataPoint[LINE_COUNT_KEY] = item.lineCount;
+  }
+
+  Object.entries(item.values).forEach(([key, value]) => {
+    if (typeof value === 'string') {
+      if (valueMap[key] && valueMap[key][value] !== undefined) {
+        dataPoint[key] = valueMap[key][value];
+        dataPoint[`${key}_original`] = value;
+      } else {
+        dataPoint[key] = 0;
+      }
+    } else {
+      dataPoint[key] = value;
+    }
+
+    if (splitBySource && item.source) {
+      const seriesName = getSourceSeriesName(key, item.source);
+      dataPoint[seriesName] = dataPoint[key];
+      if (dataPoint[`${key}_original`] !== undefined) {
+        dataPoint[`${seriesName}_original`] = dataPoint[`${key}_original`];
+      }
+    }
+  });
+
+  return dataPoint;
+};
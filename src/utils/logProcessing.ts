@@ -1,34 +1,53 @@
 
 import { toast } from "sonner";
 import { RegexPattern } from "@/components/regex/RegexManager";
-import { LogData, Signal, CHART_COLORS } from "@/types/chartTypes";
+import { Signal, ChartPanel, CHART_COLORS } from "@/types/chartTypes";
+import { LogfmtKeyInfo } from "@/utils/logfmt";
+import { expandNamedGroups } from "@/utils/regexGroups";
+import { keepDerivedSignals } from "@/utils/derivedSignals";
 
-// Constants for data processing
-const MAX_SAFE_BATCH_SIZE = 5000;
-const MAX_SAFE_DISPLAYED_POINTS = 10000;
-const CHUNK_SIZE = 10000;
+import { ParserWorkerMessage, ParserWorkerRequest } from "@/types/workerTypes";
+import { IngestionConfig, LogSource } from "@/types/sourceTypes";
+import { LogSearchQuery, LogSearchResult } from "@/types/searchTypes";
+import { SeverityData } from "@/types/severityTypes";
+import { TemplateMiningResult } from "@/types/templateTypes";
+
+const createParserWorker = (): Worker => {
+  return new Worker(new URL("../workers/logParser.worker.ts", import.meta.url), { type: "module" });
+};
 
 /**
- * Main function to process log data in manageable chunks
+ * Main function to process log data. Parsing and formatting run in a dedicated
+ * worker which streams progress back; the returned function cancels the run.
  */
 export const processLogDataInChunks = (
-  content: string,
+  sources: LogSource[],
   regexPatterns: RegexPattern[],
-  setChartData: React.Dispatch<React.SetStateAction<LogData[]>>,
+  timestampFormatId: string,
+  ingestion: IngestionConfig,
+  categoryOrders: Record<string, string[]>,
+  previousSignals: Signal[],
+  previousPanels: ChartPanel[],
   setFormattedChartData: React.Dispatch<React.SetStateAction<any[]>>,
   setSignals: React.Dispatch<React.SetStateAction<Signal[]>>,
   setPanels: React.Dispatch<React.SetStateAction<{id: string; signals: string[]}[]>>,
   setStringValueMap: React.Dispatch<React.SetStateAction<Record<string, Record<string, number>>>>,
+  setSeverityData: React.Dispatch<React.SetStateAction<SeverityData | null>>,
+  setErrorTemplates: React.Dispatch<React.SetStateAction<TemplateMiningResult | null>>,
   setProcessingStatus: React.Dispatch<React.SetStateAction<string>>,
   setIsProcessing: React.Dispatch<React.SetStateAction<boolean>>,
-  formatDataCallback: (data: LogData[], valueMap: Record<string, Record<string, number>>) => void
-) => {
+  formatDataCallback: (
+    formattedData: Record<string, number | string>[],
+    valueMap: Record<string, Record<string, number>>
+  ) => void
+): (() => void) => {
   // Clear previous data
-  setChartData([]);
   setFormattedChartData([]);
+  setSeverityData(null);
+  setErrorTemplates(null);
   
-  // Create signals for each pattern
-  const newSignals: Signal[] = regexPatterns.map((pattern, index) => ({
+  // Create signals for each pattern, or for each named group of a pattern
+  const newSignals: Signal[] = regexPatterns.flatMap(expandNamedGroups).map((pattern, index) => ({
     id: `signal-${Date.now()}-${index}`,
     name: pattern.name,
     pattern,
@@ -36,343 +55,174 @@ export const processLogDataInChunks = (
     visible: true
   }));
   
-  setSignals(newSignals);
-  setPanels([{ id: 'panel-1', signals: newSignals.map(s => s.id) }]);
-  
-  // Split content into lines
-  const lines = content.split('\n');
-  const totalLines = lines.length;
-  const chunks = Math.ceil(totalLines / CHUNK_SIZE);
-  
-  console.log(`Processing ${totalLines} lines in ${chunks} chunks of ${CHUNK_SIZE}`);
-  toast.info(`Processing log with ${totalLines.toLocaleString()} lines`);
-  
-  let currentChunk = 0;
-  const parsedData: LogData[] = [];
-  const stringValues: Record<string, Set<string>> = {};
-  const lastSeenValues: Record<string, number | string> = {};
+  // Derived signals whose inputs still exist outlive a re-parse; they are
+  // recomputed from the new data and stay on the panel with the new signals
+  const derivedSignals = keepDerivedSignals(previousSignals, newSignals.map(signal => signal.name));
+  const derivedIds = new Set(derivedSignals.map(signal => signal.id));
+  const panelDerivedIds = new Set(previousPanels.flatMap(panel => panel.signals).filter(id => derivedIds.has(id)));
+  setSignals([...newSignals, ...derivedSignals]);
+  setPanels([{ id: 'panel-1', signals: [...newSignals.map(s => s.id), ...panelDerivedIds] }]);
+  
+  const worker = createParserWorker();
+  let finished = false;
+  let lastToastProgress = 0;
+  
+  const finish = () => {
+    finished = true;
+    worker.terminate();
+    setIsProcessing(false);
+    setProcessingStatus("");
+  };
   
-  // Process chunks sequentially to avoid memory issues
-  const processChunk = () => {
-    if (currentChunk >= chunks) {
-      // All chunks processed, move to finalizing
-      finalizeProcessing(parsedData, stringValues);
-      return;
-    }
-    
-    const progress = Math.round(((currentChunk + 1) / chunks) * 100);
-    setProcessingStatus(`Processing chunk ${currentChunk + 1} of ${chunks} (${progress}%)`);
-    
-    const startIdx = currentChunk * CHUNK_SIZE;
-    const endIdx = Math.min((currentChunk + 1) * CHUNK_SIZE, totalLines);
-    const chunkLines = lines.slice(startIdx, endIdx);
+  worker.onmessage = (event: MessageEvent<ParserWorkerMessage>) => {
+    const message = event.data;
     
-    // Process each line in this chunk
-    chunkLines.forEach((line) => {
-      if (!line.trim()) return;
+    if (message.type === 'progress') {
+      setProcessingStatus(message.status);
       
-      // Match timestamp pattern
-      const timestampMatch = line.match(/^(\d{4}\/\d{2}\/\d{2} \d{2}:\d{2}:\d{2}\.\d{6})/);
-      
-      if (timestampMatch) {
-        try {
-          const timestampStr = timestampMatch[1];
-          // Convert to ISO format for parsing
-          const isoTimestamp = timestampStr
-            .replace(/\//g, '-')
-            .replace(' ', 'T')
-            .substring(0, 23);
-          
-          const timestamp = new Date(isoTimestamp);
-          
-          if (isNaN(timestamp.getTime())) {
-            return; // Skip invalid timestamps
-          }
-          
-          const values: { [key: string]: number | string } = {};
-          let hasNewValue = false;
-          
-          // Try each regex pattern
-          regexPatterns.forEach((pattern) => {
-            try {
-              const regex = new RegExp(pattern.pattern);
-              const match = line.match(regex);
-              
-              if (match && match[1] !== undefined) {
-                const value = isNaN(Number(match[1])) ? match[1] : Number(match[1]);
-                values[pattern.name] = value;
-                lastSeenValues[pattern.name] = value;
-                hasNewValue = true;
-                
-                // Track string values for mapping
-                if (typeof value === 'string') {
-                  if (!stringValues[pattern.name]) {
-                    stringValues[pattern.name] = new Set<string>();
-                  }
-                  stringValues[pattern.name].add(value);
-                }
-              }
-            } catch (error) {
-              // Silently ignore regex errors
-            }
-          });
-          
-          // Add last seen values for patterns not found in this line
-          regexPatterns.forEach((pattern) => {
-            if (!(pattern.name in values) && pattern.name in lastSeenValues) {
-              values[pattern.name] = lastSeenValues[pattern.name];
-            }
-          });
-          
-          // Only add points with values and at least one new value
-          if (Object.keys(values).length > 0 && hasNewValue) {
-            parsedData.push({ timestamp, values });
-          }
-        } catch (error) {
-          // Silently ignore date parsing errors
-        }
+      // Report parsing progress at 10% intervals
+      if (message.status.startsWith("Processing") && message.progress >= lastToastProgress + 10) {
+        lastToastProgress = message.progress - (message.progress % 10);
+        toast.info(`Processing: ${message.progress}% - Found ${message.dataPoints.toLocaleString()} data points so far`);
       }
-    });
+      return;
+    }
     
-    // Report progress at 10% intervals
-    if (progress % 10 === 0 || progress === 100) {
-      toast.info(`Processing: ${progress}% - Found ${parsedData.length.toLocaleString()} data points so far`);
-      console.log(`Processing: ${progress}% - Found ${parsedData.length} data points so far`);
+    if (message.type === 'error') {
+      console.error("Log parser worker error:", message.message);
+      toast.warning(message.message);
+      finish();
+      return;
     }
     
-    currentChunk++;
+    if (message.type !== 'result') return;
     
-    // Use setTimeout with 0ms to allow UI updates
-    setTimeout(processChunk, 0);
-  };
-  
-  // Final processing after all chunks are done
-  const finalizeProcessing = (parsedData: LogData[], stringValues: Record<string, Set<string>>) => {
     try {
-      setProcessingStatus("Finalizing data processing");
-      console.log("Finalizing data processing, found", parsedData.length, "data points");
+      console.log("Finalizing data processing, found", message.formattedData.length, "data points");
+      
+      // Levels are detected on every event, so they are shown even when no pattern matched
+      setSeverityData(message.severity);
+      setErrorTemplates(message.errorTemplates);
       
-      if (parsedData.length === 0) {
-        toast.warning("No matching data found with the provided patterns");
-        setIsProcessing(false);
-        setProcessingStatus("");
+      if (message.formattedData.length === 0) {
+        if (regexPatterns.length > 0) toast.warning("No matching data found with the provided patterns");
         return;
       }
       
-      // Sort data chronologically
-      parsedData.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
-      
-      // Create mapping for string values
-      const newStringValueMap: Record<string, Record<string, number>> = {};
-      
-      Object.entries(stringValues).forEach(([key, valueSet]) => {
-        newStringValueMap[key] = {};
-        Array.from(valueSet).sort().forEach((value, index) => {
-          newStringValueMap[key][value] = index + 1;
-        });
-      });
-      
-      console.log("String value mappings:", newStringValueMap);
-      setStringValueMap(newStringValueMap);
+      console.log("String value mappings:", message.stringValueMap);
+      setStringValueMap(message.stringValueMap);
       
-      // Set the raw chart data
-      setChartData(parsedData);
-      
-      toast.success(`Found ${parsedData.length.toLocaleString()} data points with the selected patterns`);
-      setProcessingStatus("Formatting data for display");
-      
-      // Important: We are now passing all data points directly without sampling
-      // This is vital to ensure all data points are displayed in the segmented charts
-      formatAllDataPoints(parsedData, newStringValueMap, formatDataCallback, setIsProcessing, setProcessingStatus);
+      toast.success(`Found ${message.formattedData.length.toLocaleString()} data points with the selected patterns`);
+      formatDataCallback(message.formattedData, message.stringValueMap);
     } catch (error) {
       console.error("Error finalizing data:", error);
-      toast.error("Error finalizing data");
-      setIsProcessing(false);
-      setProcessingStatus("");
+      toast.error("Could not display chart data");
+    } finally {
+      finish();
     }
   };
   
-  // Start processing the first chunk
-  processChunk();
-};
-
-/**
- * Format all data points without sampling to ensure complete visualization
- */
-const formatAllDataPoints = (
-  data: LogData[],
-  valueMap: Record<string, Record<string, number>>,
-  formatDataCallback: (data: LogData[], valueMap: Record<string, Record<string, number>>) => void,
-  setIsProcessing: React.Dispatch<React.SetStateAction<boolean>>,
-  setProcessingStatus: React.Dispatch<React.SetStateAction<string>>
-) => {
-  // Use a worker-like approach with setTimeout to prevent UI freezing
-  setTimeout(() => {
-    try {
-      console.log(`Formatting all ${data.length} data points`);
-      setProcessingStatus(`Formatting ${data.length.toLocaleString()} data points`);
-      
-      // Process in batches to avoid UI freezing
-      formatDataInBatches(data, valueMap, formatDataCallback, setIsProcessing, setProcessingStatus);
-    } catch (error) {
-      console.error("Error in data formatting:", error);
-      toast.error("Error formatting data. Trying with reduced dataset...");
-      
-      // Fall back to sampled data if necessary
-      const sampledData = evenlyDistributedSample(data, Math.max(5, Math.ceil(data.length / 5000)));
-      try {
-        formatDataCallback(sampledData, valueMap);
-      } catch (e) {
-        console.error("Fatal error in data formatting:", e);
-        toast.error("Could not process data. Please try with a smaller dataset or fewer patterns.");
-      } finally {
-        setIsProcessing(false);
-        setProcessingStatus("");
-      }
-    }
-  }, 100);  // Short delay to allow UI to update
-};
-
-/**
- * Format data in small batches to avoid UI freezing
- */
-const formatDataInBatches = (
-  data: LogData[],
-  valueMap: Record<string, Record<string, number>>,
-  formatDataCallback: (data: LogData[], valueMap: Record<string, Record<string, number>>) => void,
-  setIsProcessing: React.Dispatch<React.SetStateAction<boolean>>,
-  setProcessingStatus: React.Dispatch<React.SetStateAction<string>>
-) => {
-  const batchSize = MAX_SAFE_BATCH_SIZE;
-  const batches = Math.ceil(data.length / batchSize);
-  
-  console.log(`Formatting in ${batches} batches of ${batchSize} points each`);
-  
-  // Pre-allocate the result array
-  const formattedData: any[] = new Array(data.length);
-  
-  let currentBatch = 0;
+  worker.onerror = (event) => {
+    console.error("Log parser worker failed:", event.message);
+    toast.error("Error processing log data");
+    finish();
+  };
   
-  const processBatch = () => {
-    if (currentBatch >= batches) {
-      console.log("All batches processed, returning result");
-      try {
-        // We now have all data points formatted
-        console.log(`Successfully formatted all ${data.length} data points`);
-        
-        // Call the callback with the formatted data
-        formatDataCallback(data, valueMap);
-        setProcessingStatus("");
-        setIsProcessing(false);
-        return;
-      } catch (error) {
-        console.error("Error in final callback:", error);
-        toast.error("Error preparing chart. Trying with smaller dataset...");
-        
-        // Extreme fallback - try with much smaller dataset
-        const reducedData = evenlyDistributedSample(data, Math.max(20, Math.ceil(data.length / 1000)));
-        try {
-          formatDataCallback(reducedData, valueMap);
-        } catch (e) {
-          console.error("Fatal error in reduced data formatting:", e);
-          toast.error("Could not display chart data");
-        } finally {
-          setIsProcessing(false);
-          setProcessingStatus("");
-        }
-      }
-      return;
-    }
-    
-    const startIdx = currentBatch * batchSize;
-    const endIdx = Math.min((currentBatch + 1) * batchSize, data.length);
-    const progress = Math.round(((currentBatch + 1) / batches) * 100);
-    
-    setProcessingStatus(`Formatting data (${progress}%)`);
-    
-    for (let i = startIdx; i < endIdx; i++) {
-      const item = data[i];
-      const dataPoint: any = {
-        timestamp: item.timestamp.getTime(),
-      };
-      
-      Object.entries(item.values).forEach(([key, value]) => {
-        if (typeof value === 'string') {
-          if (valueMap[key] && valueMap[key][value] !== undefined) {
-            dataPoint[key] = valueMap[key][value];
-            dataPoint[`${key}_original`] = value;
-          } else {
-            dataPoint[key] = 0;
-          }
-        } else {
-          dataPoint[key] = value;
-        }
-      });
-      
-      formattedData[i] = dataPoint;
-    }
-    
-    currentBatch++;
-    
-    // Report progress at meaningful intervals
-    if (progress % 25 === 0 || progress === 100) {
-      console.log(`Formatting: ${progress}%`);
-    }
-    
-    // Continue with next batch
-    setTimeout(processBatch, 0);
+  const request: ParserWorkerRequest = {
+    type: 'parse',
+    sources,
+    patterns: regexPatterns,
+    timestampFormatId,
+    ingestion,
+    categoryOrders
   };
+  worker.postMessage(request);
+  toast.info("Processing log data in the background");
   
-  // Start processing the first batch
-  processBatch();
+  return () => {
+    if (finished) return;
+    finish();
+    console.log("Log processing cancelled");
+  };
 };
 
 /**
- * Get an appropriate sampling rate based on dataset size
+ * Scans the full sources for logfmt keys in the parser worker.
+ * The returned function cancels the scan.
  */
-const getSafeDataSampleRate = (dataLength: number): number => {
-  if (dataLength <= MAX_SAFE_DISPLAYED_POINTS) return 1; // No sampling needed
+export const discoverLogfmtKeys = (
+  sources: LogSource[],
+  setStatus: (status: string) => void,
+  onKeys: (keys: LogfmtKeyInfo[], lineCount: number) => void,
+  onError: (message: string) => void
+): (() => void) => {
+  const worker = createParserWorker();
+  
+  worker.onmessage = (event: MessageEvent<ParserWorkerMessage>) => {
+    const message = event.data;
+    
+    if (message.type === 'progress') {
+      setStatus(message.status);
+    } else if (message.type === 'keys') {
+      worker.terminate();
+      onKeys(message.keys, message.lineCount);
+    } else if (message.type === 'error') {
+      console.error("Key discovery failed:", message.message);
+      worker.terminate();
+      onError(message.message);
+    }
+  };
   
-  // Calculate sampling rate to get approximately MAX_SAFE_DISPLAYED_POINTS
-  const baseSamplingRate = Math.ceil(dataLength / MAX_SAFE_DISPLAYED_POINTS);
+  worker.onerror = (event) => {
+    console.error("Key discovery worker failed:", event.message);
+    worker.terminate();
+    onError("Failed to scan log files for keys");
+  };
   
-  // Adjust based on data size
-  if (dataLength > 1000000) return Math.max(baseSamplingRate, 50);
-  if (dataLength > 500000) return Math.max(baseSamplingRate, 25);
-  if (dataLength > 100000) return Math.max(baseSamplingRate, 10);
-  if (dataLength > 50000) return Math.max(baseSamplingRate, 5);
+  const request: ParserWorkerRequest = { type: 'discover-keys', sources };
+  worker.postMessage(request);
   
-  return baseSamplingRate;
+  return () => worker.terminate();
 };
 
 /**
- * Creates an evenly distributed sample that preserves the shape of the data
+ * Searches every line of the sources in a worker. The returned function
+ * cancels the search.
  */
-export const evenlyDistributedSample = (data: LogData[], sampleRate: number): LogData[] => {
-  if (sampleRate <= 1 || data.length <= 1) return data;
-  
-  const result: LogData[] = [];
-  
-  // Always include first point
-  result.push(data[0]);
-  
-  // Add evenly distributed points
-  for (let i = sampleRate; i < data.length - 1; i += sampleRate) {
-    const index = Math.floor(i);
-    result.push(data[index]);
-  }
-  
-  // Always include last point
-  if (data.length > 1) {
-    result.push(data[data.length - 1]);
-  }
-  
-  return result;
-};
+export const searchLogs = (
+  sources: LogSource[],
+  query: LogSearchQuery,
+  timestampFormatId: string,
+  ingestion: IngestionConfig,
+  setStatus: (status: string) => void,
+  onResult: (result: LogSearchResult) => void,
+  onError: (message: string) => void
+): (() => void) => {
+  const worker = createParserWorker();
 
-/**
- * Legacy functions for backward compatibility
- */
-export const formatDataWithProgressUpdates = formatAllDataPoints;
-export const formatLargeDatasetInBatches = formatDataInBatches;
-export const safelyFormatData = formatAllDataPoints;
+  worker.onmessage = (event: MessageEvent<ParserWorkerMessage>) => {
+    const message = event.data;
+
+    if (message.type === 'progress') {
+      setStatus(message.status);
+    } else if (message.type === 'search-result') {
+      worker.terminate();
+      onResult({ hits: message.hits, hitCount: message.hitCount, hitTimes: message.hitTimes });
+    } else if (message.type === 'error') {
+      console.error("Log search failed:", message.message);
+      worker.terminate();
+      onError(message.message);
+    }
+  };
+
+  worker.onerror = (event) => {
+    console.error("Log search worker failed:", event.message);
+    worker.terminate();
+    onError("Failed to search log files");
+  };
+
+  const request: ParserWorkerRequest = { type: 'search', sources, query, timestampFormatId, ingestion };
+  worker.postMessage(request);
+
+  return () => worker.terminate();
+};
@@ -0,0 +1,70 @@
+/**
+ * Line matching for the log search, shared by the worker running the search
+ * and the search bar validating queries
+ */
+import { LogSearchQuery } from "@/types/searchTypes";
+
+type LineTest = (line: string) => boolean;
+
+const escapeRegex = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const compileTerm = (term: string, query: LogSearchQuery): LineTest => {
+  if (query.mode === 'regex') {
+    let regex: RegExp;
+    try {
+      regex = new RegExp(term, query.caseSensitive ? '' : 'i');
+    } catch (error) {
+      throw new Error(`Invalid regular expression "${term}": ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return line => regex.test(line);
+  }
+
+  if (query.caseSensitive) return line => line.includes(term);
+  // Lowercasing every line is slower than a case-insensitive regex
+  const regex = new RegExp(escapeRegex(term), 'i');
+  return line => regex.test(line);
+};
+
+/**
+ * Compiles a query into a test for single lines. Throws on invalid regular expressions.
+ */
+export const createLineMatcher = (query: LogSearchQuery): LineTest => {
+  const terms = [query.query, ...query.include].filter(term => term !== "");
+  if (terms.length === 0) throw new Error("Enter a search query or an include filter");
+
+  const required = terms.map(term => compileTerm(term, query));
+  const excluded = query.exclude.filter(term => term !== "").map(term => compileTerm(term, query));
+  return line => required.every(test => test(line)) && !excluded.some(test => test(line));
+};
+
+/**
+ * Number of values at or after a time, in sorted times
+ */
+const lowerBound = (times: Float64Array, time: number): number => {
+  let low = 0;
+  let high = times.length;
+  while (low < high) {
+    const middle = (low + high) >>> 1;
+    if (times[middle] < time) low = middle + 1;
+    else high = middle;
+  }
+  return low;
+};
+
+/**
+ * Hits per equal slice of a time range
+ */
+export const getHitDensity = (hitTimes: Float64Array, start: number, end: number, binCount: number): number[] => {
+  const bins: number[] = new Array(binCount).fill(0);
+  if (end <= start || binCount <= 0) return bins;
+
+  const binMs = (end - start) / binCount;
+  let previous = lowerBound(hitTimes, start);
+  for (let bin = 0; bin < binCount; bin++) {
+    // The last bin includes hits exactly at the end of the range
+    const next = bin === binCount - 1 ? lowerBound(hitTimes, end + 1) : lowerBound(hitTimes, start + (bin + 1) * binMs);
+    bins[bin] = next - previous;
+    previous = next;
+  }
+  return bins;
+};
@@ -0,0 +1,313 @@
+/**
+ * Streaming line reader for log sources, built on Blob.stream()
+ */
+import * as pako from "pako";
+import { LogSource } from "@/types/sourceTypes";
+import { decodeBzip2 } from "@/utils/bzip2";
+import { InputBuffer } from "@/utils/lzma";
+import { decodeXz } from "@/utils/xz";
+
+// Size of the head of a file kept for previews, detection and pattern testing
+const SAMPLE_MAX_BYTES = 256 * 1024;
+const SAMPLE_MAX_LINES = 2000;
+// Bytes inspected when detecting the character encoding
+const HEAD_MAX_BYTES = 64 * 1024;
+
+type ByteTransform = (chunk: Uint8Array) => Uint8Array[];
+
+const GZIP_TRAILER_BYTES = 8; // CRC32 and uncompressed size
+
+/**
+ * Length of the gzip member header at the start of `bytes`, or -1 when more
+ * bytes are needed to read it
+ */
+const getGzipHeaderLength = (bytes: Uint8Array): number => {
+  if (bytes.length < 10) return -1;
+  if (bytes[0] !== 0x1f || bytes[1] !== 0x8b || bytes[2] !== 8) {
+    throw new Error("Failed to decompress GZIP data: invalid gzip header");
+  }
+
+  const flags = bytes[3];
+  let offset = 10;
+  if (flags & 0x04) { // FEXTRA
+    if (bytes.length < offset + 2) return -1;
+    offset += 2 + (bytes[offset] | (bytes[offset + 1] << 8));
+  }
+  // FNAME and FCOMMENT are zero-terminated
+  for (const flag of [0x08, 0x10]) {
+    if (!(flags & flag)) continue;
+    const terminator = bytes.indexOf(0, offset);
+    if (terminator < 0) return -1;
+    offset = terminator + 1;
+  }
+  if (flags & 0x02) offset += 2; // FHCRC
+
+  return offset <= bytes.length ? offset : -1;
+};
+
+const concatBytes = (a: Uint8Array, b: Uint8Array): Uint8Array => {
+  if (a.length === 0) return b;
+  const joined = new Uint8Array(a.length + b.length);
+  joined.set(a);
+  joined.set(b, a.length);
+  return joined;
+};
+
+/**
+ * Creates an incremental gunzip transform. Concatenated gzip members
+ * (as produced by some log rotators) are inflated one after another, wherever
+ * in a chunk a member ends. The gzip framing is read here and only the
+ * deflate data goes to a raw inflater.
+ */
+export const createGunzip = (): { push: ByteTransform; finish: () => void } => {
+  let output: Uint8Array[] = [];
+  let inflator: pako.Inflate | null = null;
+  let pending: Uint8Array = new Uint8Array(0); // Bytes of a header not yet complete
+  let trailerBytes = 0; // Trailer bytes of the last member still to skip
+  let members = 0;
+
+  const startMember = () => {
+    inflator = new pako.Inflate({ raw: true });
+    inflator.onData = (chunk: Uint8Array) => {
+      output.push(chunk);
+    };
+  };
+
+  return {
+    push: (chunk) => {
+      let input = chunk;
+
+      while (input.length > 0) {
+        if (inflator) {
+          inflator.push(input, false);
+          if (inflator.err) {
+            throw new Error(`Failed to decompress GZIP data: ${inflator.msg}`);
+          }
+          if (!inflator.ended) break;
+
+          // The bytes after the end of the member's deflate data
+          input = input.subarray(input.length - inflator.strm.avail_in);
+          inflator = null;
+          trailerBytes = GZIP_TRAILER_BYTES;
+          continue;
+        }
+
+        if (trailerBytes > 0) {
+          const skipped = Math.min(trailerBytes, input.length);
+          trailerBytes -= skipped;
+          input = input.subarray(skipped);
+          if (trailerBytes === 0) members++;
+          continue;
+        }
+
+        // Some writers pad the file with zeros after the last member
+        if (members > 0 && pending.length === 0 && input[0] === 0) {
+          const next = input.findIndex(byte => byte !== 0);
+          input = next < 0 ? new Uint8Array(0) : input.subarray(next);
+          continue;
+        }
+
+        pending = concatBytes(pending, input);
+        const headerLength = getGzipHeaderLength(pending);
+        if (headerLength < 0) break;
+
+        input = pending.subarray(headerLength);
+        pending = new Uint8Array(0);
+        startMember();
+      }
+
+      const produced = output;
+      output = [];
+      return produced;
+    },
+    finish: () => {
+      if (inflator || trailerBytes > 0 || pending.length > 0 || members === 0) {
+        throw new Error("Unexpected end of GZIP data. The file may be truncated.");
+      }
+    }
+  };
+};
+
+/**
+ * Reads a log source chunk by chunk and yields its decompressed bytes.
+ * The optional callback receives the number of (compressed) bytes consumed.
+ */
+export async function* streamSourceBytes(
+  source: LogSource,
+  onProgress?: (bytesRead: number) => void
+): AsyncGenerator<Uint8Array[]> {
+  const reader = source.blob.stream().getReader();
+
+  if (source.compression === 'bzip2' || source.compression === 'xz') {
+    // These decoders pull compressed input as they need it
+    const input = new InputBuffer();
+    const decode = source.compression === 'bzip2' ? decodeBzip2 : decodeXz;
+
+    try {
+      for (const output of decode(input)) {
+        if ('chunk' in output) {
+          onProgress?.(output.inputPos);
+          yield [output.chunk];
+          continue;
+        }
+
+        const { done, value } = await reader.read();
+        if (done) input.close();
+        else input.append(value);
+      }
+    } finally {
+      reader.cancel().catch(() => undefined);
+    }
+    return;
+  }
+
+  const gunzip = source.compression === 'gzip' ? createGunzip() : null;
+  let bytesRead = 0;
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      bytesRead += value.length;
+      const chunks = gunzip ? gunzip.push(value) : [value];
+      onProgress?.(bytesRead);
+      yield chunks;
+    }
+
+    gunzip?.finish();
+  } finally {
+    // Stops the underlying read when the consumer breaks out early
+    reader.cancel().catch(() => undefined);
+  }
+}
+
+export interface SequentialReader {
+  read: (offset: number, length: number) => Promise<Uint8Array[]>;
+  close: () => Promise<void>;
+}
+
+/**
+ * Forward-only access to byte ranges of a stream of chunks, e.g. the
+ * decompressed bytes of a source. Each read must start at or after the end
+ * of the previous one; skipped bytes are dropped. Reads at the end of the
+ * stream return fewer bytes.
+ */
+export const createSequentialReader = (stream: AsyncIterator<Uint8Array[]>): SequentialReader => {
+  const buffered: Uint8Array[] = []; // Chunks not yet consumed, starting at `position`
+  let position = 0;
+  let done = false;
+
+  // Consumes up to `length` bytes, keeping them when asked to
+  const take = async (length: number, keep: boolean): Promise<Uint8Array[]> => {
+    const taken: Uint8Array[] = [];
+    let remaining = length;
+
+    while (remaining > 0) {
+      if (buffered.length === 0) {
+        if (done) break;
+        const next = await stream.next();
+        if (next.done) done = true;
+        else buffered.push(...next.value.filter(chunk => chunk.length > 0));
+        continue;
+      }
+
+      const head = buffered[0];
+      const used = Math.min(head.length, remaining);
+      if (keep) taken.push(used === head.length ? head : head.subarray(0, used));
+      if (used === head.length) buffered.shift();
+      else buffered[0] = head.subarray(used);
+      position += used;
+      remaining -= used;
+    }
+
+    return taken;
+  };
+
+  return {
+    read: async (offset, length) => {
+      if (offset < position) {
+        throw new Error("Stream reads must move forward");
+      }
+      await take(offset - position, false);
+      return take(length, true);
+    },
+    close: async () => {
+      await stream.return?.();
+    }
+  };
+};
+
+/**
+ * Reads a log source chunk by chunk and yields batches of complete lines,
+ * decoded with the source's character encoding
+ */
+export async function* streamLogLines(
+  source: LogSource,
+  onProgress?: (bytesRead: number) => void
+): AsyncGenerator<string[]> {
+  const decoder = new TextDecoder(source.encoding);
+  let remainder = "";
+
+  const splitLines = (text: string): string[] => {
+    const lines = (remainder + text).split('\n');
+    remainder = lines.pop() ?? "";
+    return lines.map(line => line.endsWith('\r') ? line.slice(0, -1) : line);
+  };
+
+  for await (const chunks of streamSourceBytes(source, onProgress)) {
+    let text = "";
+    for (const chunk of chunks) {
+      text += decoder.decode(chunk, { stream: true });
+    }
+
+    const lines = splitLines(text);
+    if (lines.length > 0) yield lines;
+  }
+
+  const lines = splitLines(decoder.decode() + '\n');
+  if (lines.length > 0 && (lines.length > 1 || lines[0] !== "")) yield lines;
+}
+
+/**
+ * Reads the first decompressed bytes of a source, e.g. for encoding detection
+ */
+export const readSourceHead = async (source: LogSource, maxBytes: number = HEAD_MAX_BYTES): Promise<Uint8Array> => {
+  const head = new Uint8Array(Math.min(maxBytes, source.compression === 'none' ? source.size : maxBytes));
+  let length = 0;
+
+  for await (const chunks of streamSourceBytes(source)) {
+    for (const chunk of chunks) {
+      const take = Math.min(chunk.length, head.length - length);
+      head.set(chunk.subarray(0, take), length);
+      length += take;
+    }
+    if (length >= head.length) break;
+  }
+
+  return head.subarray(0, length);
+};
+
+/**
+ * Reads the head of a log source for previews, format detection and pattern testing
+ */
+export const readLogSample = async (
+  source: LogSource,
+  maxLines: number = SAMPLE_MAX_LINES,
+  maxBytes: number = SAMPLE_MAX_BYTES
+): Promise<string> => {
+  const sample: string[] = [];
+  let sampleBytes = 0;
+
+  for await (const lines of streamLogLines(source)) {
+    for (const line of lines) {
+      sample.push(line);
+      sampleBytes += line.length + 1;
+      if (sample.length >= maxLines || sampleBytes >= maxBytes) {
+        return sample.join('\n');
+      }
+    }
+  }
+
+  return sample.join('\n');
+};
@@ -0,0 +1,163 @@
+/**
+ * logfmt (`level=info msg="..." duration=12ms`) parsing and key discovery
+ */
+
+export type LogfmtValueType = 'number' | 'unit' | 'boolean' | 'string';
+
+export interface LogfmtKeyInfo {
+  key: string;
+  count: number; // Lines containing the key
+  distinctValues: number;
+  distinctCapped: boolean; // True when there were more distinct values than tracked
+  type: LogfmtValueType;
+  unit?: string; // Most common unit suffix for 'unit' keys
+  examples: string[];
+}
+
+// Per-key accumulator used while scanning whole files
+export interface LogfmtKeyStats {
+  count: number;
+  values: Set<string>;
+  typeCounts: Record<LogfmtValueType, number>;
+  unitCounts: Record<string, number>;
+}
+
+// Distinct values tracked per key before counting stops
+const MAX_TRACKED_VALUES = 1000;
+// Share of values that must agree for a key to get a non-string type
+const TYPE_THRESHOLD = 0.9;
+
+const KEY_REGEX = /^[A-Za-z_@][\w.\-/@]*$/;
+const NUMBER_WITH_UNIT_REGEX = /^(-?\d+(?:\.\d+)?)([a-zA-Zµ%/]+)$/;
+
+/**
+ * Parses the key=value pairs of a line. Bare words (such as a leading
+ * timestamp or level) are ignored, so prefixed logfmt lines work too.
+ */
+export const parseLogfmt = (line: string): Record<string, string> => {
+  const fields: Record<string, string> = {};
+  const length = line.length;
+  let i = 0;
+
+  while (i < length) {
+    while (i < length && (line[i] === ' ' || line[i] === '\t')) i++;
+
+    const keyStart = i;
+    while (i < length && line[i] !== '=' && line[i] !== ' ' && line[i] !== '\t' && line[i] !== '"') i++;
+    const key = line.substring(keyStart, i);
+
+    if (line[i] === '"') {
+      // Stray quoted text without a key: skip it entirely
+      i++;
+      while (i < length && line[i] !== '"') i += line[i] === '\\' ? 2 : 1;
+      i++;
+      continue;
+    }
+    if (line[i] !== '=') continue;
+    i++;
+
+    let value = "";
+    if (line[i] === '"') {
+      i++;
+      while (i < length && line[i] !== '"') {
+        if (line[i] === '\\' && i + 1 < length) {
+          const escaped = line[i + 1];
+          value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped;
+          i += 2;
+        } else {
+          value += line[i++];
+        }
+      }
+      i++;
+    } else {
+      const valueStart = i;
+      while (i < length && line[i] !== ' ' && line[i] !== '\t') i++;
+      value = line.substring(valueStart, i);
+    }
+
+    if (KEY_REGEX.test(key)) {
+      fields[key] = value;
+    }
+  }
+
+  return fields;
+};
+
+const getValueType = (value: string): LogfmtValueType => {
+  if (value !== "" && !isNaN(Number(value))) return 'number';
+  if (NUMBER_WITH_UNIT_REGEX.test(value)) return 'unit';
+  if (value === 'true' || value === 'false') return 'boolean';
+  return 'string';
+};
+
+/**
+ * Converts a logfmt value into a signal value. Numbers with a unit suffix
+ * (12ms, 3.5MB) keep their numeric part.
+ */
+export const toLogfmtSignalValue = (value: string): number | string => {
+  switch (getValueType(value)) {
+    case 'number':
+      return Number(value);
+    case 'unit':
+      return Number(value.match(NUMBER_WITH_UNIT_REGEX)![1]);
+    case 'boolean':
+      return value === 'true' ? 1 : 0;
+    default:
+      return value;
+  }
+};
+
+/**
+ * Adds the fields of one line to the per-key statistics
+ */
+export const addLogfmtFields = (stats: Map<string, LogfmtKeyStats>, fields: Record<string, string>): void => {
+  Object.entries(fields).forEach(([key, value]) => {
+    let keyStats = stats.get(key);
+    if (!keyStats) {
+      keyStats = {
+        count: 0,
+        values: new Set<string>(),
+        typeCounts: { number: 0, unit: 0, boolean: 0, string: 0 },
+        unitCounts: {}
+      };
+      stats.set(key, keyStats);
+    }
+
+    keyStats.count++;
+    if (keyStats.values.size <= MAX_TRACKED_VALUES) keyStats.values.add(value);
+
+    const type = getValueType(value);
+    keyStats.typeCounts[type]++;
+    if (type === 'unit') {
+      const unit = value.match(NUMBER_WITH_UNIT_REGEX)![2];
+      keyStats.unitCounts[unit] = (keyStats.unitCounts[unit] || 0) + 1;
+    }
+  });
+};
+
+/**
+ * Turns accumulated statistics into key summaries, most frequent keys first
+ */
+export const summarizeLogfmtKeys = (stats: Map<string, LogfmtKeyStats>): LogfmtKeyInfo[] => {
+  return Array.from(stats.entries())
+    .map(([key, keyStats]) => {
+      const { number, unit, boolean } = keyStats.typeCounts;
+      let type: LogfmtValueType = 'string';
+      if (number >= keyStats.count * TYPE_THRESHOLD) type = 'number';
+      else if (number + unit >= keyStats.count * TYPE_THRESHOLD && unit > 0) type = 'unit';
+      else if (boolean >= keyStats.count * TYPE_THRESHOLD) type = 'boolean';
+
+      const units = Object.entries(keyStats.unitCounts).sort((a, b) => b[1] - a[1]);
+
+      return {
+        key,
+        count: keyStats.count,
+        distinctValues: Math.min(keyStats.values.size, MAX_TRACKED_VALUES),
+        distinctCapped: keyStats.values.size > MAX_TRACKED_VALUES,
+        type,
+        unit: type === 'unit' ? units[0]?.[0] : undefined,
+        examples: Array.from(keyStats.values).slice(0, 3)
+      };
+    })
+    .sort((a, b) => b.count - a.count || a.key.localeCompare(b.key));
+};
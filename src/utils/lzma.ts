@@ -0,0 +1,541 @@
+/**
+ * Pure TypeScript LZMA and LZMA2 decoders, used for .xz and .7z archives.
+ * Decoded bytes are emitted in chunks so large outputs never need one buffer.
+ */
+
+export type ChunkCallback = (chunk: Uint8Array) => void;
+
+// Decoded bytes, with how far into the compressed input decoding has got
+export interface DecodedChunk {
+  chunk: Uint8Array;
+  inputPos: number;
+}
+
+// Yielded by a decoder that needs compressed input up to an absolute offset
+export interface InputRequest {
+  need: number;
+}
+
+export type DecoderOutput = DecodedChunk | InputRequest;
+
+/**
+ * Compressed input the decoders pull from. Offsets are absolute; streamed
+ * sources append to it whenever a decoder yields an InputRequest, and bytes
+ * before the released offset are dropped on the next append.
+ */
+export class InputBuffer {
+  data: Uint8Array;
+  start = 0; // absolute offset of data[0]
+  ended: boolean;
+  private released = 0;
+
+  constructor(data?: Uint8Array) {
+    this.data = data ?? new Uint8Array(0);
+    this.ended = data !== undefined;
+  }
+
+  get end(): number {
+    return this.start + this.data.length;
+  }
+
+  byte(offset: number): number {
+    return this.data[offset - this.start];
+  }
+
+  append(chunk: Uint8Array): void {
+    const kept = this.data.subarray(Math.min(Math.max(this.released - this.start, 0), this.data.length));
+    const data = new Uint8Array(kept.length + chunk.length);
+    data.set(kept);
+    data.set(chunk, kept.length);
+    this.start = this.end - kept.length;
+    this.data = data;
+  }
+
+  close(): void {
+    this.ended = true;
+  }
+
+  // Everything before offset has been decoded and may be dropped
+  release(offset: number): void {
+    this.released = Math.max(this.released, offset);
+  }
+
+  // Asks for more input until length bytes from offset are buffered or the input has ended
+  *require(offset: number, length: number): Generator<InputRequest, void> {
+    while (!this.ended && this.end < offset + length) {
+      yield { need: offset + length };
+    }
+  }
+}
+
+/**
+ * Runs a decoder over complete input and collects its output
+ */
+export const collectChunks = (decoder: Iterable<DecoderOutput>): Uint8Array[] => {
+  const chunks: Uint8Array[] = [];
+  for (const output of decoder) {
+    if ('chunk' in output) chunks.push(output.chunk);
+  }
+  return chunks;
+};
+
+const NUM_STATES = 12;
+const POS_STATES_MAX = 1 << 4;
+const MATCH_MIN_LEN = 2;
+const END_POS_MODEL_INDEX = 14;
+const NUM_FULL_DISTANCES = 1 << (END_POS_MODEL_INDEX >> 1);
+const NUM_ALIGN_BITS = 4;
+const NUM_LEN_TO_POS_STATES = 4;
+const PROB_INIT = 1024;
+
+/**
+ * Circular dictionary that doubles as the output buffer
+ */
+class OutWindow {
+  private buffer: Uint8Array;
+  private pos = 0;
+  private flushedPos = 0;
+  private isFull = false;
+  totalPos = 0;
+
+  constructor(size: number, private onChunk: ChunkCallback) {
+    this.buffer = new Uint8Array(Math.max(size, 4096));
+  }
+
+  reset(): void {
+    this.flush();
+    this.pos = 0;
+    this.flushedPos = 0;
+    this.isFull = false;
+    this.totalPos = 0;
+  }
+
+  putByte(byte: number): void {
+    this.buffer[this.pos++] = byte;
+    this.totalPos++;
+    if (this.pos === this.buffer.length) {
+      this.flush();
+      this.pos = 0;
+      this.flushedPos = 0;
+      this.isFull = true;
+    }
+  }
+
+  // Distance 1 refers to the most recently written byte
+  getByte(distance: number): number {
+    let index = this.pos - distance;
+    if (index < 0) index += this.buffer.length;
+    return this.buffer[index];
+  }
+
+  hasDistance(distance: number): boolean {
+    return distance <= this.buffer.length && (this.isFull || distance <= this.pos);
+  }
+
+  isEmpty(): boolean {
+    return !this.isFull && this.pos === 0;
+  }
+
+  copyMatch(distance: number, length: number): void {
+    for (let i = 0; i < length; i++) {
+      this.putByte(this.getByte(distance));
+    }
+  }
+
+  flush(): void {
+    if (this.pos > this.flushedPos) {
+      this.onChunk(this.buffer.slice(this.flushedPos, this.pos));
+      this.flushedPos = this.pos;
+    }
+  }
+}
+
+class RangeDecoder {
+  private range = 0xFFFFFFFF;
+  private code = 0;
+  pos: number;
+
+  constructor(private data: Uint8Array, offset: number) {
+    this.pos = offset;
+    if (this.data[this.pos++] !== 0) {
+      throw new Error("Corrupted LZMA data");
+    }
+    for (let i = 0; i < 4; i++) {
+      this.code = ((this.code << 8) | this.nextByte()) >>> 0;
+    }
+  }
+
+  private nextByte(): number {
+    if (this.pos >= this.data.length) {
+      throw new Error("Unexpected end of LZMA data");
+    }
+    return this.data[this.pos++];
+  }
+
+  private normalize(): void {
+    if (this.range < 0x1000000) {
+      this.range = (this.range << 8) >>> 0;
+      this.code = ((this.code << 8) | this.nextByte()) >>> 0;
+    }
+  }
+
+  decodeBit(probs: Uint16Array, index: number): number {
+    const prob = probs[index];
+    const bound = (this.range >>> 11) * prob;
+    let bit: number;
+
+    if (this.code < bound) {
+      this.range = bound;
+      probs[index] = prob + ((2048 - prob) >>> 5);
+      bit = 0;
+    } else {
+      this.range -= bound;
+      this.code -= bound;
+      probs[index] = prob - (prob >>> 5);
+      bit = 1;
+    }
+
+    this.normalize();
+    return bit;
+  }
+
+  decodeDirectBits(count: number): number {
+    let result = 0;
+    for (let i = 0; i < count; i++) {
+      this.range >>>= 1;
+      let bit = 0;
+      if (this.code >= this.range) {
+        this.code -= this.range;
+        bit = 1;
+      }
+      result = ((result << 1) | bit) >>> 0;
+      this.normalize();
+    }
+    return result;
+  }
+
+  bitTree(probs: Uint16Array, offset: number, numBits: number): number {
+    let m = 1;
+    for (let i = 0; i < numBits; i++) {
+      m = (m << 1) | this.decodeBit(probs, offset + m);
+    }
+    return m - (1 << numBits);
+  }
+
+  reverseBitTree(probs: Uint16Array, offset: number, numBits: number): number {
+    let m = 1;
+    let symbol = 0;
+    for (let i = 0; i < numBits; i++) {
+      const bit = this.decodeBit(probs, offset + m);
+      m = (m << 1) | bit;
+      symbol |= bit << i;
+    }
+    return symbol;
+  }
+}
+
+class LenDecoder {
+  private choice = new Uint16Array(2);
+  private low = new Uint16Array(POS_STATES_MAX << 3);
+  private mid = new Uint16Array(POS_STATES_MAX << 3);
+  private high = new Uint16Array(256);
+
+  reset(): void {
+    this.choice.fill(PROB_INIT);
+    this.low.fill(PROB_INIT);
+    this.mid.fill(PROB_INIT);
+    this.high.fill(PROB_INIT);
+  }
+
+  decode(rc: RangeDecoder, posState: number): number {
+    if (rc.decodeBit(this.choice, 0) === 0) {
+      return rc.bitTree(this.low, posState << 3, 3);
+    }
+    if (rc.decodeBit(this.choice, 1) === 0) {
+      return 8 + rc.bitTree(this.mid, posState << 3, 3);
+    }
+    return 16 + rc.bitTree(this.high, 0, 8);
+  }
+}
+
+/**
+ * LZMA decoder state. The same instance is reused across LZMA2 chunks.
+ */
+class LzmaDecoder {
+  private lc = 0;
+  private lp = 0;
+  private pb = 0;
+  private literalProbs = new Uint16Array(0x300);
+  private isMatch = new Uint16Array(NUM_STATES << 4);
+  private isRep = new Uint16Array(NUM_STATES);
+  private isRepG0 = new Uint16Array(NUM_STATES);
+  private isRepG1 = new Uint16Array(NUM_STATES);
+  private isRepG2 = new Uint16Array(NUM_STATES);
+  private isRep0Long = new Uint16Array(NUM_STATES << 4);
+  private posSlot = new Uint16Array(NUM_LEN_TO_POS_STATES << 6);
+  private posDecoders = new Uint16Array(1 + NUM_FULL_DISTANCES - END_POS_MODEL_INDEX);
+  private align = new Uint16Array(1 << NUM_ALIGN_BITS);
+  private lenDecoder = new LenDecoder();
+  private repLenDecoder = new LenDecoder();
+  private state = 0;
+  private reps = [0, 0, 0, 0];
+
+  constructor(private window: OutWindow) {}
+
+  setProperties(propsByte: number): void {
+    if (propsByte >= 9 * 5 * 5) {
+      throw new Error("Invalid LZMA properties");
+    }
+    this.lc = propsByte % 9;
+    this.lp = Math.floor(propsByte / 9) % 5;
+    this.pb = Math.floor(propsByte / 45);
+    this.literalProbs = new Uint16Array(0x300 << (this.lc + this.lp));
+  }
+
+  resetState(): void {
+    this.literalProbs.fill(PROB_INIT);
+    this.isMatch.fill(PROB_INIT);
+    this.isRep.fill(PROB_INIT);
+    this.isRepG0.fill(PROB_INIT);
+    this.isRepG1.fill(PROB_INIT);
+    this.isRepG2.fill(PROB_INIT);
+    this.isRep0Long.fill(PROB_INIT);
+    this.posSlot.fill(PROB_INIT);
+    this.posDecoders.fill(PROB_INIT);
+    this.align.fill(PROB_INIT);
+    this.lenDecoder.reset();
+    this.repLenDecoder.reset();
+    this.state = 0;
+    this.reps = [0, 0, 0, 0];
+  }
+
+  private decodeLiteral(rc: RangeDecoder): void {
+    const window = this.window;
+    const prevByte = window.isEmpty() ? 0 : window.getByte(1);
+    const literalState = ((window.totalPos & ((1 << this.lp) - 1)) << this.lc) + (prevByte >>> (8 - this.lc));
+    const base = 0x300 * literalState;
+    let symbol = 1;
+
+    if (this.state >= 7) {
+      let matchByte = window.getByte(this.reps[0] + 1);
+      do {
+        const matchBit = (matchByte >>> 7) & 1;
+        matchByte <<= 1;
+        const bit = rc.decodeBit(this.literalProbs, base + ((1 + matchBit) << 8) + symbol);
+        symbol = (symbol << 1) | bit;
+        if (matchBit !== bit) break;
+      } while (symbol < 0x100);
+    }
+
+    while (symbol < 0x100) {
+      symbol = (symbol << 1) | rc.decodeBit(this.literalProbs, base + symbol);
+    }
+
+    window.putByte(symbol - 0x100);
+    this.state = this.state < 4 ? 0 : this.state < 10 ? this.state - 3 : this.state - 6;
+  }
+
+  private decodeDistance(rc: RangeDecoder, len: number): number {
+    const lenState = Math.min(len, NUM_LEN_TO_POS_STATES - 1);
+    const posSlot = rc.bitTree(this.posSlot, lenState << 6, 6);
+    if (posSlot < 4) return posSlot;
+
+    const numDirectBits = (posSlot >>> 1) - 1;
+    let distance = ((2 | (posSlot & 1)) << numDirectBits) >>> 0;
+
+    if (posSlot < END_POS_MODEL_INDEX) {
+      distance += rc.reverseBitTree(this.posDecoders, distance - posSlot, numDirectBits);
+    } else {
+      distance += rc.decodeDirectBits(numDirectBits - NUM_ALIGN_BITS) * (1 << NUM_ALIGN_BITS);
+      distance += rc.reverseBitTree(this.align, 0, NUM_ALIGN_BITS);
+    }
+    return distance >>> 0;
+  }
+
+  /**
+   * Decodes until outSize bytes were produced or, when allowed, an end marker is found
+   */
+  decode(rc: RangeDecoder, outSize: number, allowEndMarker: boolean): void {
+    const window = this.window;
+    const pbMask = (1 << this.pb) - 1;
+    const end = window.totalPos + outSize;
+
+    while (window.totalPos < end) {
+      const posState = window.totalPos & pbMask;
+
+      if (rc.decodeBit(this.isMatch, (this.state << 4) + posState) === 0) {
+        this.decodeLiteral(rc);
+        continue;
+      }
+
+      let len: number;
+
+      if (rc.decodeBit(this.isRep, this.state) === 0) {
+        // Simple match with a new distance
+        this.reps[3] = this.reps[2];
+        this.reps[2] = this.reps[1];
+        this.reps[1] = this.reps[0];
+        len = this.lenDecoder.decode(rc, posState);
+        this.state = this.state < 7 ? 7 : 10;
+        this.reps[0] = this.decodeDistance(rc, len);
+
+        if (this.reps[0] === 0xFFFFFFFF) {
+          if (allowEndMarker) return;
+          throw new Error("Unexpected LZMA end marker");
+        }
+      } else {
+        if (window.isEmpty()) {
+          throw new Error("Corrupted LZMA data");
+        }
+
+        if (rc.decodeBit(this.isRepG0, this.state) === 0) {
+          if (rc.decodeBit(this.isRep0Long, (this.state << 4) + posState) === 0) {
+            // Short rep: a single byte at the last distance
+            this.state = this.state < 7 ? 9 : 11;
+            window.putByte(window.getByte(this.reps[0] + 1));
+            continue;
+          }
+        } else {
+          let distance: number;
+          if (rc.decodeBit(this.isRepG1, this.state) === 0) {
+            distance = this.reps[1];
+          } else {
+            if (rc.decodeBit(this.isRepG2, this.state) === 0) {
+              distance = this.reps[2];
+            } else {
+              distance = this.reps[3];
+              this.reps[3] = this.reps[2];
+            }
+            this.reps[2] = this.reps[1];
+          }
+          this.reps[1] = this.reps[0];
+          this.reps[0] = distance;
+        }
+
+        len = this.repLenDecoder.decode(rc, posState);
+        this.state = this.state < 7 ? 8 : 11;
+      }
+
+      const distance = this.reps[0] + 1;
+      if (!window.hasDistance(distance)) {
+        throw new Error("Corrupted LZMA data");
+      }
+      window.copyMatch(distance, Math.min(len + MATCH_MIN_LEN, end - window.totalPos));
+    }
+  }
+}
+
+/**
+ * Decodes a raw LZMA stream as stored in .7z archives (5 property bytes)
+ */
+export const decodeLzma = (
+  data: Uint8Array,
+  properties: Uint8Array,
+  unpackSize: number,
+  onChunk: ChunkCallback
+): void => {
+  if (properties.length < 5) {
+    throw new Error("Invalid LZMA properties");
+  }
+
+  const dictSize = new DataView(properties.buffer, properties.byteOffset, 5).getUint32(1, true);
+  const window = new OutWindow(Math.min(dictSize, Math.max(unpackSize, 1)), onChunk);
+  const decoder = new LzmaDecoder(window);
+
+  decoder.setProperties(properties[0]);
+  decoder.resetState();
+  decoder.decode(new RangeDecoder(data, 0), unpackSize, true);
+  window.flush();
+};
+
+/**
+ * Converts the LZMA2 dictionary size property byte into bytes
+ */
+export const getLzma2DictionarySize = (bits: number): number => {
+  if (bits > 40) {
+    throw new Error("Invalid LZMA2 dictionary size");
+  }
+  if (bits === 40) return 0xFFFFFFFF;
+  return (2 | (bits & 1)) * Math.pow(2, Math.floor(bits / 2) + 11);
+};
+
+/**
+ * Decodes an LZMA2 stream starting at offset, yielding output as the window
+ * fills, and returns the offset just past it
+ */
+export function* decodeLzma2(
+  input: InputBuffer,
+  offset: number,
+  dictSize: number,
+  sizeHint?: number
+): Generator<DecoderOutput, number> {
+  // The window never needs to exceed the data it can refer back to
+  const windowSize = sizeHint !== undefined ? Math.min(dictSize, Math.max(sizeHint, 1)) : Math.min(dictSize, 64 * 1024 * 1024);
+  const output: Uint8Array[] = [];
+  const window = new OutWindow(windowSize, chunk => output.push(chunk));
+  const decoder = new LzmaDecoder(window);
+  let pos = offset;
+  let needProperties = true;
+
+  while (true) {
+    // A chunk header is at most six bytes, properties included
+    yield* input.require(pos, 6);
+    if (pos >= input.end) {
+      throw new Error("Unexpected end of LZMA2 data");
+    }
+
+    const control = input.byte(pos++);
+    if (control === 0x00) break;
+
+    if (control === 0x01 || control === 0x02) {
+      // Uncompressed chunk, optionally resetting the dictionary
+      if (control === 0x01) window.reset();
+      const size = ((input.byte(pos) << 8) | input.byte(pos + 1)) + 1;
+      pos += 2;
+      yield* input.require(pos, size);
+      if (pos + size > input.end) {
+        throw new Error("Unexpected end of LZMA2 data");
+      }
+      for (let i = 0; i < size; i++) {
+        window.putByte(input.byte(pos + i));
+      }
+      pos += size;
+      input.release(pos);
+      window.flush();
+      for (const chunk of output.splice(0)) yield { chunk, inputPos: pos };
+      continue;
+    }
+
+    if (control < 0x80) {
+      throw new Error("Corrupted LZMA2 data");
+    }
+
+    const unpackSize = ((control & 0x1F) << 16) + (input.byte(pos) << 8) + input.byte(pos + 1) + 1;
+    const packSize = (input.byte(pos + 2) << 8) + input.byte(pos + 3) + 1;
+    pos += 4;
+
+    const reset = (control >>> 5) & 0x03;
+    if (reset === 3) window.reset();
+    if (reset >= 2) {
+      decoder.setProperties(input.byte(pos++));
+      needProperties = false;
+    } else if (needProperties) {
+      throw new Error("Corrupted LZMA2 data: missing properties");
+    }
+    if (reset >= 1) decoder.resetState();
+
+    yield* input.require(pos, packSize);
+    const chunkStart = pos - input.start;
+    decoder.decode(new RangeDecoder(input.data.subarray(0, chunkStart + packSize), chunkStart), unpackSize, false);
+    pos += packSize;
+    input.release(pos);
+
+    // Hands out every LZMA2 chunk's output instead of waiting for the window to fill
+    window.flush();
+    for (const chunk of output.splice(0)) yield { chunk, inputPos: pos };
+  }
+
+  window.flush();
+  for (const chunk of output.splice(0)) yield { chunk, inputPos: pos };
+  return pos;
+}
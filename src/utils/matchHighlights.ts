@@ -0,0 +1,93 @@
+/**
+ * Finds where patterns matched within a log line, so the raw log viewer can
+ * highlight the text values were captured from
+ */
+import { RegexPattern } from "@/components/regex/RegexManager";
+import { normalizeNamedGroups } from "@/utils/regexGroups";
+import { splitFieldPath } from "@/utils/jsonLines";
+import { isCountingPattern } from "@/utils/eventCounts";
+
+export interface TextSpan {
+  start: number;
+  end: number;
+  pattern: string; // Name of the pattern that matched
+}
+
+type SpanFinder = (line: string) => TextSpan[];
+
+const escapeRegex = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Spans of the capture groups of the first match, or of the whole match when
+ * nothing was captured. Group offsets are found by searching the match, as
+ * match indices are not available in every supported browser.
+ */
+const findRegexSpans = (regex: RegExp, line: string, pattern: string, wholeMatch = false): TextSpan[] => {
+  const match = regex.exec(line);
+  if (!match || match.index === undefined) return [];
+
+  const spans: TextSpan[] = [];
+  let searchFrom = 0;
+  match.slice(1).forEach(group => {
+    if (!group) return;
+    const offset = match[0].indexOf(group, searchFrom);
+    if (offset < 0) return;
+    spans.push({ start: match.index + offset, end: match.index + offset + group.length, pattern });
+    searchFrom = offset + group.length;
+  });
+
+  if (spans.length === 0 || wholeMatch) {
+    return [{ start: match.index, end: match.index + match[0].length, pattern }];
+  }
+  return spans;
+};
+
+const createFinder = (pattern: RegexPattern): SpanFinder | null => {
+  try {
+    switch (pattern.extractor) {
+      case 'logfmt': {
+        const key = pattern.pattern.trim();
+        if (!key) return null;
+        const regex = new RegExp(`(?:^|\\s)(${escapeRegex(key)}=(?:"(?:[^"\\\\]|\\\\.)*"|\\S*))`);
+        return line => findRegexSpans(regex, line, pattern.name);
+      }
+      case 'json': {
+        const path = splitFieldPath(pattern.pattern);
+        if (path.length === 0) return null;
+        const field = escapeRegex(path[path.length - 1]);
+        const regex = new RegExp(`("${field}"\\s*:\\s*(?:"(?:[^"\\\\]|\\\\.)*"|[^,}\\]\\s]+))`);
+        return line => findRegexSpans(regex, line, pattern.name);
+      }
+      case 'syslog':
+      case 'source':
+        // Values come from the parsed header or the file name, not from a span of the line
+        return null;
+      default: {
+        const regex = new RegExp(normalizeNamedGroups(pattern.pattern));
+        // Count and rate patterns count whole matches
+        const wholeMatch = isCountingPattern(pattern);
+        return line => findRegexSpans(regex, line, pattern.name, wholeMatch);
+      }
+    }
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * Compiles the patterns once and returns a function listing the matched spans
+ * of a line in order, without overlaps
+ */
+export const createMatchHighlighter = (patterns: RegexPattern[]): SpanFinder => {
+  const finders = patterns.map(createFinder).filter((finder): finder is SpanFinder => finder !== null);
+
+  return line => {
+    const spans = finders.flatMap(finder => finder(line)).sort((a, b) => a.start - b.start || b.end - a.end);
+    const result: TextSpan[] = [];
+    spans.forEach(span => {
+      const last = result[result.length - 1];
+      if (span.end > span.start && (!last || span.start >= last.end)) result.push(span);
+    });
+    return result;
+  };
+};
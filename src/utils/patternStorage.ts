@@ -1,9 +1,11 @@
 
 import { RegexPattern } from "@/components/regex/RegexManager";
+import { CategoryMapping } from "@/types/chartTypes";
 
 const DB_NAME = 'LogVision';
 const STORE_NAME = 'RegexPatterns';
-const DB_VERSION = 1;
+const CATEGORY_STORE_NAME = 'CategoryMappings';
+const DB_VERSION = 2;
 
 // Helper to open the IndexedDB
 const openDB = (): Promise<IDBDatabase> => {
@@ -23,6 +25,9 @@ const openDB = (): Promise<IDBDatabase> => {
       if (!db.objectStoreNames.contains(STORE_NAME)) {
         db.createObjectStore(STORE_NAME, { keyPath: 'id' });
       }
+      if (!db.objectStoreNames.contains(CATEGORY_STORE_NAME)) {
+        db.createObjectStore(CATEGORY_STORE_NAME, { keyPath: 'name' });
+      }
     };
   });
 };
@@ -82,3 +87,55 @@ export const loadPatterns = async (): Promise<RegexPattern[]> => {
     return [];
   }
 };
+
+// Save categorical mappings to IndexedDB, replacing stored mappings with the same name
+export const saveCategoryMappings = async (mappings: CategoryMapping[]): Promise<void> => {
+  try {
+    const db = await openDB();
+    const transaction = db.transaction(CATEGORY_STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(CATEGORY_STORE_NAME);
+    
+    for (const mapping of mappings) {
+      store.put(mapping);
+    }
+    
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => {
+        db.close();
+        resolve();
+      };
+      
+      transaction.onerror = (event) => {
+        console.error('Transaction error:', event);
+        reject(new Error('Failed to save category mappings'));
+      };
+    });
+  } catch (error) {
+    console.error('Error saving category mappings:', error);
+    throw error;
+  }
+};
+
+// Load categorical mappings from IndexedDB
+export const loadCategoryMappings = async (): Promise<CategoryMapping[]> => {
+  try {
+    const db = await openDB();
+    const transaction = db.transaction(CATEGORY_STORE_NAME, 'readonly');
+    const store = transaction.objectStore(CATEGORY_STORE_NAME);
+    const request = store.getAll();
+    
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => {
+        db.close();
+        resolve(request.result);
+      };
+      
+      request.onerror = () => {
+        reject(new Error('Failed to load category mappings'));
+      };
+    });
+  } catch (error) {
+    console.error('Error loading category mappings:', error);
+    return [];
+  }
+};
@@ -0,0 +1,52 @@
+/**
+ * Named capture groups: every named group of a regex pattern becomes its own
+ * signal, named `<pattern>.<group>`
+ */
+import { RegexPattern } from "@/components/regex/RegexManager";
+import { isCountingPattern } from "@/utils/eventCounts";
+
+/**
+ * Rewrites Python-style named groups `(?P<name>...)` to JavaScript `(?<name>...)`
+ */
+export const normalizeNamedGroups = (pattern: string): string => {
+  return pattern.replace(/\(\?P<(?=[A-Za-z_$])/g, "(?<");
+};
+
+/**
+ * Lists the named groups of an expression in order of appearance, or an
+ * empty list when there are none or the expression is invalid
+ */
+export const getNamedGroups = (pattern: string): string[] => {
+  try {
+    // An empty alternative always matches, and the result lists every group name
+    const groups = new RegExp(`${normalizeNamedGroups(pattern)}|`).exec("")?.groups;
+    return groups ? Object.keys(groups) : [];
+  } catch (error) {
+    return [];
+  }
+};
+
+/**
+ * Name of the signal produced by a named group
+ */
+export const getGroupSignalName = (patternName: string, group: string): string => {
+  return `${patternName}.${group}`;
+};
+
+/**
+ * Expands a pattern into one pattern per named group. Patterns without named
+ * groups, non-regex patterns and count patterns are returned as they are.
+ */
+export const expandNamedGroups = (pattern: RegexPattern): RegexPattern[] => {
+  if (pattern.extractor && pattern.extractor !== 'regex') return [pattern];
+  if (isCountingPattern(pattern)) return [pattern];
+
+  const groups = getNamedGroups(pattern.pattern);
+  if (groups.length === 0) return [pattern];
+
+  return groups.map(group => ({
+    ...pattern,
+    id: `${pattern.id}.${group}`,
+    name: getGroupSignalName(pattern.name, group)
+  }));
+};
@@ -0,0 +1,603 @@
+/**
+ * Pure TypeScript .7z reader. Supports Copy, LZMA, LZMA2, Deflate and BZip2
+ * coded folders (including compressed headers), optionally behind the BCJ x86
+ * or Delta filters. Folders are decoded on demand when one of their files is
+ * loaded; files of folders using other methods are listed as unsupported.
+ */
+import * as pako from "pako";
+import { InputBuffer, collectChunks, decodeLzma, decodeLzma2, getLzma2DictionarySize } from "@/utils/lzma";
+import { decodeBzip2 } from "@/utils/bzip2";
+
+const SIGNATURE = [0x37, 0x7A, 0xBC, 0xAF, 0x27, 0x1C];
+const SIGNATURE_HEADER_SIZE = 32;
+
+const METHOD_COPY = '00';
+const METHOD_DELTA = '03';
+const METHOD_BCJ_X86 = '03030103';
+const METHOD_LZMA = '030101';
+const METHOD_LZMA2 = '21';
+const METHOD_DEFLATE = '040108';
+const METHOD_BZIP2 = '040202';
+const METHOD_AES = '06f10701';
+
+const SUPPORTED_METHODS = [
+  METHOD_COPY, METHOD_DELTA, METHOD_BCJ_X86, METHOD_LZMA, METHOD_LZMA2, METHOD_DEFLATE, METHOD_BZIP2
+];
+
+const enum PropertyId {
+  End = 0x00,
+  Header = 0x01,
+  ArchiveProperties = 0x02,
+  AdditionalStreamsInfo = 0x03,
+  MainStreamsInfo = 0x04,
+  FilesInfo = 0x05,
+  PackInfo = 0x06,
+  UnpackInfo = 0x07,
+  SubStreamsInfo = 0x08,
+  Size = 0x09,
+  Crc = 0x0A,
+  Folder = 0x0B,
+  CodersUnpackSize = 0x0C,
+  NumUnpackStream = 0x0D,
+  EmptyStream = 0x0E,
+  EmptyFile = 0x0F,
+  Name = 0x11,
+  EncodedHeader = 0x17,
+}
+
+interface Coder {
+  methodId: string;
+  properties: Uint8Array;
+  inStreamCount: number;
+  outStreamCount: number;
+}
+
+// Feeds the output stream `outIndex` of one coder into the input stream `inIndex` of another
+interface BindPair {
+  inIndex: number;
+  outIndex: number;
+}
+
+interface Folder {
+  coders: Coder[];
+  bindPairs: BindPair[];
+  packStreamIndex: number;
+  packStreamCount: number;
+  outStreamCount: number;
+  // Output stream not consumed by another coder, i.e. the folder's final output
+  mainOutStream: number;
+  unpackSizes: number[]; // Size of every output stream
+  unpackSize: number;
+  hasCrc: boolean;
+}
+
+interface StreamsInfo {
+  packPos: number;
+  packSizes: number[];
+  folders: Folder[];
+  // Sizes of the files stored in each folder
+  substreamSizes: number[][];
+}
+
+export interface SevenZipEntry {
+  path: string;
+  size: number;
+  load: () => Promise<Blob>;
+  unsupported?: string; // Why the entry's folder cannot be decoded
+}
+
+class ByteReader {
+  pos = 0;
+
+  constructor(private data: Uint8Array) {}
+
+  byte(): number {
+    if (this.pos >= this.data.length) {
+      throw new Error("Unexpected end of 7z header");
+    }
+    return this.data[this.pos++];
+  }
+
+  bytes(length: number): Uint8Array {
+    if (this.pos + length > this.data.length) {
+      throw new Error("Unexpected end of 7z header");
+    }
+    const result = this.data.subarray(this.pos, this.pos + length);
+    this.pos += length;
+    return result;
+  }
+
+  // 7z variable-length integer: leading one bits in the first byte count extra bytes
+  number(): number {
+    const first = this.byte();
+    let mask = 0x80;
+    let value = 0;
+
+    for (let i = 0; i < 8; i++) {
+      if ((first & mask) === 0) {
+        return value + (first & (mask - 1)) * Math.pow(2, 8 * i);
+      }
+      value += this.byte() * Math.pow(2, 8 * i);
+      mask >>>= 1;
+    }
+
+    return value;
+  }
+
+  bitVector(length: number): boolean[] {
+    const bits: boolean[] = [];
+    let current = 0;
+    for (let i = 0; i < length; i++) {
+      if (i % 8 === 0) current = this.byte();
+      bits.push((current & (0x80 >>> (i % 8))) !== 0);
+    }
+    return bits;
+  }
+
+  // Bit vector preceded by an "all defined" flag
+  definedVector(length: number): boolean[] {
+    return this.byte() ? new Array(length).fill(true) : this.bitVector(length);
+  }
+
+  expect(id: PropertyId): void {
+    if (this.number() !== id) {
+      throw new Error("Unsupported 7z header layout");
+    }
+  }
+}
+
+const readBytes = async (blob: Blob, offset: number, length: number): Promise<Uint8Array> => {
+  return new Uint8Array(await blob.slice(offset, offset + length).arrayBuffer());
+};
+
+const skipDigests = (reader: ByteReader, count: number): void => {
+  const defined = reader.definedVector(count);
+  reader.bytes(4 * defined.filter(Boolean).length);
+};
+
+const readFolder = (reader: ByteReader, packStreamIndex: number): Folder => {
+  const coderCount = reader.number();
+  const coders: Coder[] = [];
+  let inStreams = 0;
+  let outStreams = 0;
+
+  for (let i = 0; i < coderCount; i++) {
+    const flags = reader.byte();
+    const methodId = Array.from(reader.bytes(flags & 0x0F), byte => byte.toString(16).padStart(2, '0')).join('');
+    const inStreamCount = flags & 0x10 ? reader.number() : 1;
+    const outStreamCount = flags & 0x10 ? reader.number() : 1;
+    inStreams += inStreamCount;
+    outStreams += outStreamCount;
+
+    const properties = flags & 0x20 ? reader.bytes(reader.number()) : new Uint8Array(0);
+    coders.push({ methodId, properties, inStreamCount, outStreamCount });
+  }
+
+  // Bind pairs chain coders together, e.g. a BCJ filter reading the output of LZMA
+  const bindPairCount = outStreams - 1;
+  const bindPairs: BindPair[] = [];
+  for (let i = 0; i < bindPairCount; i++) {
+    bindPairs.push({ inIndex: reader.number(), outIndex: reader.number() });
+  }
+  const boundOutStreams = new Set(bindPairs.map(pair => pair.outIndex));
+  const packStreamCount = inStreams - bindPairCount;
+  if (packStreamCount > 1) {
+    for (let i = 0; i < packStreamCount; i++) reader.number();
+  }
+
+  let mainOutStream = 0;
+  while (boundOutStreams.has(mainOutStream)) mainOutStream++;
+
+  return {
+    coders,
+    bindPairs,
+    packStreamIndex,
+    packStreamCount,
+    outStreamCount: outStreams,
+    mainOutStream,
+    unpackSizes: [],
+    unpackSize: 0,
+    hasCrc: false
+  };
+};
+
+const readStreamsInfo = (reader: ByteReader): StreamsInfo => {
+  const info: StreamsInfo = { packPos: 0, packSizes: [], folders: [], substreamSizes: [] };
+  let id = reader.number();
+
+  if (id === PropertyId.PackInfo) {
+    info.packPos = reader.number();
+    const packStreamCount = reader.number();
+
+    for (id = reader.number(); id !== PropertyId.End; id = reader.number()) {
+      if (id === PropertyId.Size) {
+        for (let i = 0; i < packStreamCount; i++) info.packSizes.push(reader.number());
+      } else if (id === PropertyId.Crc) {
+        skipDigests(reader, packStreamCount);
+      } else {
+        throw new Error("Unsupported 7z header layout");
+      }
+    }
+    id = reader.number();
+  }
+
+  if (id === PropertyId.UnpackInfo) {
+    reader.expect(PropertyId.Folder);
+    const folderCount = reader.number();
+    if (reader.byte() !== 0) {
+      throw new Error("External 7z folders are not supported");
+    }
+
+    let packStreamIndex = 0;
+    for (let i = 0; i < folderCount; i++) {
+      const folder = readFolder(reader, packStreamIndex);
+      packStreamIndex += folder.packStreamCount;
+      info.folders.push(folder);
+    }
+
+    reader.expect(PropertyId.CodersUnpackSize);
+    info.folders.forEach(folder => {
+      folder.unpackSizes = Array.from({ length: folder.outStreamCount }, () => reader.number());
+      folder.unpackSize = folder.unpackSizes[folder.mainOutStream];
+    });
+
+    for (id = reader.number(); id !== PropertyId.End; id = reader.number()) {
+      if (id === PropertyId.Crc) {
+        const defined = reader.definedVector(folderCount);
+        defined.forEach((isDefined, i) => {
+          info.folders[i].hasCrc = isDefined;
+        });
+        reader.bytes(4 * defined.filter(Boolean).length);
+      } else {
+        throw new Error("Unsupported 7z header layout");
+      }
+    }
+    id = reader.number();
+  }
+
+  let substreamCounts = info.folders.map(() => 1);
+
+  if (id === PropertyId.SubStreamsInfo) {
+    id = reader.number();
+
+    if (id === PropertyId.NumUnpackStream) {
+      substreamCounts = info.folders.map(() => reader.number());
+      id = reader.number();
+    }
+
+    info.substreamSizes = info.folders.map((folder, i) => {
+      const count = substreamCounts[i];
+      if (count === 0) return [];
+
+      const sizes: number[] = [];
+      if (id === PropertyId.Size) {
+        for (let j = 0; j < count - 1; j++) sizes.push(reader.number());
+      }
+      sizes.push(folder.unpackSize - sizes.reduce((sum, size) => sum + size, 0));
+      return sizes;
+    });
+    if (id === PropertyId.Size) id = reader.number();
+
+    while (id !== PropertyId.End) {
+      if (id === PropertyId.Crc) {
+        const digestCount = info.folders.reduce((sum, folder, i) => {
+          return sum + (substreamCounts[i] === 1 && folder.hasCrc ? 0 : substreamCounts[i]);
+        }, 0);
+        skipDigests(reader, digestCount);
+      } else {
+        throw new Error("Unsupported 7z header layout");
+      }
+      id = reader.number();
+    }
+    id = reader.number();
+  } else {
+    info.substreamSizes = info.folders.map(folder => [folder.unpackSize]);
+  }
+
+  if (id !== PropertyId.End) {
+    throw new Error("Unsupported 7z header layout");
+  }
+
+  return info;
+};
+
+/**
+ * Why a folder cannot be decoded, or null when all of its coders are supported
+ */
+const getUnsupportedReason = (folder: Folder): string | null => {
+  for (const coder of folder.coders) {
+    if (coder.methodId === METHOD_AES) return "Encrypted 7z archives are not supported";
+    if (coder.inStreamCount !== 1 || coder.outStreamCount !== 1) {
+      return "7z filters with several streams (such as BCJ2) are not supported";
+    }
+    if (!SUPPORTED_METHODS.includes(coder.methodId)) return `Unsupported 7z compression method ${coder.methodId}`;
+  }
+  return null;
+};
+
+/**
+ * Indices of a folder's coders in decoding order, from the one reading the
+ * packed stream to the one producing the folder's output. With one stream per
+ * coder, a coder's input and output streams share its index.
+ */
+const getCoderChain = (folder: Folder): number[] => {
+  const chain = [folder.mainOutStream];
+  while (true) {
+    const pair = folder.bindPairs.find(bind => bind.inIndex === chain[0]);
+    if (!pair) return chain;
+    if (chain.includes(pair.outIndex)) throw new Error("Corrupted 7z header");
+    chain.unshift(pair.outIndex);
+  }
+};
+
+const concatChunks = (chunks: Uint8Array[]): Uint8Array => {
+  if (chunks.length === 1) return chunks[0];
+  const joined = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    joined.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return joined;
+};
+
+const isX86Msbyte = (byte: number): boolean => byte === 0x00 || byte === 0xFF;
+
+/**
+ * Undoes the BCJ x86 filter in place: relative CALL and JMP targets were made
+ * absolute so they compress better (after Bra86.c)
+ */
+const decodeBcjX86 = (data: Uint8Array): Uint8Array => {
+  const allowedMasks = [true, true, true, false, true, false, false, false];
+  const maskBits = [0, 1, 2, 2, 3, 3, 3, 3];
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let prevPos = -1;
+  let prevMask = 0;
+
+  for (let i = 0; i < data.length - 4; i++) {
+    if ((data[i] & 0xFE) !== 0xE8) continue;
+
+    const distance = i - prevPos;
+    if (distance > 3) {
+      prevMask = 0;
+    } else {
+      prevMask = (prevMask << (distance - 1)) & 7;
+      if (prevMask !== 0 && (!allowedMasks[prevMask] || isX86Msbyte(data[i + 4 - maskBits[prevMask]]))) {
+        prevPos = i;
+        prevMask = (prevMask << 1) | 1;
+        continue;
+      }
+    }
+    prevPos = i;
+
+    if (!isX86Msbyte(data[i + 4])) {
+      prevMask = (prevMask << 1) | 1;
+      continue;
+    }
+
+    let src = view.getUint32(i + 1, true);
+    let dest: number;
+    while (true) {
+      dest = (src - (i + 5)) >>> 0;
+      if (prevMask === 0) break;
+      const shift = maskBits[prevMask] * 8;
+      if (!isX86Msbyte((dest >>> (24 - shift)) & 0xFF)) break;
+      src = (dest ^ ((1 << (32 - shift)) - 1)) >>> 0;
+    }
+    dest &= 0x01FFFFFF;
+    view.setUint32(i + 1, (dest | -(dest & 0x01000000)) >>> 0, true);
+    i += 4;
+  }
+
+  return data;
+};
+
+// Undoes the Delta filter in place: every byte was stored as its difference to the byte `distance` before
+const decodeDelta = (data: Uint8Array, properties: Uint8Array): Uint8Array => {
+  const distance = (properties[0] ?? 0) + 1;
+  for (let i = distance; i < data.length; i++) {
+    data[i] = (data[i] + data[i - distance]) & 0xFF;
+  }
+  return data;
+};
+
+const decodeCoder = (coder: Coder, input: Uint8Array, unpackSize: number): Uint8Array[] => {
+  const chunks: Uint8Array[] = [];
+  const { methodId, properties } = coder;
+
+  switch (methodId) {
+    case METHOD_COPY:
+      chunks.push(input);
+      break;
+    case METHOD_LZMA:
+      decodeLzma(input, properties, unpackSize, chunk => chunks.push(chunk));
+      break;
+    case METHOD_LZMA2:
+      chunks.push(...collectChunks(decodeLzma2(new InputBuffer(input), 0, getLzma2DictionarySize(properties[0]), unpackSize)));
+      break;
+    case METHOD_DEFLATE: {
+      const inflator = new pako.Inflate({ raw: true });
+      inflator.onData = (chunk: Uint8Array) => {
+        chunks.push(chunk);
+      };
+      inflator.push(input, true);
+      if (inflator.err) throw new Error(`Failed to decompress 7z Deflate data: ${inflator.msg}`);
+      break;
+    }
+    case METHOD_BZIP2:
+      chunks.push(...collectChunks(decodeBzip2(new InputBuffer(input))));
+      break;
+    case METHOD_BCJ_X86:
+      chunks.push(decodeBcjX86(input));
+      break;
+    case METHOD_DELTA:
+      chunks.push(decodeDelta(input, properties));
+      break;
+    default:
+      throw new Error(`Unsupported 7z compression method ${methodId}`);
+  }
+
+  return chunks;
+};
+
+/**
+ * Decodes a whole folder into memory chunks, running its coders in turn
+ */
+const decodeFolder = async (archive: Blob, info: StreamsInfo, folder: Folder): Promise<Uint8Array[]> => {
+  const reason = getUnsupportedReason(folder);
+  if (reason) throw new Error(reason);
+
+  const packOffset = SIGNATURE_HEADER_SIZE + info.packPos
+    + info.packSizes.slice(0, folder.packStreamIndex).reduce((sum, size) => sum + size, 0);
+  let chunks = [await readBytes(archive, packOffset, info.packSizes[folder.packStreamIndex])];
+
+  for (const index of getCoderChain(folder)) {
+    chunks = decodeCoder(folder.coders[index], concatChunks(chunks), folder.unpackSizes[index]);
+  }
+
+  return chunks;
+};
+
+const readFileNames = (reader: ByteReader, size: number, fileCount: number): string[] => {
+  const end = reader.pos + size;
+  if (reader.byte() !== 0) {
+    throw new Error("External 7z file names are not supported");
+  }
+
+  const names: string[] = [];
+  const decoder = new TextDecoder("utf-16le");
+  // Names are null-terminated UTF-16LE strings
+  for (let i = 0; i < fileCount; i++) {
+    const start = reader.pos;
+    let length = 0;
+    while (reader.byte() | reader.byte()) length += 2;
+    reader.pos = start;
+    names.push(decoder.decode(reader.bytes(length)));
+    reader.bytes(2);
+  }
+  reader.pos = end;
+  return names;
+};
+
+/**
+ * Lists the files of a 7z archive. Files share a decoded folder, so loading
+ * several files from the same solid block only decompresses it once.
+ */
+export const readSevenZipEntries = async (archive: Blob): Promise<SevenZipEntry[]> => {
+  const signatureHeader = await readBytes(archive, 0, SIGNATURE_HEADER_SIZE);
+  if (!SIGNATURE.every((byte, i) => signatureHeader[i] === byte)) {
+    throw new Error("Not a 7z archive");
+  }
+
+  const view = new DataView(signatureHeader.buffer);
+  const nextHeaderOffset = view.getUint32(12, true) + view.getUint32(16, true) * 0x100000000;
+  const nextHeaderSize = view.getUint32(20, true) + view.getUint32(24, true) * 0x100000000;
+  if (nextHeaderSize === 0) return [];
+
+  let header = await readBytes(archive, SIGNATURE_HEADER_SIZE + nextHeaderOffset, nextHeaderSize);
+  let reader = new ByteReader(header);
+  let id = reader.number();
+
+  // Headers are usually LZMA compressed themselves
+  while (id === PropertyId.EncodedHeader) {
+    const info = readStreamsInfo(reader);
+    const chunks = await decodeFolder(archive, info, info.folders[0]);
+    header = new Uint8Array(await new Blob(chunks).arrayBuffer());
+    reader = new ByteReader(header);
+    id = reader.number();
+  }
+
+  if (id !== PropertyId.Header) {
+    throw new Error("Unsupported 7z header layout");
+  }
+
+  id = reader.number();
+  if (id === PropertyId.ArchiveProperties) {
+    for (let type = reader.number(); type !== PropertyId.End; type = reader.number()) {
+      reader.bytes(reader.number());
+    }
+    id = reader.number();
+  }
+  if (id === PropertyId.AdditionalStreamsInfo) {
+    throw new Error("Unsupported 7z header layout");
+  }
+
+  let info: StreamsInfo = { packPos: 0, packSizes: [], folders: [], substreamSizes: [] };
+  if (id === PropertyId.MainStreamsInfo) {
+    info = readStreamsInfo(reader);
+    id = reader.number();
+  }
+
+  if (id !== PropertyId.FilesInfo) return [];
+
+  const fileCount = reader.number();
+  let names: string[] = [];
+  let emptyStreams: boolean[] = new Array(fileCount).fill(false);
+  // Which of the empty streams are empty files rather than directories
+  let emptyFiles: boolean[] = [];
+
+  for (let type = reader.number(); type !== PropertyId.End; type = reader.number()) {
+    const size = reader.number();
+    const end = reader.pos + size;
+
+    if (type === PropertyId.EmptyStream) {
+      emptyStreams = reader.bitVector(fileCount);
+    } else if (type === PropertyId.EmptyFile) {
+      emptyFiles = reader.bitVector(emptyStreams.filter(Boolean).length);
+    } else if (type === PropertyId.Name) {
+      names = readFileNames(reader, size, fileCount);
+    }
+    reader.pos = end;
+  }
+
+  // Files with data are stored in folder order, several files per solid folder
+  const folderCache = new Map<number, Promise<Blob>>();
+  const loadFolder = (index: number): Promise<Blob> => {
+    if (!folderCache.has(index)) {
+      folderCache.set(index, decodeFolder(archive, info, info.folders[index]).then(chunks => new Blob(chunks)));
+    }
+    return folderCache.get(index)!;
+  };
+
+  const unsupportedReasons = info.folders.map(getUnsupportedReason);
+  const entries: SevenZipEntry[] = [];
+  let folderIndex = 0;
+  let substreamIndex = 0;
+  let folderOffset = 0;
+  let emptyIndex = 0;
+
+  for (let i = 0; i < fileCount; i++) {
+    // Empty streams are directories or empty files
+    if (emptyStreams[i]) {
+      if (emptyFiles[emptyIndex++]) {
+        entries.push({ path: names[i] || `file${i}`, size: 0, load: async () => new Blob([]) });
+      }
+      continue;
+    }
+
+    while (folderIndex < info.folders.length && substreamIndex >= info.substreamSizes[folderIndex].length) {
+      folderIndex++;
+      substreamIndex = 0;
+      folderOffset = 0;
+    }
+    if (folderIndex >= info.folders.length) {
+      throw new Error("Corrupted 7z header");
+    }
+
+    const size = info.substreamSizes[folderIndex][substreamIndex];
+    const currentFolder = folderIndex;
+    const offset = folderOffset;
+
+    entries.push({
+      path: names[i] || `file${i}`,
+      size,
+      load: async () => (await loadFolder(currentFolder)).slice(offset, offset + size),
+      unsupported: unsupportedReasons[currentFolder] ?? undefined
+    });
+
+    folderOffset += size;
+    substreamIndex++;
+  }
+
+  return entries;
+};
@@ -0,0 +1,210 @@
+/**
+ * Log level detection: finds the severity of an event from a level field, a
+ * syslog priority or a common level token, and summarizes levels over time
+ */
+import { SEVERITY_LEVELS, SeverityData, SeverityEvent, SeverityLevel } from "@/types/severityTypes";
+import { JsonRecord, getFieldValue, splitFieldPath } from "@/utils/jsonLines";
+import { parseSyslogHeader } from "@/utils/syslog";
+
+export const SEVERITY_LABELS: Record<SeverityLevel, string> = {
+  fatal: "Fatal",
+  error: "Error",
+  warn: "Warning",
+  info: "Info",
+  debug: "Debug",
+  trace: "Trace"
+};
+
+export const SEVERITY_COLORS: Record<SeverityLevel, string> = {
+  fatal: "#7f1d1d", // red-900
+  error: "#dc2626", // red-600
+  warn: "#f59e0b", // amber-500
+  info: "#0891b2", // cyan-600
+  debug: "#64748b", // slate-500
+  trace: "#cbd5e1", // slate-300
+};
+
+// Level names of common logging libraries and of syslog severities
+const LEVEL_NAMES: Record<string, SeverityLevel> = {
+  fatal: 'fatal', panic: 'fatal', emerg: 'fatal', emergency: 'fatal', alert: 'fatal', crit: 'fatal', critical: 'fatal',
+  error: 'error', err: 'error', eror: 'error', severe: 'error',
+  warn: 'warn', warning: 'warn', wrn: 'warn',
+  info: 'info', inf: 'info', information: 'info', notice: 'info',
+  debug: 'debug', dbg: 'debug', dbug: 'debug', fine: 'debug', verbose: 'debug',
+  trace: 'trace', trc: 'trace', finer: 'trace', finest: 'trace'
+};
+
+// Numeric levels of pino and bunyan, lowest of each level
+const NUMERIC_LEVELS: [number, SeverityLevel][] = [
+  [60, 'fatal'], [50, 'error'], [40, 'warn'], [30, 'info'], [20, 'debug'], [10, 'trace']
+];
+
+// Numeric syslog severities 0-7, as sent in GELF level fields
+const SYSLOG_LEVELS: SeverityLevel[] = ['fatal', 'fatal', 'fatal', 'error', 'warn', 'info', 'info', 'debug'];
+
+const LEVEL_FIELDS = ["level", "severity", "lvl", "loglevel", "levelname", "log.level", "@l"].map(splitFieldPath);
+
+// Tried in order on text lines
+const LEVEL_REGEXES = [
+  // level=warn, "severity": "ERROR"
+  /\b(?:level|lvl|severity|loglevel)["']?\s*[=:]\s*["']?([A-Za-z]+)/i,
+  // Upper-case tokens such as INFO or [ERROR]; lower-case words are too common in messages
+  /\b(FATAL|PANIC|EMERG|CRIT|CRITICAL|ERROR|ERR|SEVERE|WARN|WARNING|NOTICE|INFO|DEBUG|TRACE|FINE|FINER|FINEST|VERBOSE)\b/,
+  // Lower-case levels only count when bracketed, e.g. [warn] or <error>
+  /[[<(](fatal|panic|crit|critical|error|err|warn|warning|notice|info|debug|trace)[\]>)]/i
+];
+
+// Builds a record with an entry for every level
+const mapLevels = <T>(fn: (level: SeverityLevel) => T): Record<SeverityLevel, T> => ({
+  fatal: fn('fatal'),
+  error: fn('error'),
+  warn: fn('warn'),
+  info: fn('info'),
+  debug: fn('debug'),
+  trace: fn('trace')
+});
+
+const toSeverityLevel = (value: unknown): SeverityLevel | undefined => {
+  if (typeof value === 'string') return LEVEL_NAMES[value.trim().toLowerCase()];
+  if (typeof value === 'number') {
+    if (Number.isInteger(value) && value >= 0 && value < SYSLOG_LEVELS.length) return SYSLOG_LEVELS[value];
+    return NUMERIC_LEVELS.find(([lowest]) => value >= lowest)?.[1];
+  }
+  return undefined;
+};
+
+/**
+ * Level of an event. JSON records are only read by their level field, as
+ * their messages often mention other levels.
+ */
+export const detectSeverity = (line: string, record: JsonRecord | null): SeverityLevel | undefined => {
+  if (record) {
+    for (const path of LEVEL_FIELDS) {
+      const level = toSeverityLevel(getFieldValue(record, path));
+      if (level) return level;
+    }
+    return undefined;
+  }
+
+  if (line.startsWith("<")) {
+    const severity = parseSyslogHeader(line)?.severity;
+    if (severity) return LEVEL_NAMES[severity];
+  }
+
+  for (const regex of LEVEL_REGEXES) {
+    const match = regex.exec(line);
+    const level = match ? LEVEL_NAMES[match[1].toLowerCase()] : undefined;
+    if (level) return level;
+  }
+  return undefined;
+};
+
+export interface SeverityCollector {
+  times: Record<SeverityLevel, number[]>;
+  unleveled: number;
+  firstError?: SeverityEvent;
+  lastError?: SeverityEvent;
+}
+
+export const createSeverityCollector = (): SeverityCollector => ({
+  times: mapLevels(() => []),
+  unleveled: 0
+});
+
+export const isErrorLevel = (level: SeverityLevel): boolean => level === 'fatal' || level === 'error';
+
+export const recordSeverity = (
+  collector: SeverityCollector,
+  level: SeverityLevel | undefined,
+  timestamp: number,
+  source: string,
+  line: number
+): void => {
+  if (!level) {
+    collector.unleveled++;
+    return;
+  }
+  collector.times[level].push(timestamp);
+  if (!isErrorLevel(level)) return;
+  if (!collector.firstError || timestamp < collector.firstError.timestamp) collector.firstError = { timestamp, source, line };
+  if (!collector.lastError || timestamp >= collector.lastError.timestamp) collector.lastError = { timestamp, source, line };
+};
+
+/**
+ * Sorts the collected times of every level, as sources are read one after another
+ */
+export const finishSeverityCollector = (collector: SeverityCollector): SeverityData => ({
+  times: mapLevels(level => Float64Array.from(collector.times[level]).sort()),
+  unleveled: collector.unleveled,
+  firstError: collector.firstError,
+  lastError: collector.lastError
+});
+
+export const getSeverityCount = (data: SeverityData): number => {
+  return SEVERITY_LEVELS.reduce((sum, level) => sum + data.times[level].length, 0);
+};
+
+/**
+ * Time range covered by events with a level, or null when there are none
+ */
+export const getSeverityRange = (data: SeverityData): { start: number; end: number } | null => {
+  let start = Infinity;
+  let end = -Infinity;
+  SEVERITY_LEVELS.forEach(level => {
+    const times = data.times[level];
+    if (times.length === 0) return;
+    start = Math.min(start, times[0]);
+    end = Math.max(end, times[times.length - 1]);
+  });
+  return start <= end ? { start, end } : null;
+};
+
+export type SeverityBucket = { timestamp: number } & Record<SeverityLevel, number>;
+
+/**
+ * Events of every level per time bucket, from the first to the last event
+ */
+export const bucketSeverities = (data: SeverityData, bucketMs: number): SeverityBucket[] => {
+  const range = getSeverityRange(data);
+  if (!range) return [];
+
+  const firstBucket = Math.floor(range.start / bucketMs) * bucketMs;
+  const bucketCount = Math.floor((range.end - firstBucket) / bucketMs) + 1;
+  const buckets: SeverityBucket[] = Array.from({ length: bucketCount }, (_, index) => ({
+    timestamp: firstBucket + index * bucketMs,
+    ...mapLevels(() => 0)
+  }));
+
+  SEVERITY_LEVELS.forEach(level => {
+    data.times[level].forEach(time => {
+      buckets[Math.floor((time - firstBucket) / bucketMs)][level]++;
+    });
+  });
+  return buckets;
+};
+
+export interface ErrorBurst {
+  start: number;
+  end: number;
+  count: number;
+}
+
+/**
+ * Bursts of errors: runs of error and fatal events each at most `maxGapMs`
+ * after the previous one, with at least `minErrors` events. Largest first.
+ */
+export const findErrorBursts = (data: SeverityData, maxGapMs = 60000, minErrors = 5): ErrorBurst[] => {
+  const errors = new Float64Array(data.times.fatal.length + data.times.error.length);
+  errors.set(data.times.fatal);
+  errors.set(data.times.error, data.times.fatal.length);
+  errors.sort();
+
+  const bursts: ErrorBurst[] = [];
+  let runStart = 0;
+  for (let i = 1; i <= errors.length; i++) {
+    if (i < errors.length && errors[i] - errors[i - 1] <= maxGapMs) continue;
+    if (i - runStart >= minErrors) bursts.push({ start: errors[runStart], end: errors[i - 1], count: i - runStart });
+    runStart = i;
+  }
+  return bursts.sort((a, b) => b.count - a.count);
+};
@@ -0,0 +1,109 @@
+/**
+ * State timelines: a signal's distinct values drawn as colored bands over
+ * time, with how long the signal spent in each state
+ */
+import { CHART_COLORS, CategoryMapping, Signal } from "@/types/chartTypes";
+import { DEFAULT_FILL, getMaxGapMs, usesMaxGap } from "@/utils/gapFilling";
+import { getCategoryColor } from "@/utils/categories";
+
+export interface StateSegment {
+  state: string;
+  start: number;
+  end: number;
+}
+
+export interface StateStats {
+  state: string;
+  totalMs: number;
+  share: number; // Fraction of the known time spent in the state
+  count: number; // Times the state was entered
+}
+
+/**
+ * State of a signal at a chart point: the original string of categorical
+ * values, otherwise the number itself
+ */
+const getState = (point: Record<string, number | string>, name: string): string | undefined => {
+  const value = point[name];
+  if (typeof value !== 'number' || !isFinite(value)) return undefined;
+  const original = point[`${name}_original`];
+  return original !== undefined ? String(original) : String(value);
+};
+
+/**
+ * Splits a signal into the periods it spent in each state within a time range.
+ * A state lasts until the next value; signals whose fill mode breaks at gaps
+ * also end a state once the gap grows past their max gap.
+ */
+export const getStateSegments = (
+  data: Record<string, number | string>[],
+  signal: Signal,
+  range: { start: number; end: number }
+): StateSegment[] => {
+  const changes: { timestamp: number; state: string }[] = [];
+  data.forEach(point => {
+    const state = getState(point, signal.name);
+    if (state !== undefined) changes.push({ timestamp: Number(point.timestamp), state });
+  });
+  if (changes.length === 0) return [];
+
+  const fill = signal.fill || DEFAULT_FILL;
+  const maxGapMs = usesMaxGap(fill.mode) ? getMaxGapMs(fill, changes.map(change => change.timestamp)) : Infinity;
+
+  const segments: StateSegment[] = [];
+  changes.forEach((change, index) => {
+    const next = index + 1 < changes.length ? changes[index + 1].timestamp : range.end;
+    const start = Math.max(change.timestamp, range.start);
+    const end = Math.min(next, change.timestamp + maxGapMs, range.end);
+    if (end <= start) return;
+
+    // Repeated values of the same state extend the current segment
+    const last = segments[segments.length - 1];
+    if (last && last.state === change.state && last.end === start) {
+      last.end = end;
+    } else {
+      segments.push({ state: change.state, start, end });
+    }
+  });
+  return segments;
+};
+
+/**
+ * Total time, share of time and number of entries per state, longest first
+ */
+export const getStateStats = (segments: StateSegment[]): StateStats[] => {
+  const byState = new Map<string, StateStats>();
+  let knownMs = 0;
+
+  segments.forEach(segment => {
+    const duration = segment.end - segment.start;
+    knownMs += duration;
+    const stats = byState.get(segment.state);
+    if (stats) {
+      stats.totalMs += duration;
+      stats.count++;
+    } else {
+      byState.set(segment.state, { state: segment.state, totalMs: duration, share: 0, count: 1 });
+    }
+  });
+
+  return Array.from(byState.values())
+    .map(stats => ({ ...stats, share: knownMs > 0 ? stats.totalMs / knownMs : 0 }))
+    .sort((a, b) => b.totalMs - a.totalMs);
+};
+
+/**
+ * Assigns each state a color: its saved category color when the signal has a
+ * mapping, so colors stay the same across zoom levels and files; otherwise in
+ * order of first appearance
+ */
+export const getStateColors = (segments: StateSegment[], mapping?: CategoryMapping): Record<string, string> => {
+  const colors: Record<string, string> = {};
+  let unmapped = 0;
+  segments.forEach(segment => {
+    if (colors[segment.state] !== undefined) return;
+    colors[segment.state] = (mapping && getCategoryColor(mapping, segment.state))
+      || CHART_COLORS[unmapped++ % CHART_COLORS.length];
+  });
+  return colors;
+};
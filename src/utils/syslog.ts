@@ -0,0 +1,68 @@
+/**
+ * Syslog header parsing (RFC 3164 and RFC 5424)
+ */
+
+export type SyslogField = 'severity' | 'facility' | 'hostname' | 'app' | 'pid';
+
+export const SYSLOG_FIELDS: SyslogField[] = ['severity', 'facility', 'hostname', 'app', 'pid'];
+
+export interface SyslogHeader {
+  severity?: string;
+  facility?: string;
+  hostname?: string;
+  app?: string;
+  pid?: number;
+}
+
+const SEVERITY_NAMES = ["emerg", "alert", "crit", "err", "warning", "notice", "info", "debug"];
+
+const FACILITY_NAMES = [
+  "kern", "user", "mail", "daemon", "auth", "syslog", "lpr", "news",
+  "uucp", "cron", "authpriv", "ftp", "ntp", "audit", "alert", "clock",
+  "local0", "local1", "local2", "local3", "local4", "local5", "local6", "local7"
+];
+
+// <PRI>1 TIMESTAMP HOSTNAME APP-NAME PROCID MSGID
+const RFC5424_REGEX = /^<(\d{1,3})>\d{1,2} \S+ (\S+) (\S+) (\S+) \S+/;
+// [<PRI>]Mmm dd hh:mm:ss HOSTNAME TAG[PID]:
+const RFC3164_REGEX = /^(?:<(\d{1,3})>)?(?:Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec) {1,2}\d{1,2} \d{2}:\d{2}:\d{2} (\S+) ([^\s:[]+)(?:\[(\d+)\])?:/;
+
+// RFC 5424 uses "-" for absent header fields
+const presentValue = (value: string): string | undefined => {
+  return value === "-" ? undefined : value;
+};
+
+const applyPriority = (header: SyslogHeader, priority?: string) => {
+  if (priority === undefined) return;
+  const value = Number(priority);
+  header.severity = SEVERITY_NAMES[value & 7];
+  header.facility = FACILITY_NAMES[value >> 3];
+};
+
+/**
+ * Parses the header of a syslog line. Severity and facility are only known
+ * when the line still carries its <PRI> prefix.
+ */
+export const parseSyslogHeader = (line: string): SyslogHeader | null => {
+  const rfc5424 = line.match(RFC5424_REGEX);
+  if (rfc5424) {
+    const header: SyslogHeader = {
+      hostname: presentValue(rfc5424[2]),
+      app: presentValue(rfc5424[3])
+    };
+    const pid = presentValue(rfc5424[4]);
+    if (pid !== undefined && /^\d+$/.test(pid)) header.pid = Number(pid);
+    applyPriority(header, rfc5424[1]);
+    return header;
+  }
+
+  const rfc3164 = line.match(RFC3164_REGEX);
+  if (rfc3164) {
+    const header: SyslogHeader = { hostname: rfc3164[2], app: rfc3164[3] };
+    if (rfc3164[4] !== undefined) header.pid = Number(rfc3164[4]);
+    applyPriority(header, rfc3164[1]);
+    return header;
+  }
+
+  return null;
+};
@@ -0,0 +1,118 @@
+/**
+ * Pure TypeScript tar reader supporting ustar, GNU long names and pax headers.
+ * Only headers are read, in archive order, so a compressed tarball can be
+ * scanned while it is being decompressed.
+ */
+
+const BLOCK_SIZE = 512;
+
+export interface TarEntry {
+  path: string;
+  size: number;
+  offset: number;
+}
+
+const decoder = new TextDecoder();
+
+const readString = (header: Uint8Array, offset: number, length: number): string => {
+  const field = header.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return decoder.decode(end === -1 ? field : field.subarray(0, end));
+};
+
+const readSize = (header: Uint8Array): number => {
+  // GNU base-256 encoding for sizes that do not fit in 11 octal digits
+  if (header[124] & 0x80) {
+    let size = header[124] & 0x7F;
+    for (let i = 125; i < 136; i++) size = size * 256 + header[i];
+    return size;
+  }
+  const octal = readString(header, 124, 12).trim();
+  return octal ? parseInt(octal, 8) : 0;
+};
+
+// The checksum is computed with its own field filled with spaces
+const hasValidChecksum = (header: Uint8Array): boolean => {
+  const expected = parseInt(readString(header, 148, 8).trim(), 8);
+  let sum = 0;
+  for (let i = 0; i < BLOCK_SIZE; i++) {
+    sum += i >= 148 && i < 156 ? 0x20 : header[i];
+  }
+  return sum === expected;
+};
+
+/**
+ * Parses pax records of the form "<length> <key>=<value>\n"
+ */
+const parsePaxHeader = (data: Uint8Array): Record<string, string> => {
+  const records: Record<string, string> = {};
+  const text = decoder.decode(data);
+  let pos = 0;
+
+  while (pos < text.length) {
+    const space = text.indexOf(' ', pos);
+    const length = parseInt(text.substring(pos, space), 10);
+    if (space === -1 || !length) break;
+
+    const record = text.substring(space + 1, pos + length - 1);
+    const equals = record.indexOf('=');
+    if (equals !== -1) {
+      records[record.substring(0, equals)] = record.substring(equals + 1);
+    }
+    pos += length;
+  }
+
+  return records;
+};
+
+// Reads `length` bytes at `offset`, fewer at the end of the archive. Offsets only ever increase.
+export type TarByteReader = (offset: number, length: number) => Promise<Uint8Array>;
+
+/**
+ * Lists the regular files of a tar archive
+ */
+export const readTarEntries = async (read: TarByteReader): Promise<TarEntry[]> => {
+  const entries: TarEntry[] = [];
+  let offset = 0;
+  let longName: string | null = null;
+  let paxRecords: Record<string, string> = {};
+
+  while (true) {
+    const header = await read(offset, BLOCK_SIZE);
+
+    // Two zero blocks mark the end, but a single one is enough to stop
+    if (header.length < BLOCK_SIZE || header.every(byte => byte === 0)) break;
+
+    if (!hasValidChecksum(header)) {
+      throw new Error(offset === 0 ? "Not a tar archive" : "Corrupted tar archive");
+    }
+
+    const type = String.fromCharCode(header[156] || 0x30);
+    let size = readSize(header);
+    const dataOffset = offset + BLOCK_SIZE;
+
+    if (type === 'L') {
+      longName = readString(await read(dataOffset, size), 0, size);
+    } else if (type === 'x') {
+      paxRecords = parsePaxHeader(await read(dataOffset, size));
+    } else if (type !== 'g') {
+      const prefix = readString(header, 345, 155);
+      const name = readString(header, 0, 100);
+      const path = paxRecords.path || longName || (prefix ? `${prefix}/${name}` : name);
+
+      if (paxRecords.size) size = Number(paxRecords.size);
+
+      // Regular files only; directories, links and devices are skipped
+      if (type === '0' || type === '7') {
+        entries.push({ path, size, offset: dataOffset });
+      }
+
+      longName = null;
+      paxRecords = {};
+    }
+
+    offset = dataOffset + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+  }
+
+  return entries;
+};
@@ -0,0 +1,211 @@
+/**
+ * Drain-style log template mining: variable parts of messages such as numbers,
+ * IPs, hex values and UUIDs are masked, and messages of the same length and
+ * first word are merged into one template when most of their tokens agree
+ */
+import { RegexPattern } from "@/components/regex/RegexManager";
+import { LogTemplate, TemplateMiningResult } from "@/types/templateTypes";
+import { JsonRecord, getFieldValue, splitFieldPath } from "@/utils/jsonLines";
+import { DEFAULT_BUCKET_SECONDS } from "@/utils/eventCounts";
+import { TimestampFormat } from "@/utils/timestampFormats";
+
+export const WILDCARD = "<*>";
+
+// Applied to every token in order; `pattern` matches any text a mask replaced
+const MASKS: { placeholder: string; regex: RegExp; pattern: string }[] = [
+  {
+    placeholder: "<UUID>",
+    regex: /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi,
+    pattern: "[0-9a-fA-F]{8}(?:-[0-9a-fA-F]{4}){3}-[0-9a-fA-F]{12}"
+  },
+  { placeholder: "<IP>", regex: /\d{1,3}(?:\.\d{1,3}){3}/g, pattern: "\\d{1,3}(?:\\.\\d{1,3}){3}" },
+  {
+    placeholder: "<HEX>",
+    regex: /\b0x[0-9a-f]+\b|\b(?=[0-9a-f]*\d)(?=[0-9a-f]*[a-f])[0-9a-f]{8,}\b/gi,
+    pattern: "(?:0[xX])?[0-9a-fA-F]+"
+  },
+  { placeholder: "<NUM>", regex: /\d+(?:\.\d+)?/g, pattern: "\\d+(?:\\.\\d+)?" }
+];
+
+const PLACEHOLDER_REGEX = /(<UUID>|<IP>|<HEX>|<NUM>)/;
+
+// Fraction of tokens that must agree for a message to join a template
+const SIMILARITY_THRESHOLD = 0.5;
+const MAX_TEMPLATES = 1000;
+const MAX_TOKENS = 64; // Longer messages are mined by their first tokens
+const SPARKLINE_BINS = 30;
+const MAX_NAME_LENGTH = 40;
+
+const MESSAGE_FIELDS = ["msg", "message", "error", "err", "event"].map(splitFieldPath);
+
+interface TemplateCluster {
+  tokens: string[];
+  count: number;
+  firstSeen: number;
+  lastSeen: number;
+  times: number[];
+  example: string;
+}
+
+export interface TemplateMiner {
+  groups: Map<string, TemplateCluster[]>; // Clusters by token count and first token
+  clusters: TemplateCluster[];
+  unclustered: number;
+}
+
+export const createTemplateMiner = (): TemplateMiner => ({
+  groups: new Map(),
+  clusters: [],
+  unclustered: 0
+});
+
+const escapeRegex = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const maskToken = (token: string): string => {
+  return MASKS.reduce((masked, { placeholder, regex }) => masked.replace(regex, placeholder), token);
+};
+
+/**
+ * Message of an event: the message field of JSON records, otherwise the first
+ * line without its timestamp
+ */
+export const getEventMessage = (text: string, record: JsonRecord | null, timestampFormat: TimestampFormat): string => {
+  if (record) {
+    for (const path of MESSAGE_FIELDS) {
+      const value = getFieldValue(record, path);
+      if (typeof value === 'string' && value.trim()) return value;
+    }
+  }
+
+  const newline = text.indexOf("\n");
+  const firstLine = newline >= 0 ? text.slice(0, newline) : text;
+  // Brackets and separators left around the timestamp go with it
+  return firstLine.replace(timestampFormat.regex, "").replace(/^[\s[\]()|:,-]+/, "");
+};
+
+// Share of tokens equal to the template's, and how many wildcards the template has (Drain's seqDist)
+const compareTokens = (template: string[], tokens: string[]): { similarity: number; wildcards: number } => {
+  let same = 0;
+  let wildcards = 0;
+  template.forEach((token, index) => {
+    if (token === WILDCARD) wildcards++;
+    else if (token === tokens[index]) same++;
+  });
+  return { similarity: same / template.length, wildcards };
+};
+
+export const addTemplateMessage = (miner: TemplateMiner, message: string, timestamp: number): void => {
+  const tokens = message.split(/\s+/).filter(Boolean).slice(0, MAX_TOKENS).map(maskToken);
+  if (tokens.length === 0) return;
+
+  // Variable first tokens would split a template, so they share a group
+  const firstToken = tokens[0].includes("<") ? WILDCARD : tokens[0];
+  const key = `${tokens.length} ${firstToken}`;
+  let group = miner.groups.get(key);
+  if (!group) {
+    group = [];
+    miner.groups.set(key, group);
+  }
+
+  let best: TemplateCluster | undefined;
+  let bestSimilarity = -1;
+  let bestWildcards = -1;
+  for (const cluster of group) {
+    const { similarity, wildcards } = compareTokens(cluster.tokens, tokens);
+    if (similarity > bestSimilarity || (similarity === bestSimilarity && wildcards > bestWildcards)) {
+      best = cluster;
+      bestSimilarity = similarity;
+      bestWildcards = wildcards;
+    }
+  }
+
+  if (best && bestSimilarity >= SIMILARITY_THRESHOLD) {
+    const cluster = best;
+    cluster.tokens = cluster.tokens.map((token, index) => token === tokens[index] ? token : WILDCARD);
+    cluster.count++;
+    cluster.firstSeen = Math.min(cluster.firstSeen, timestamp);
+    cluster.lastSeen = Math.max(cluster.lastSeen, timestamp);
+    cluster.times.push(timestamp);
+    return;
+  }
+
+  if (miner.clusters.length >= MAX_TEMPLATES) {
+    miner.unclustered++;
+    return;
+  }
+
+  const cluster: TemplateCluster = {
+    tokens,
+    count: 1,
+    firstSeen: timestamp,
+    lastSeen: timestamp,
+    times: [timestamp],
+    example: message
+  };
+  group.push(cluster);
+  miner.clusters.push(cluster);
+};
+
+/**
+ * Templates by frequency, with sparklines over the time range of the parse
+ */
+export const finishTemplateMiner = (miner: TemplateMiner, start = 0, end = 0): TemplateMiningResult => {
+  const binMs = Math.max(end - start, 1) / SPARKLINE_BINS;
+  const templates: LogTemplate[] = miner.clusters
+    .slice()
+    .sort((a, b) => b.count - a.count)
+    .map((cluster, index) => {
+      const sparkline: number[] = new Array(SPARKLINE_BINS).fill(0);
+      cluster.times.forEach(time => {
+        sparkline[Math.min(Math.max(Math.floor((time - start) / binMs), 0), SPARKLINE_BINS - 1)]++;
+      });
+      return {
+        id: index + 1,
+        template: cluster.tokens.join(" "),
+        count: cluster.count,
+        firstSeen: cluster.firstSeen,
+        lastSeen: cluster.lastSeen,
+        example: cluster.example,
+        sparkline
+      };
+    });
+
+  return {
+    templates,
+    minedCount: miner.clusters.reduce((sum, cluster) => sum + cluster.count, 0),
+    unclustered: miner.unclustered
+  };
+};
+
+/**
+ * Regular expression matching the lines of a template, for a count pattern
+ */
+export const templateToRegex = (template: string): string => {
+  return template.split(" ").map(token => {
+    if (token === WILDCARD) return "\\S+";
+    return token
+      .split(PLACEHOLDER_REGEX)
+      .map(part => MASKS.find(mask => mask.placeholder === part)?.pattern ?? escapeRegex(part))
+      .join("");
+  }).join("\\s+");
+};
+
+/**
+ * Count pattern charting how often the lines of a template occur. The pattern
+ * only matches text, so it counts every line with the template's text, not
+ * just the error and fatal events the template was mined from.
+ */
+export const createTemplatePattern = (template: LogTemplate): RegexPattern => {
+  const shortened = template.template.length > MAX_NAME_LENGTH
+    ? `${template.template.slice(0, MAX_NAME_LENGTH)}...`
+    : template.template;
+  return {
+    id: `template-${Date.now()}`,
+    name: `Template: ${shortened}`,
+    pattern: templateToRegex(template.template),
+    description: `Lines of any level with the text of the error template "${template.template}"`,
+    extractor: 'regex',
+    kind: 'count',
+    bucketSeconds: DEFAULT_BUCKET_SECONDS
+  };
+};
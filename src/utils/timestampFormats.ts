@@ -0,0 +1,161 @@
+/**
+ * Registry of supported log timestamp formats and auto-detection helpers
+ */
+
+export interface TimestampFormat {
+  id: string;
+  label: string;
+  example: string;
+  regex: RegExp;
+  parse: (match: RegExpMatchArray) => Date | null;
+}
+
+export const AUTO_TIMESTAMP_FORMAT = "auto";
+
+// Number of non-empty lines inspected when auto-detecting a format
+const DETECTION_SAMPLE_SIZE = 50;
+
+const MONTHS: Record<string, number> = {
+  Jan: 0, Feb: 1, Mar: 2, Apr: 3, May: 4, Jun: 5,
+  Jul: 6, Aug: 7, Sep: 8, Oct: 9, Nov: 10, Dec: 11
+};
+
+// Fractional seconds are truncated to milliseconds, which is all Date can hold
+const fractionToMillis = (fraction?: string): number => {
+  if (!fraction) return 0;
+  return Number(fraction.substring(0, 3).padEnd(3, "0"));
+};
+
+const toValidDate = (date: Date): Date | null => {
+  return isNaN(date.getTime()) ? null : date;
+};
+
+// Parses "+0200", "+02:00" or "Z" into an offset in minutes east of UTC
+const parseZoneOffset = (zone: string): number => {
+  if (zone === "Z") return 0;
+  const sign = zone.startsWith("-") ? -1 : 1;
+  const digits = zone.replace(/[+\-:]/g, "");
+  return sign * (Number(digits.substring(0, 2)) * 60 + Number(digits.substring(2, 4)));
+};
+
+const buildDate = (
+  year: number, month: number, day: number,
+  hours: number, minutes: number, seconds: number, millis: number,
+  zone?: string
+): Date | null => {
+  if (zone) {
+    const utc = Date.UTC(year, month, day, hours, minutes, seconds, millis);
+    return toValidDate(new Date(utc - parseZoneOffset(zone) * 60 * 1000));
+  }
+  // No zone information: interpret as local time, like the original parser did
+  return toValidDate(new Date(year, month, day, hours, minutes, seconds, millis));
+};
+
+export const TIMESTAMP_FORMATS: TimestampFormat[] = [
+  {
+    id: "slash-datetime",
+    label: "YYYY/MM/DD HH:MM:SS.ffffff",
+    example: "2026/10/19 14:02:11.123456",
+    regex: /^(\d{4})\/(\d{2})\/(\d{2}) (\d{2}):(\d{2}):(\d{2})(?:\.(\d+))?/,
+    parse: (m) => buildDate(+m[1], +m[2] - 1, +m[3], +m[4], +m[5], +m[6], fractionToMillis(m[7]))
+  },
+  {
+    id: "iso8601",
+    label: "ISO 8601",
+    example: "2026-10-19T14:02:11.123Z",
+    regex: /^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2}):(\d{2})(?:[.,](\d+))?(Z|[+-]\d{2}:?\d{2})?/,
+    parse: (m) => buildDate(+m[1], +m[2] - 1, +m[3], +m[4], +m[5], +m[6], fractionToMillis(m[7]), m[8])
+  },
+  {
+    id: "syslog",
+    label: "Syslog RFC 3164 (Oct 19 14:02:11)",
+    example: "<34>Oct 19 14:02:11",
+    regex: /^(?:<\d{1,3}>)?(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec) {1,2}(\d{1,2}) (\d{2}):(\d{2}):(\d{2})/,
+    parse: (m) => {
+      // Syslog omits the year; assume the current one unless that lands in the future
+      const now = new Date();
+      const date = buildDate(now.getFullYear(), MONTHS[m[1]], +m[2], +m[3], +m[4], +m[5], 0);
+      if (date && date.getTime() - now.getTime() > 24 * 60 * 60 * 1000) {
+        date.setFullYear(date.getFullYear() - 1);
+      }
+      return date;
+    }
+  },
+  {
+    id: "rfc5424",
+    label: "Syslog RFC 5424 (<34>1 2026-10-19T14:02:11Z)",
+    example: "<34>1 2026-10-19T14:02:11.123Z",
+    regex: /^<\d{1,3}>\d{1,2} (\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2}):(\d{2})(?:\.(\d+))?(Z|[+-]\d{2}:\d{2})/,
+    parse: (m) => buildDate(+m[1], +m[2] - 1, +m[3], +m[4], +m[5], +m[6], fractionToMillis(m[7]), m[8])
+  },
+  {
+    id: "apache",
+    label: "Apache/Nginx ([19/Oct/2026:14:02:11 +0000])",
+    example: "[19/Oct/2026:14:02:11 +0000]",
+    regex: /\[(\d{2})\/(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)\/(\d{4}):(\d{2}):(\d{2}):(\d{2}) ([+-]\d{4})\]/,
+    parse: (m) => buildDate(+m[3], MONTHS[m[2]], +m[1], +m[4], +m[5], +m[6], 0, m[7])
+  },
+  {
+    id: "epoch-millis",
+    label: "Epoch milliseconds",
+    example: "1792418531123",
+    regex: /^(\d{13})\b/,
+    parse: (m) => toValidDate(new Date(Number(m[1])))
+  },
+  {
+    id: "epoch-seconds",
+    label: "Epoch seconds",
+    example: "1792418531.123",
+    regex: /^(\d{10})(?:\.(\d+))?\b/,
+    parse: (m) => toValidDate(new Date(Number(m[1]) * 1000 + fractionToMillis(m[2])))
+  }
+];
+
+/**
+ * Looks up a format by id, returning undefined for unknown ids and "auto"
+ */
+export const getTimestampFormat = (id: string): TimestampFormat | undefined => {
+  return TIMESTAMP_FORMATS.find(format => format.id === id);
+};
+
+/**
+ * Extracts the timestamp from a line using the given format
+ */
+export const parseTimestamp = (line: string, format: TimestampFormat): Date | null => {
+  const match = line.match(format.regex);
+  return match ? format.parse(match) : null;
+};
+
+/**
+ * Picks the format that parses the most lines among the first non-empty lines
+ */
+export const detectTimestampFormat = (lines: string[]): TimestampFormat | null => {
+  const sample: string[] = [];
+  for (const line of lines) {
+    if (line.trim()) sample.push(line);
+    if (sample.length >= DETECTION_SAMPLE_SIZE) break;
+  }
+
+  let best: TimestampFormat | null = null;
+  let bestCount = 0;
+
+  TIMESTAMP_FORMATS.forEach(format => {
+    const count = sample.filter(line => parseTimestamp(line, format) !== null).length;
+    if (count > bestCount) {
+      best = format;
+      bestCount = count;
+    }
+  });
+
+  return best;
+};
+
+/**
+ * Resolves a user selection ("auto" or a format id) against the log content
+ */
+export const resolveTimestampFormat = (formatId: string, lines: string[]): TimestampFormat | null => {
+  if (formatId && formatId !== AUTO_TIMESTAMP_FORMAT) {
+    return getTimestampFormat(formatId) || null;
+  }
+  return detectTimestampFormat(lines);
+};
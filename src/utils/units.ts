@@ -0,0 +1,166 @@
+/**
+ * Unit-aware values: captured text such as "512KB", "2.5s" or "1,024" is parsed
+ * into a number in the unit's base (bytes, milliseconds, percent) and formatted
+ * back with a readable suffix for chart axes and tooltips
+ */
+import type { PatternUnit, RegexPattern } from "@/components/regex/RegexManager";
+
+export const PATTERN_UNITS: { value: PatternUnit; label: string; base: string }[] = [
+  { value: 'bytes', label: "Bytes", base: "bytes" },
+  { value: 'duration', label: "Duration", base: "milliseconds" },
+  { value: 'percent', label: "Percent", base: "percent" },
+  { value: 'custom', label: "Custom", base: "the custom unit" }
+];
+
+// Size suffixes follow the usual log convention of 1 KB = 1024 bytes
+const BYTE_UNITS: Record<string, number> = {
+  b: 1, byte: 1, bytes: 1,
+  k: 1024, kb: 1024, kib: 1024,
+  m: 1024 ** 2, mb: 1024 ** 2, mib: 1024 ** 2,
+  g: 1024 ** 3, gb: 1024 ** 3, gib: 1024 ** 3,
+  t: 1024 ** 4, tb: 1024 ** 4, tib: 1024 ** 4,
+  p: 1024 ** 5, pb: 1024 ** 5, pib: 1024 ** 5
+};
+
+const DURATION_UNITS: Record<string, number> = {
+  ns: 1e-6,
+  us: 1e-3, "µs": 1e-3, "μs": 1e-3,
+  ms: 1,
+  s: 1000, sec: 1000, secs: 1000, second: 1000, seconds: 1000,
+  m: 60000, min: 60000, mins: 60000, minute: 60000, minutes: 60000,
+  h: 3600000, hr: 3600000, hrs: 3600000, hour: 3600000, hours: 3600000,
+  d: 86400000, day: 86400000, days: 86400000
+};
+
+// A number followed by an optional suffix, e.g. "2.5s", "512 KB" or "-3e2"
+const NUMBER_WITH_SUFFIX = /^([-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?)\s*([a-zµμ%]*)$/i;
+
+// Duration parts like "1h30m" or "1m2.5s", as printed by Go
+const DURATION_PART = /(\d+\.?\d*|\.\d+)\s*([a-zµμ]+)/gi;
+
+/**
+ * Removes thousands separators, e.g. "1,024,000" becomes "1024000"
+ */
+const stripThousandsSeparators = (text: string): string => {
+  return text.replace(/(\d),(?=\d{3}(?!\d))/g, "$1");
+};
+
+const parseDuration = (text: string): number | undefined => {
+  const single = text.match(NUMBER_WITH_SUFFIX);
+  if (single) {
+    const factor = single[2] ? DURATION_UNITS[single[2].toLowerCase()] : 1;
+    return factor === undefined ? undefined : Number(single[1]) * factor;
+  }
+
+  // Compound durations must consist of parts only
+  let total = 0;
+  let consumed = 0;
+  for (const part of text.matchAll(DURATION_PART)) {
+    const factor = DURATION_UNITS[part[2].toLowerCase()];
+    if (factor === undefined) return undefined;
+    total += Number(part[1]) * factor;
+    consumed += part[0].length;
+  }
+  return consumed > 0 && consumed === text.replace(/\s/g, "").length ? total : undefined;
+};
+
+/**
+ * Parses a captured value into the base unit of a pattern. Values without a
+ * suffix are read as the base unit; unrecognized suffixes give undefined.
+ */
+export const parseUnitValue = (raw: string, unit: PatternUnit, unitLabel?: string): number | undefined => {
+  let text = stripThousandsSeparators(raw.trim());
+
+  if (unit === 'duration') {
+    return parseDuration(text);
+  }
+
+  if (unit === 'custom' && unitLabel && text.toLowerCase().endsWith(unitLabel.toLowerCase())) {
+    text = text.slice(0, text.length - unitLabel.length).trim();
+  }
+
+  const match = text.match(NUMBER_WITH_SUFFIX);
+  if (!match) return undefined;
+
+  const value = Number(match[1]);
+  const suffix = match[2].toLowerCase();
+  if (!suffix) return value;
+
+  if (unit === 'bytes') {
+    const factor = BYTE_UNITS[suffix];
+    return factor === undefined ? undefined : value * factor;
+  }
+  if (unit === 'percent') {
+    return suffix === '%' ? value : undefined;
+  }
+  return undefined;
+};
+
+// Rounds to three significant digits for display, or to whole numbers from 1000 up
+const formatNumber = (value: number): string => {
+  if (Math.abs(value) >= 1000) return Math.round(value).toLocaleString();
+  return Number(value.toPrecision(3)).toLocaleString();
+};
+
+/**
+ * Formats a byte count with a 1024-based suffix, e.g. 1536 as "1.5 KB"
+ */
+export const formatBytes = (value: number): string => {
+  const suffixes = ["B", "KB", "MB", "GB", "TB", "PB"];
+  let scaled = value;
+  let index = 0;
+  while (Math.abs(scaled) >= 1024 && index < suffixes.length - 1) {
+    scaled /= 1024;
+    index++;
+  }
+  return `${formatNumber(scaled)} ${suffixes[index]}`;
+};
+
+const formatDuration = (ms: number): string => {
+  const abs = Math.abs(ms);
+  if (abs === 0) return "0 ms";
+  if (abs < 1) return `${formatNumber(ms * 1000)} µs`;
+  if (abs < 1000) return `${formatNumber(ms)} ms`;
+  if (abs < 60000) return `${formatNumber(ms / 1000)} s`;
+  if (abs < 3600000) return `${formatNumber(ms / 60000)} min`;
+  if (abs < 86400000) return `${formatNumber(ms / 3600000)} h`;
+  return `${formatNumber(ms / 86400000)} d`;
+};
+
+/**
+ * Formats a base-unit value with a readable suffix, e.g. 1288490188 bytes as "1.2 GB"
+ */
+export const formatUnitValue = (value: number, unit?: PatternUnit, unitLabel?: string): string => {
+  switch (unit) {
+    case 'bytes':
+      return formatBytes(value);
+    case 'duration':
+      return formatDuration(value);
+    case 'percent':
+      return `${formatNumber(value)}%`;
+    case 'custom':
+      return unitLabel ? `${formatNumber(value)} ${unitLabel}` : formatNumber(value);
+    default:
+      return String(value);
+  }
+};
+
+/**
+ * Guesses the unit of a suffix seen on values, e.g. "ms" is a duration
+ */
+export const detectUnit = (suffix: string): PatternUnit | undefined => {
+  const key = suffix.toLowerCase();
+  if (key === '%') return 'percent';
+  if (DURATION_UNITS[key] !== undefined) return 'duration';
+  if (BYTE_UNITS[key] !== undefined) return 'bytes';
+  return undefined;
+};
+
+/**
+ * Short description of a pattern's unit for badges, e.g. "bytes" or "req/s"
+ */
+export const getUnitLabel = (pattern: RegexPattern): string | undefined => {
+  if (!pattern.unit) return undefined;
+  if (pattern.unit === 'custom') return pattern.unitLabel || undefined;
+  return pattern.unit === 'percent' ? "%" : pattern.unit;
+};
@@ -0,0 +1,131 @@
+/**
+ * Pure TypeScript .xz container reader on top of the LZMA2 decoder.
+ * Only the LZMA2 filter is supported, which is what xz uses for text.
+ * Integrity checks are skipped rather than verified.
+ */
+import { DecoderOutput, InputBuffer, decodeLzma2, getLzma2DictionarySize } from "@/utils/lzma";
+
+const XZ_MAGIC = [0xFD, 0x37, 0x7A, 0x58, 0x5A, 0x00];
+const STREAM_HEADER_SIZE = 12;
+const STREAM_FOOTER_SIZE = 12;
+const LZMA2_FILTER_ID = 0x21;
+
+const getCheckSize = (checkType: number): number => {
+  if (checkType === 0) return 0;
+  return 4 << Math.floor((checkType - 1) / 3);
+};
+
+// A varint never takes more than nine bytes
+const MAX_VARINT_SIZE = 9;
+
+const readVarint = (input: InputBuffer, offset: number): [number, number] => {
+  let value = 0;
+  let shift = 0;
+  let pos = offset;
+
+  while (true) {
+    if (pos >= input.end || shift > 49) {
+      throw new Error("Corrupted xz data");
+    }
+    const byte = input.byte(pos++);
+    value += (byte & 0x7F) * Math.pow(2, shift);
+    if ((byte & 0x80) === 0) break;
+    shift += 7;
+  }
+
+  return [value, pos];
+};
+
+const alignTo4 = (pos: number, start: number): number => {
+  return pos + ((4 - ((pos - start) % 4)) % 4);
+};
+
+/**
+ * Decodes a single block and returns the offset just past its check field
+ */
+function* decodeBlock(input: InputBuffer, blockStart: number, checkSize: number): Generator<DecoderOutput, number> {
+  const headerSize = (input.byte(blockStart) + 1) * 4;
+  yield* input.require(blockStart, headerSize);
+  const flags = input.byte(blockStart + 1);
+  let pos = blockStart + 2;
+  let uncompressedSize: number | undefined;
+
+  if (flags & 0x40) [, pos] = readVarint(input, pos);
+  if (flags & 0x80) [uncompressedSize, pos] = readVarint(input, pos);
+
+  const filterCount = (flags & 0x03) + 1;
+  let dictSize = 0;
+
+  for (let i = 0; i < filterCount; i++) {
+    let filterId: number;
+    let propertiesSize: number;
+    [filterId, pos] = readVarint(input, pos);
+    [propertiesSize, pos] = readVarint(input, pos);
+
+    if (filterId !== LZMA2_FILTER_ID || filterCount > 1) {
+      throw new Error(`Unsupported xz filter 0x${filterId.toString(16)}`);
+    }
+    dictSize = getLzma2DictionarySize(input.byte(pos));
+    pos += propertiesSize;
+  }
+
+  const dataStart = blockStart + headerSize;
+  const dataEnd = yield* decodeLzma2(input, dataStart, dictSize, uncompressedSize);
+
+  return alignTo4(dataEnd, blockStart) + checkSize;
+}
+
+/**
+ * Skips the index and footer that follow the blocks of a stream
+ */
+function* skipIndex(input: InputBuffer, indexStart: number): Generator<DecoderOutput, number> {
+  yield* input.require(indexStart, 1 + MAX_VARINT_SIZE);
+  let [recordCount, pos] = readVarint(input, indexStart + 1);
+
+  while (recordCount-- > 0) {
+    yield* input.require(pos, 2 * MAX_VARINT_SIZE);
+    [, pos] = readVarint(input, pos);
+    [, pos] = readVarint(input, pos);
+    input.release(pos);
+  }
+
+  return alignTo4(pos, indexStart) + 4 + STREAM_FOOTER_SIZE;
+}
+
+/**
+ * Decodes .xz data, including concatenated streams and stream padding
+ */
+export function* decodeXz(input: InputBuffer): Generator<DecoderOutput> {
+  let pos = 0;
+
+  while (true) {
+    yield* input.require(pos, STREAM_HEADER_SIZE);
+    if (pos >= input.end) break;
+
+    if (!XZ_MAGIC.every((byte, i) => input.byte(pos + i) === byte)) {
+      throw new Error("Not an xz file");
+    }
+
+    const checkSize = getCheckSize(input.byte(pos + 7) & 0x0F);
+    pos += STREAM_HEADER_SIZE;
+
+    while (true) {
+      yield* input.require(pos, 1);
+      if (pos >= input.end) {
+        throw new Error("Unexpected end of xz data");
+      }
+      if (input.byte(pos) === 0x00) break;
+      pos = yield* decodeBlock(input, pos, checkSize);
+    }
+
+    pos = yield* skipIndex(input, pos);
+    input.release(pos);
+
+    // Stream padding consists of null bytes between concatenated streams
+    while (true) {
+      yield* input.require(pos, 1);
+      if (pos >= input.end || input.byte(pos) !== 0x00) break;
+      pos++;
+    }
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Reads the uncompressed sizes of ZIP entries from the archive's central
+ * directory, including ZIP64 sizes of entries over 4 GB
+ */
+
+const EOCD_SIGNATURE = 0x06054b50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const EOCD_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xffff;
+const ZIP64_EXTRA_ID = 0x0001;
+
+const decoder = new TextDecoder();
+
+// Offset of the end of central directory record, searched from the end past the archive comment
+const findEndOfCentralDirectory = (view: DataView): number => {
+  const lowest = Math.max(0, view.byteLength - EOCD_SIZE - MAX_COMMENT_SIZE);
+  for (let offset = view.byteLength - EOCD_SIZE; offset >= lowest; offset--) {
+    if (view.getUint32(offset, true) === EOCD_SIGNATURE) return offset;
+  }
+  return -1;
+};
+
+const readUint64 = (view: DataView, offset: number): number => {
+  return view.getUint32(offset, true) + view.getUint32(offset + 4, true) * 0x100000000;
+};
+
+// Location of the central directory, from the ZIP64 record when the classic one overflowed
+const getCentralDirectory = (view: DataView, eocd: number): { offset: number; count: number } => {
+  const offset = view.getUint32(eocd + 16, true);
+  const count = view.getUint16(eocd + 10, true);
+  const locator = eocd - 20;
+  if (offset !== 0xffffffff && count !== 0xffff) return { offset, count };
+  if (locator < 0 || view.getUint32(locator, true) !== ZIP64_LOCATOR_SIGNATURE) return { offset, count };
+
+  const zip64Eocd = readUint64(view, locator + 8);
+  if (zip64Eocd + 56 > view.byteLength || view.getUint32(zip64Eocd, true) !== ZIP64_EOCD_SIGNATURE) {
+    return { offset, count };
+  }
+  return { offset: readUint64(view, zip64Eocd + 48), count: readUint64(view, zip64Eocd + 32) };
+};
+
+// The ZIP64 extra field holds the uncompressed size first when the header's size overflowed
+const readZip64Size = (view: DataView, start: number, end: number): number | null => {
+  let offset = start;
+  while (offset + 4 <= end) {
+    const id = view.getUint16(offset, true);
+    const length = view.getUint16(offset + 2, true);
+    if (id === ZIP64_EXTRA_ID && length >= 8 && offset + 12 <= end) return readUint64(view, offset + 4);
+    offset += 4 + length;
+  }
+  return null;
+};
+
+/**
+ * Uncompressed size of every file by its name, decoded as UTF-8 like JSZip
+ * does. Returns an empty map when the central directory cannot be found.
+ */
+export const readZipEntrySizes = (archive: ArrayBuffer): Map<string, number> => {
+  const sizes = new Map<string, number>();
+  const view = new DataView(archive);
+  const bytes = new Uint8Array(archive);
+  if (view.byteLength < EOCD_SIZE) return sizes;
+
+  const eocd = findEndOfCentralDirectory(view);
+  if (eocd < 0) return sizes;
+
+  const directory = getCentralDirectory(view, eocd);
+  let offset = directory.offset;
+  for (let i = 0; i < directory.count; i++) {
+    if (offset + 46 > view.byteLength || view.getUint32(offset, true) !== CENTRAL_HEADER_SIGNATURE) break;
+
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const nameStart = offset + 46;
+    const extraStart = nameStart + nameLength;
+
+    const name = decoder.decode(bytes.subarray(nameStart, extraStart));
+    const size = view.getUint32(offset + 24, true);
+    const resolved = size === 0xffffffff ? readZip64Size(view, extraStart, Math.min(extraStart + extraLength, view.byteLength)) : size;
+    if (resolved !== null) sizes.set(name, resolved);
+
+    offset = extraStart + extraLength + commentLength;
+  }
+
+  return sizes;
+};
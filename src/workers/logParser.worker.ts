@@ -0,0 +1,315 @@
+/**
+ * Dedicated worker that parses log sources off the main thread.
+ * Sources are streamed line by line and merged into one timeline; only
+ * extracted data points are kept in memory.
+ * Cancellation is done by terminating the worker from the main thread.
+ */
+import {
+  DiscoverKeysRequest,
+  ParseLogRequest,
+  ParserWorkerMessage,
+  ParserWorkerRequest,
+  SearchLogRequest
+} from "@/types/workerTypes";
+import { IngestionConfig, LogSource } from "@/types/sourceTypes";
+import { SearchHit } from "@/types/searchTypes";
+import { SEVERITY_LEVELS } from "@/types/severityTypes";
+import { TimestampFormat, parseTimestamp, resolveTimestampFormat } from "@/utils/timestampFormats";
+import { streamLogLines } from "@/utils/logStream";
+import { parseJsonLine, getTimestampText } from "@/utils/jsonLines";
+import { LogfmtKeyStats, parseLogfmt, addLogfmtFields, summarizeLogfmtKeys } from "@/utils/logfmt";
+import { formatBytes } from "@/utils/units";
+import { createLineMatcher } from "@/utils/logSearch";
+import { finishSeverityCollector } from "@/utils/severity";
+import { finishTemplateMiner } from "@/utils/templateMining";
+import {
+  CompiledPattern,
+  EventAssembler,
+  ParserState,
+  compilePatterns,
+  createEventAssembler,
+  createEventStartTest,
+  createParserState,
+  beginSource,
+  parseLine,
+  appendCountPoints,
+  buildStringValueMap,
+  formatDataPoint
+} from "@/utils/logParser";
+
+const FORMAT_BATCH_SIZE = 5000;
+// Lines buffered before the timestamp format is resolved
+const DETECTION_BUFFER_LINES = 200;
+// Search hits sent back in full; every hit is still counted and placed in time
+const MAX_SEARCH_HITS = 1000;
+const MAX_HIT_TEXT_LENGTH = 500;
+
+const post = (message: ParserWorkerMessage, transfer: Transferable[] = []) => {
+  self.postMessage(message, { transfer });
+};
+
+/**
+ * Texts the timestamp format is detected from, among buffered lines
+ */
+const getTimestampTexts = (lines: string[], ingestion: IngestionConfig): string[] => {
+  return lines
+    .map(line => getTimestampText(line, ingestion.format === 'jsonl' ? parseJsonLine(line) : null, ingestion))
+    .filter((text): text is string => text !== null);
+};
+
+/**
+ * Creates a byte-based progress reporter across all sources. Only whole-percent
+ * steps are posted to keep message traffic low on huge files.
+ */
+const createProgressReporter = (sources: LogSource[], verb: string, getCount: () => number) => {
+  const totalBytes = sources.reduce((sum, source) => sum + source.size, 0);
+  let completedBytes = 0;
+  let lastProgress = -1;
+
+  return {
+    report: (index: number, bytesRead: number) => {
+      const processed = completedBytes + bytesRead;
+      const progress = totalBytes > 0 ? Math.min(100, Math.round((processed / totalBytes) * 100)) : 100;
+      if (progress === lastProgress) return;
+      lastProgress = progress;
+
+      const fileLabel = sources.length > 1 ? ` (file ${index + 1} of ${sources.length})` : "";
+      post({
+        type: 'progress',
+        status: `${verb} ${formatBytes(processed)} of ${formatBytes(totalBytes)}${fileLabel} (${progress}%)`,
+        progress,
+        dataPoints: getCount()
+      });
+    },
+    completeSource: (source: LogSource) => {
+      completedBytes += source.size;
+    }
+  };
+};
+
+/**
+ * Streams a single source into the shared parser state
+ */
+const parseSource = async (
+  source: LogSource,
+  compiledPatterns: CompiledPattern[],
+  timestampFormatId: string,
+  ingestion: IngestionConfig,
+  state: ParserState,
+  reportProgress: (bytesRead: number) => void
+): Promise<boolean> => {
+  const pendingLines: string[] = [];
+  let assembler: EventAssembler | null = null;
+  let lineNumber = 0;
+
+  beginSource(state, source.name);
+
+  // Every source is detected on its own, as hosts may log in different formats
+  const resolveFormat = (): boolean => {
+    const timestampTexts = getTimestampTexts(pendingLines, ingestion);
+
+    if (ingestion.format === 'jsonl' && timestampTexts.length === 0) {
+      post({ type: 'error', message: `No "${ingestion.timestampField}" field found in ${source.name}. Please choose the timestamp field in the Patterns step.` });
+      return false;
+    }
+
+    const timestampFormat = resolveTimestampFormat(timestampFormatId, timestampTexts);
+    if (!timestampFormat) {
+      post({ type: 'error', message: `Could not detect the timestamp format of ${source.name}. Please select one in the Patterns step.` });
+      return false;
+    }
+
+    // Lines are grouped into events before patterns are applied
+    assembler = createEventAssembler(
+      createEventStartTest(ingestion, timestampFormat),
+      (event) => parseLine(event.text, event.lineNumber, compiledPatterns, timestampFormat, state, ingestion, event.lineCount)
+    );
+    pendingLines.forEach(line => assembler.push(line, ++lineNumber));
+    pendingLines.length = 0;
+    return true;
+  };
+
+  for await (const lines of streamLogLines(source, reportProgress)) {
+    for (const line of lines) {
+      if (assembler) {
+        assembler.push(line, ++lineNumber);
+      } else {
+        pendingLines.push(line);
+        if (pendingLines.length >= DETECTION_BUFFER_LINES && !resolveFormat()) return false;
+      }
+    }
+  }
+
+  // Short files may end before the detection buffer fills up
+  if (!assembler && !resolveFormat()) return false;
+  assembler.flush();
+  return true;
+};
+
+const parseLog = async ({ sources, patterns, timestampFormatId, ingestion, categoryOrders }: ParseLogRequest) => {
+  const compiledPatterns = compilePatterns(patterns);
+  const state = createParserState();
+  const progress = createProgressReporter(sources, "Processing", () => state.parsedData.length);
+
+  for (const [index, source] of sources.entries()) {
+    const reportProgress = (bytesRead: number) => progress.report(index, bytesRead);
+    if (!await parseSource(source, compiledPatterns, timestampFormatId, ingestion, state, reportProgress)) {
+      return;
+    }
+    progress.completeSource(source);
+  }
+
+  appendCountPoints(state, compiledPatterns);
+  const { parsedData } = state;
+
+  // Merge all sources into one chronological timeline
+  parsedData.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+  const stringValueMap = buildStringValueMap(state.stringValues, categoryOrders);
+  const splitBySource = sources.length > 1;
+
+  const formattedData: Record<string, number | string>[] = new Array(parsedData.length);
+  for (let i = 0; i < parsedData.length; i++) {
+    formattedData[i] = formatDataPoint(parsedData[i], stringValueMap, splitBySource);
+
+    if ((i + 1) % FORMAT_BATCH_SIZE === 0) {
+      const formatProgress = Math.round(((i + 1) / parsedData.length) * 100);
+      post({ type: 'progress', status: `Formatting data (${formatProgress}%)`, progress: formatProgress, dataPoints: parsedData.length });
+    }
+  }
+
+  const severity = finishSeverityCollector(state.severity);
+  const severityBuffers = SEVERITY_LEVELS.map(level => severity.times[level].buffer);
+  const errorTemplates = finishTemplateMiner(state.templates, state.firstTimestamp, state.lastTimestamp);
+  post({ type: 'result', formattedData, stringValueMap, severity, errorTemplates }, severityBuffers);
+};
+
+/**
+ * Scans every line of every source and summarizes the logfmt keys found
+ */
+const discoverKeys = async ({ sources }: DiscoverKeysRequest) => {
+  const stats = new Map<string, LogfmtKeyStats>();
+  let lineCount = 0;
+  const progress = createProgressReporter(sources, "Scanning", () => lineCount);
+
+  for (const [index, source] of sources.entries()) {
+    for await (const lines of streamLogLines(source, (bytesRead) => progress.report(index, bytesRead))) {
+      for (const line of lines) {
+        lineCount++;
+        addLogfmtFields(stats, parseLogfmt(line));
+      }
+    }
+    progress.completeSource(source);
+  }
+
+  post({ type: 'keys', keys: summarizeLogfmtKeys(stats), lineCount });
+};
+
+/**
+ * Searches a single source line by line. Lines are timed like events: text
+ * lines without a timestamp take the one of the last line that had one.
+ */
+const searchSource = async (
+  source: LogSource,
+  matches: (line: string) => boolean,
+  timestampFormatId: string,
+  ingestion: IngestionConfig,
+  onHit: (source: string, line: number, text: string, timestamp?: number) => void,
+  reportProgress: (bytesRead: number) => void
+): Promise<void> => {
+  const pendingLines: string[] = [];
+  let timestampFormat: TimestampFormat | null = null;
+  let resolved = false;
+  let lineNumber = 0;
+  let lastStampedLine: string | undefined; // Latest text line that starts with a timestamp
+  let parsedLine: string | undefined;
+  let parsedTimestamp: number | undefined;
+
+  const getTimestamp = (line: string): number | undefined => {
+    if (!timestampFormat) return undefined;
+    const text = getTimestampText(line, ingestion.format === 'jsonl' ? parseJsonLine(line) : null, ingestion);
+    return text !== null ? parseTimestamp(text, timestampFormat)?.getTime() : undefined;
+  };
+
+  // Hits take the time of the latest stamped line, parsed once however many hits follow it
+  const getLastTimestamp = (): number | undefined => {
+    if (lastStampedLine === undefined) return undefined;
+    if (lastStampedLine !== parsedLine) {
+      parsedLine = lastStampedLine;
+      parsedTimestamp = getTimestamp(lastStampedLine);
+    }
+    return parsedTimestamp;
+  };
+
+  const searchLine = (line: string) => {
+    lineNumber++;
+    // JSON lines each carry their own timestamp, which is only parsed for hits
+    if (ingestion.format === 'jsonl') {
+      if (matches(line)) onHit(source.name, lineNumber, line, getTimestamp(line));
+      return;
+    }
+    // Other lines are only tested for a timestamp; it is parsed for hits
+    if (timestampFormat?.regex.test(line)) lastStampedLine = line;
+    if (matches(line)) onHit(source.name, lineNumber, line, getLastTimestamp());
+  };
+
+  // Hits are still listed without times when no timestamp format is found
+  const resolveFormat = () => {
+    timestampFormat = resolveTimestampFormat(timestampFormatId, getTimestampTexts(pendingLines, ingestion));
+    resolved = true;
+    pendingLines.forEach(searchLine);
+    pendingLines.length = 0;
+  };
+
+  for await (const lines of streamLogLines(source, reportProgress)) {
+    for (const line of lines) {
+      if (resolved) {
+        searchLine(line);
+      } else {
+        pendingLines.push(line);
+        if (pendingLines.length >= DETECTION_BUFFER_LINES) resolveFormat();
+      }
+    }
+  }
+  if (!resolved) resolveFormat();
+};
+
+const searchLog = async ({ sources, query, timestampFormatId, ingestion }: SearchLogRequest) => {
+  const matches = createLineMatcher(query);
+  const hits: SearchHit[] = [];
+  const hitTimes: number[] = [];
+  let hitCount = 0;
+  const progress = createProgressReporter(sources, "Searching", () => hitCount);
+
+  const onHit = (source: string, line: number, text: string, timestamp?: number) => {
+    hitCount++;
+    if (timestamp !== undefined) hitTimes.push(timestamp);
+    if (hits.length < MAX_SEARCH_HITS) {
+      const shortened = text.length > MAX_HIT_TEXT_LENGTH ? `${text.slice(0, MAX_HIT_TEXT_LENGTH)}...` : text;
+      hits.push({ source, line, text: shortened, timestamp });
+    }
+  };
+
+  for (const [index, source] of sources.entries()) {
+    const reportProgress = (bytesRead: number) => progress.report(index, bytesRead);
+    await searchSource(source, matches, timestampFormatId, ingestion, onHit, reportProgress);
+    progress.completeSource(source);
+  }
+
+  const sortedTimes = Float64Array.from(hitTimes).sort();
+  post({ type: 'search-result', hits, hitCount, hitTimes: sortedTimes }, [sortedTimes.buffer]);
+};
+
+self.onmessage = async (event: MessageEvent<ParserWorkerRequest>) => {
+  try {
+    if (event.data.type === 'parse') {
+      await parseLog(event.data);
+    } else if (event.data.type === 'discover-keys') {
+      await discoverKeys(event.data);
+    } else if (event.data.type === 'search') {
+      await searchLog(event.data);
+    }
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : "Failed to parse log data" });
+  }
+};